@@ -1,33 +1,85 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { GameState, SimulationResult, WorldData, LocationData, PlayerData, ObjectData, AISettings, DEFAULT_AI_SETTINGS, AVAILABLE_MODELS, TurnHistory } from './types';
-import { INITIAL_STATE } from './constants';
-import { ALL_TOOLS } from './tools/index';
-import { processGameTurn } from './services/geminiService';
-import { WorldEditor, LocationsEditor, PlayersEditor, ObjectsEditor, ConnectionTarget, LocationOption } from './components/FormEditors';
+import React, { useState, useEffect, useRef, useMemo, useSyncExternalStore } from 'react';
+import { GameState, SimulationResult, WorldData, WorldClock, LocationData, PlayerData, NpcData, ObjectData, AISettings, DEFAULT_AI_SETTINGS, AVAILABLE_MODELS, TurnHistory, ToolCallLog, TimelineSnapshot, TurnTimeline, TimelineBranch, SavedSession, SaveSlot, StateIssue, DEFAULT_OPENAI_COMPATIBLE_BASE_URL } from './types';
+import { INITIAL_STATE, INITIAL_HISTORY } from './constants';
+import { getTools, getToolRegistryErrors, subscribeToTools, loadDeclarativeTools } from './tools/index';
+import { processGameTurn, generateNarrative, applyNarrativeResult } from './services/geminiService';
+import { replayToolCalls } from './services/toolExecution';
+import { WorldEditor, ClockEditor, LocationsEditor, PlayersEditor, NpcsEditor, ObjectsEditor, ConnectionTarget, LocationOption } from './components/FormEditors';
 import DiffView from './components/DiffView';
 import NarrativeText from './components/NarrativeText';
-import { saveDataFiles } from './utils/dataExporter';
-import { normalizeState } from './utils/gameUtils';
+import ToolPlanEditor from './components/ToolPlanEditor';
+import SaveLoadDialog from './components/SaveLoadDialog';
+import IssuesPanel from './components/IssuesPanel';
+import { saveDataFiles, downloadFile } from './utils/dataExporter';
+import { createProviderFromSettings } from './services/providers';
+import { Cassette, createRecordingProvider, createReplayProvider, parseCassette } from './services/providers/cassetteProvider';
+import { normalizeState, syncPlayerConditions, syncPlayerInventories } from './utils/gameUtils';
+import { createSaveEnvelope, parseSessionBackup } from './utils/saveFormat';
+import { validateState, repairIssue, repairAllIssues } from './utils/stateValidation';
+import { MAIN_BRANCH_NAME, createBranch, forkBranch, syncBranch } from './utils/branches';
+import { createTurnDiceRecord, ROLL_TIER_LABELS } from './utils/dice';
+import { createTimeline, commitToTimeline, canUndo, canRedo, moveTimeline, rewindToTurn, getCurrentSnapshot, getTimelineTurns } from './utils/timeline';
 import { getAllPresets, addPreset, deletePreset, getPresetById, updatePreset, PromptPreset } from './utils/promptPresets';
 
+// Резервная копия сессии (состояние + история ходов), когда API сохранения недоступен
+const SESSION_BACKUP_KEY = 'rpg_session_backup';
+
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(INITIAL_STATE);
   const [playerInput, setPlayerInput] = useState<string>('');
-  const [activeTab, setActiveTab] = useState<'world' | 'locations' | 'players' | 'objects' | 'history'>('world');
-  const [history, setHistory] = useState<TurnHistory[]>([]); // История ходов игры
+  const [activeTab, setActiveTab] = useState<'world' | 'locations' | 'players' | 'npcs' | 'objects' | 'history' | 'issues'>('world');
+  const [history, setHistory] = useState<TurnHistory[]>(INITIAL_HISTORY); // История ходов игры (сохраняется вместе с состоянием)
+  const [timeline, setTimeline] = useState<TurnTimeline>(createTimeline); // Снимки коммитов для undo/redo
+  // Ветки мира; данные активной ветки — gameState/history/timeline выше
+  const [branches, setBranches] = useState<TimelineBranch[]>(() => [
+    createBranch(MAIN_BRANCH_NAME, { state: INITIAL_STATE, history: INITIAL_HISTORY }, createTimeline())
+  ]);
+  const [activeBranchId, setActiveBranchId] = useState(() => branches[0].id);
+  // Пара веток для сравнения в DiffView (null — сравнение скрыто)
+  const [compareBranchIds, setCompareBranchIds] = useState<[string, string] | null>(null);
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  // Проверка целостности текущего состояния: при загрузке и после любого изменения
+  const stateIssues = useMemo(() => validateState(gameState), [gameState]);
+  const stateErrorCount = stateIssues.filter(i => i.severity === 'error').length;
   
+  // Реестр инструментов (tools/index.ts); обновляется при горячей замене модулей инструментов
+  const allTools = useSyncExternalStore(subscribeToTools, getTools);
+  const toolRegistryErrors = useMemo(() => getToolRegistryErrors(), [allTools]);
+
   // State for enabled tools. Default all to true, except move_player which is disabled by default.
   const [toolEnabledState, setToolEnabledState] = useState<Record<string, boolean>>(() => {
     const initial: Record<string, boolean> = {};
-    ALL_TOOLS.forEach(t => {
+    getTools().forEach(t => {
       // Отключаем move_player по умолчанию
       initial[t.definition.name] = t.definition.name !== 'move_player';
     });
     return initial;
   });
 
+  // Декларативные инструменты (custom-tools/*.json) подгружаются с dev-сервера
+  useEffect(() => {
+    loadDeclarativeTools();
+  }, []);
+
+  // Инструменты, появившиеся после горячей замены или загрузки JSON, включаются по тем же правилам
+  useEffect(() => {
+    setToolEnabledState(prev => {
+      const added = allTools.filter(t => !(t.definition.name in prev));
+      if (added.length === 0) return prev;
+      const next = { ...prev };
+      added.forEach(t => { next[t.definition.name] = t.definition.name !== 'move_player'; });
+      return next;
+    });
+  }, [allTools]);
+
   // AI Settings state
   const [aiSettings, setAiSettings] = useState<AISettings>(DEFAULT_AI_SETTINGS);
+  const isOpenAICompatible = aiSettings.providerId === 'openai-compatible';
+
+  // Запись / воспроизведение кассет (пары запрос/ответ LLM за ход)
+  const [recordCassette, setRecordCassette] = useState(false);
+  const [lastCassette, setLastCassette] = useState<Cassette | null>(null);
+  const [replayCassette, setReplayCassette] = useState<{ name: string; cassette: Cassette } | null>(null);
   const [middleTab, setMiddleTab] = useState<'tools' | 'settings'>('tools');
   
   // Presets management state
@@ -209,6 +261,18 @@ const App: React.FC = () => {
 
   const [isProcessing, setIsProcessing] = useState(false);
   const [lastResult, setLastResult] = useState<SimulationResult | null>(null);
+  // Нарратив, приходящий потоком во время обработки хода (null — ещё не начался)
+  const [streamingNarrative, setStreamingNarrative] = useState<string | null>(null);
+  // Контроллер отмены текущего хода (null — ход не выполняется)
+  const turnAbortRef = useRef<AbortController | null>(null);
+  // Режим плана: ход возвращает план вызовов инструментов, нарратив — после утверждения
+  const [planMode, setPlanMode] = useState(false);
+  // Редактирование плана вызовов в панели результата; после пересчёта нарратив устаревает
+  const [isEditingPlan, setIsEditingPlan] = useState(false);
+  const [narrativeStale, setNarrativeStale] = useState(false);
+  // Параметры разовой перегенерации нарратива ('' — как в настройках)
+  const [regenPresetId, setRegenPresetId] = useState('');
+  const [regenTemperature, setRegenTemperature] = useState('');
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [globalErrors, setGlobalErrors] = useState<string[]>([]);
   const [apiKeyMissing, setApiKeyMissing] = useState(false);
@@ -329,16 +393,34 @@ const App: React.FC = () => {
   
   const updatePlayers = (p: PlayerData[]) => {
     setGameState(prev => {
-      const newState = { ...prev, players: p };
+      const newState = syncPlayerConditions(syncPlayerInventories({ ...prev, players: p }));
       setHasUnsavedChanges(true);
       scheduleAutoSave(newState);
       return newState;
     });
   };
   
+  const updateClock = (c: WorldClock) => {
+    setGameState(prev => {
+      const newState = { ...prev, clock: c };
+      setHasUnsavedChanges(true);
+      scheduleAutoSave(newState);
+      return newState;
+    });
+  };
+
+  const updateNpcs = (n: NpcData[]) => {
+    setGameState(prev => {
+      const newState = { ...prev, npcs: n };
+      setHasUnsavedChanges(true);
+      scheduleAutoSave(newState);
+      return newState;
+    });
+  };
+
   const updateObjects = (o: ObjectData[]) => {
     setGameState(prev => {
-      const newState = { ...prev, objects: o };
+      const newState = syncPlayerInventories({ ...prev, objects: o });
       setHasUnsavedChanges(true);
       scheduleAutoSave(newState);
       return newState;
@@ -346,28 +428,36 @@ const App: React.FC = () => {
   };
 
   // Автоматическое сохранение с задержкой
-  const scheduleAutoSave = (state: GameState) => {
+  // turnHistory передаётся явно, когда история меняется в том же обработчике (setHistory ещё не применён)
+  const scheduleAutoSave = (state: GameState, turnHistory: TurnHistory[] = history) => {
     if (saveTimeoutRef.current) {
       clearTimeout(saveTimeoutRef.current);
     }
     saveTimeoutRef.current = setTimeout(() => {
-      saveDataToServer(state);
+      saveDataToServer(state, turnHistory);
     }, 2000); // Сохраняем через 2 секунды после последнего изменения
   };
 
   // Сохранение данных на сервер (если API доступен) или в localStorage
-  const saveDataToServer = async (state: GameState) => {
+  const saveDataToServer = async (state: GameState, turnHistory: TurnHistory[]) => {
+    const issues = validateState(state);
+    if (issues.length > 0) {
+      console.warn('[App] ⚠️ Сохраняется состояние с проблемами целостности:', issues.map(i => `${i.path}: ${i.message}`));
+    }
+
     try {
       // Попытка сохранить через API
       const response = await fetch('/api/save-data', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(state)
+        body: JSON.stringify({ state, history: turnHistory })
       });
       
       if (response.ok) {
         const result = await response.json();
         setHasUnsavedChanges(false);
+        // Файлы актуальнее резервной копии — при следующем запуске она не должна их перекрыть
+        localStorage.removeItem(SESSION_BACKUP_KEY);
         console.log('[App] ✅ Данные сохранены в файлы папки data:', result);
         return;
       } else {
@@ -380,25 +470,26 @@ const App: React.FC = () => {
     
     // Резервное сохранение в localStorage
     try {
-      localStorage.setItem('rpg_game_state_backup', JSON.stringify(state));
+      localStorage.setItem(SESSION_BACKUP_KEY, JSON.stringify(createSaveEnvelope({ state, history: turnHistory })));
       console.log('[App] 💾 Данные сохранены в localStorage (резервная копия)');
     } catch (e) {
       console.error('[App] ❌ Ошибка сохранения в localStorage:', e);
     }
   };
 
-  // Загрузка данных из localStorage при старте (если есть)
+  // Загрузка резервной копии из localStorage при старте (если есть).
+  // Копия пишется только когда API недоступен и удаляется после успешного сохранения в файлы,
+  // поэтому если она есть — она новее данных из data/*.ts
   useEffect(() => {
     try {
-      const saved = localStorage.getItem('rpg_game_state_backup');
+      const saved = localStorage.getItem(SESSION_BACKUP_KEY);
       if (saved) {
-        const parsed = JSON.parse(saved);
-        // Проверяем, что данные валидны
-        if (parsed.world && parsed.locations && parsed.players && parsed.objects) {
-          console.log('[App] Найдены сохраненные данные в localStorage');
-          // Нормализуем состояние - гарантируем наличие attributes
-          const normalized = normalizeState(parsed as GameState);
-          // Не перезаписываем автоматически, только если пользователь хочет
+        const session = parseSessionBackup(saved);
+        if (session) {
+          console.log('[App] Восстановлены данные из localStorage (состояние и история ходов)');
+          setGameState(session.state);
+          setHistory(session.history);
+          setHasUnsavedChanges(true);
         }
       }
     } catch (e) {
@@ -423,8 +514,11 @@ const App: React.FC = () => {
 
   // Ручное сохранение в файлы
   const handleSaveToFiles = async () => {
+    if (stateErrorCount > 0 && !confirm(`В состоянии ${stateErrorCount} ошибок целостности (см. вкладку issues). Всё равно сохранить?`)) {
+      return;
+    }
     // Сохраняем только через API на сервер
-    await saveDataToServer(gameState);
+    await saveDataToServer(gameState, history);
   };
 
   const toggleTool = (toolName: string) => {
@@ -442,33 +536,125 @@ const App: React.FC = () => {
         return;
     }
 
-    if (apiKeyMissing) {
+    if (apiKeyMissing && !isOpenAICompatible) {
         setErrorMsg("КРИТИЧЕСКАЯ ОШИБКА: API Key отсутствует. Приложение не может работать без него.");
     }
     
     setIsProcessing(true);
     setErrorMsg(null);
     setLastResult(null);
+    setLastCassette(null);
+    setStreamingNarrative(null);
+    setIsEditingPlan(false);
+    setNarrativeStale(false);
+
+    const abortController = new AbortController();
+    turnAbortRef.current = abortController;
 
     // Filter enabled tools
-    const enabledTools = ALL_TOOLS.filter(t => toolEnabledState[t.definition.name]);
+    const enabledTools = allTools.filter(t => toolEnabledState[t.definition.name]);
 
     try {
       console.log("[App] Sending history to processGameTurn:", {
         historyLength: history.length,
         history: history.map(h => ({ turn: h.turn, userPrompt: h.userPrompt.substring(0, 50) + '...' }))
       });
-      const result = await processGameTurn(gameState, playerInput, enabledTools, aiSettings, history);
+      // Воспроизведение кассеты имеет приоритет над записью
+      const baseProvider = replayCassette ? null : createProviderFromSettings(aiSettings);
+      const recorder = recordCassette && baseProvider ? createRecordingProvider(baseProvider) : null;
+      const replay = replayCassette ? createReplayProvider(replayCassette.cassette) : null;
+      const provider = replay || recorder || baseProvider || undefined;
+
+      const result = await processGameTurn(gameState, playerInput, enabledTools, aiSettings, history, {
+        provider,
+        entityIdSource: (replay || recorder)?.entityIdSource,
+        onNarrativeChunk: setStreamingNarrative,
+        signal: abortController.signal,
+        mode: planMode ? 'plan' : 'full'
+      });
       console.log("[App] Result received:", result);
       setLastResult(result);
+      // Кассеты прикладывают к отчётам об ошибках — ключ API в них не пишется
+      const { providerApiKey, ...settingsWithoutKey } = aiSettings;
+      setLastCassette(recorder && !result.cancelled ? recorder.getCassette({
+        userPrompt: playerInput,
+        state: gameState,
+        settings: settingsWithoutKey,
+        history,
+        enabledTools: enabledTools.map(t => t.definition.name)
+      }) : null);
     } catch (err: any) {
       console.error("[App] Simulation Exception:", err);
       setErrorMsg(err.message || "Произошла неизвестная ошибка.");
     } finally {
+      turnAbortRef.current = null;
+      setIsProcessing(false);
+      setStreamingNarrative(null);
+    }
+  };
+
+  const handleCancelTurn = () => {
+    turnAbortRef.current?.abort();
+  };
+
+  // Нарратив для уже рассчитанного состояния (без повторной симуляции):
+  // утверждение плана, перегенерация после правки вызовов или с другим пресетом/температурой.
+  // overrides применяются только к этому вызову и не меняют сохранённые настройки.
+  const handleGenerateNarrative = async (overrides: Partial<AISettings> = {}) => {
+    if (!lastResult) return;
+
+    const narrativeSettings: AISettings = { ...aiSettings, ...overrides };
+
+    setIsProcessing(true);
+    setErrorMsg(null);
+    setStreamingNarrative(null);
+
+    const abortController = new AbortController();
+    turnAbortRef.current = abortController;
+
+    try {
+      const narrativeResult = await generateNarrative(
+        lastResult.newState,
+        gameState,
+        playerInput,
+        lastResult.toolLogs,
+        narrativeSettings,
+        history,
+        {
+          provider: createProviderFromSettings(narrativeSettings) || undefined,
+          onNarrativeChunk: setStreamingNarrative,
+          signal: abortController.signal
+        }
+      );
+      setLastResult(prev => prev && applyNarrativeResult(prev, narrativeResult, narrativeSettings));
+      setNarrativeStale(false);
+    } catch (err: any) {
+      // Отмена оставляет план без изменений
+      if (!abortController.signal.aborted) {
+        console.error("[App] Narrative generation failed:", err);
+        setErrorMsg(err.message || "Не удалось сгенерировать повествование.");
+      }
+    } finally {
+      turnAbortRef.current = null;
       setIsProcessing(false);
+      setStreamingNarrative(null);
     }
   };
 
+  const handleRegenerateNarrative = () => {
+    const overrides: Partial<AISettings> = {};
+    const preset = narrativePresets.find(p => p.id === regenPresetId);
+    if (preset) {
+      overrides.narrativePromptOverride = preset.prompt;
+      overrides.narrativePromptPresetId = preset.id;
+    }
+    const temperature = parseFloat(regenTemperature);
+    if (!isNaN(temperature)) {
+      overrides.narrativeTemperature = Math.min(2, Math.max(0, temperature));
+    }
+    handleGenerateNarrative(overrides);
+  };
+
   const handleCommitChanges = () => {
     if (lastResult) {
       // Сохраняем ход в историю перед обновлением состояния
@@ -477,26 +663,203 @@ const App: React.FC = () => {
         turn: turnNumber,
         userPrompt: playerInput,
         narrative: lastResult.narrative,
-        toolLogs: lastResult.toolLogs
+        toolLogs: lastResult.toolLogs,
+        tokenUsage: lastResult.tokenUsage,
+        costInfo: lastResult.costInfo,
+        dice: createTurnDiceRecord(gameState, lastResult.toolLogs)
       };
       
-      setHistory(prev => {
-        const newHistory = [...prev, turnEntry];
-        console.log("[App] History updated:", {
-          oldLength: prev.length,
-          newLength: newHistory.length,
-          lastTurn: turnEntry.turn
-        });
-        return newHistory;
+      const newHistory = [...history, turnEntry];
+      console.log("[App] History updated:", {
+        oldLength: history.length,
+        newLength: newHistory.length,
+        lastTurn: turnEntry.turn
       });
+      setTimeline(prev => commitToTimeline(
+        prev,
+        { state: gameState, history },
+        { state: lastResult.newState, history: newHistory }
+      ));
+      setHistory(newHistory);
       setGameState(lastResult.newState);
       setHasUnsavedChanges(true);
-      scheduleAutoSave(lastResult.newState);
+      scheduleAutoSave(lastResult.newState, newHistory);
       setLastResult(null);
       setPlayerInput('');
+      setIsEditingPlan(false);
+      setNarrativeStale(false);
+    }
+  };
+
+  // Восстановление закоммиченного снимка: состояние и история меняются вместе,
+  // неутверждённый результат хода рассчитан для другого состояния и сбрасывается
+  const restoreSnapshot = (snapshot: TimelineSnapshot | null) => {
+    if (!snapshot) return;
+    setGameState(snapshot.state);
+    setHistory(snapshot.history);
+    setHasUnsavedChanges(true);
+    scheduleAutoSave(snapshot.state, snapshot.history);
+    setLastResult(null);
+    setIsEditingPlan(false);
+    setNarrativeStale(false);
+  };
+
+  const navigateTimeline = (next: TurnTimeline) => {
+    setTimeline(next);
+    restoreSnapshot(getCurrentSnapshot(next));
+  };
+
+  const handleUndo = () => navigateTimeline(moveTimeline(timeline, -1));
+  const handleRedo = () => navigateTimeline(moveTimeline(timeline, 1));
+
+  const handleRewindToTurn = (turn: number) => {
+    try {
+      navigateTimeline(rewindToTurn(timeline, turn));
+    } catch (e: any) {
+      setErrorMsg(e.message);
+    }
+  };
+
+  // Список веток с актуальными данными активной ветки
+  const getSyncedBranches = () => syncBranch(branches, activeBranchId, { state: gameState, history, timeline });
+
+  const activateBranch = (allBranches: TimelineBranch[], branch: TimelineBranch) => {
+    setBranches(allBranches);
+    setActiveBranchId(branch.id);
+    setTimeline(branch.timeline);
+    restoreSnapshot({ state: branch.state, history: branch.history });
+  };
+
+  const handleSwitchBranch = (branchId: string) => {
+    if (branchId === activeBranchId) return;
+    const synced = getSyncedBranches();
+    const target = synced.find(b => b.id === branchId);
+    if (target) activateBranch(synced, target);
+  };
+
+  // Ответвление от хода turn активной ветки; без turn — от текущего состояния (с ручными правками)
+  const handleForkBranch = (turn?: number) => {
+    const synced = getSyncedBranches();
+    const source = synced.find(b => b.id === activeBranchId)!;
+    const name = prompt('Название новой ветки:', `${source.name} → ${turn === undefined ? 'текущее' : `ход ${turn}`}`);
+    if (!name?.trim()) return;
+
+    try {
+      const branch = turn === undefined
+        ? createBranch(name.trim(), { state: gameState, history }, timeline, { branchId: source.id, turn: history.length })
+        : forkBranch(source, turn, name.trim());
+      activateBranch([...synced, branch], branch);
+    } catch (e: any) {
+      setErrorMsg(e.message);
+    }
+  };
+
+  const handleRenameBranch = (branchId: string) => {
+    const branch = branches.find(b => b.id === branchId);
+    const name = branch && prompt('Новое название ветки:', branch.name);
+    if (!name?.trim()) return;
+    setBranches(prev => prev.map(b => (b.id === branchId ? { ...b, name: name.trim() } : b)));
+  };
+
+  const handleDeleteBranch = (branchId: string) => {
+    if (branchId === activeBranchId) return;
+    const branch = branches.find(b => b.id === branchId);
+    if (!branch || !confirm(`Удалить ветку "${branch.name}"?`)) return;
+    setBranches(prev => prev.filter(b => b.id !== branchId));
+    setCompareBranchIds(prev => (prev && prev.includes(branchId) ? null : prev));
+  };
+
+  // Пересчёт состояния по отредактированному плану: вызовы применяются заново от исходного состояния
+  const handleApplyPlanEdits = (calls: ToolCallLog[]) => {
+    if (!lastResult) return;
+
+    const enabledTools = allTools.filter(t => toolEnabledState[t.definition.name]);
+    const { newState, logs } = replayToolCalls(gameState, calls, enabledTools);
+
+    setLastResult({ ...lastResult, toolLogs: logs, newState });
+    setIsEditingPlan(false);
+    // У плана нарратива ещё нет — устаревать нечему
+    if (!lastResult.planOnly) {
+      setNarrativeStale(true);
+    }
+  };
+
+  // Загрузка кассеты из файла для воспроизведения
+  const handleLoadCassette = async (file: File) => {
+    try {
+      const cassette = parseCassette(await file.text());
+      setReplayCassette({ name: file.name, cassette });
+      setErrorMsg(null);
+    } catch (e: any) {
+      setErrorMsg(`Не удалось загрузить кассету: ${e.message}`);
+    }
+  };
+
+  // Восстанавливает входные данные записанного хода (состояние, запрос, историю, настройки)
+  const handleRestoreCassetteTurn = () => {
+    const turn = replayCassette?.cassette.turn;
+    if (!turn) return;
+    setGameState(normalizeState(turn.state));
+    setPlayerInput(turn.userPrompt);
+    setHistory(turn.history);
+    setTimeline(createTimeline());
+    setAiSettings(prev => ({ ...turn.settings, providerApiKey: prev.providerApiKey }));
+    setToolEnabledState(prev => {
+      const next: Record<string, boolean> = {};
+      Object.keys(prev).forEach(name => { next[name] = turn.enabledTools.includes(name); });
+      return next;
+    });
+    setLastResult(null);
+  };
+
+  const applyRepairedState = (repaired: GameState) => {
+    setGameState(repaired);
+    setHasUnsavedChanges(true);
+    scheduleAutoSave(repaired);
+  };
+
+  const handleRepairIssue = (issue: StateIssue) => applyRepairedState(repairIssue(gameState, issue));
+
+  const handleRepairAllIssues = () => {
+    const { state: repaired, remaining } = repairAllIssues(gameState);
+    applyRepairedState(repaired);
+    if (remaining.length > 0) {
+      console.warn('[App] Остались проблемы без автоисправления:', remaining.map(i => i.message));
     }
   };
 
+  // Текущая сессия для слота сохранения. Ключ API в файл не пишется
+  const getSavedSession = (): SavedSession => {
+    const { providerApiKey, ...settingsWithoutKey } = aiSettings;
+    return {
+      state: gameState,
+      history,
+      aiSettings: settingsWithoutKey,
+      enabledTools: allTools.filter(t => toolEnabledState[t.definition.name]).map(t => t.definition.name)
+    };
+  };
+
+  // Загрузка слота заменяет данные активной ветки; лента undo/redo начинается заново
+  const handleLoadSave = (slot: SaveSlot) => {
+    const { session } = slot;
+    // Слот уже поднят до текущей версии формата сервером (migrateSave)
+    restoreSnapshot({ state: session.state, history: session.history });
+    setTimeline(createTimeline());
+    if (session.aiSettings) {
+      setAiSettings(prev => ({ ...DEFAULT_AI_SETTINGS, ...session.aiSettings, providerApiKey: prev.providerApiKey }));
+    }
+    const { enabledTools } = session;
+    if (enabledTools) {
+      setToolEnabledState(prev => {
+        const next: Record<string, boolean> = {};
+        Object.keys(prev).forEach(name => { next[name] = enabledTools.includes(name); });
+        return next;
+      });
+    }
+    setPlayerInput('');
+    console.log(`[App] Loaded save "${slot.name}" (${slot.id})`);
+  };
+
   return (
     <div className="h-screen bg-gray-950 text-gray-200 font-sans selection:bg-purple-500 selection:text-white flex flex-col overflow-hidden" data-no-translate>
       
@@ -512,12 +875,40 @@ const App: React.FC = () => {
             </div>
         </div>
         <div className="flex items-center gap-4">
+            <button
+                type="button"
+                onClick={() => setIsSaveDialogOpen(true)}
+                disabled={isProcessing}
+                className="px-3 py-1 text-xs font-bold text-gray-300 bg-gray-800 hover:bg-gray-700 disabled:opacity-30 rounded border border-gray-700 transition-colors"
+            >
+                💾 Сохранения
+            </button>
+            <div className="flex items-center gap-1">
+                <button
+                    type="button"
+                    onClick={handleUndo}
+                    disabled={!canUndo(timeline) || isProcessing}
+                    className="px-2 py-1 text-xs font-bold text-gray-300 bg-gray-800 hover:bg-gray-700 disabled:opacity-30 rounded border border-gray-700 transition-colors"
+                    title="Отменить последний ход (состояние и история)"
+                >
+                    ↶ Undo
+                </button>
+                <button
+                    type="button"
+                    onClick={handleRedo}
+                    disabled={!canRedo(timeline) || isProcessing}
+                    className="px-2 py-1 text-xs font-bold text-gray-300 bg-gray-800 hover:bg-gray-700 disabled:opacity-30 rounded border border-gray-700 transition-colors"
+                    title="Вернуть отменённый ход"
+                >
+                    Redo ↷
+                </button>
+            </div>
             {hasUnsavedChanges && (
                 <div className="text-xs font-bold text-yellow-500 bg-yellow-900/20 px-3 py-1 rounded border border-yellow-900">
                     НЕСОХРАНЕНО
                 </div>
             )}
-            {apiKeyMissing && (
+            {apiKeyMissing && !isOpenAICompatible && (
                 <div className="text-xs font-bold text-red-500 bg-red-900/20 px-3 py-1 rounded border border-red-900 animate-pulse">
                     MISSING API KEY
                 </div>
@@ -530,7 +921,7 @@ const App: React.FC = () => {
         {/* Left Column: Data Editor */}
         <section style={{ width: `${leftColumnWidth}%` }} className="shrink-0 flex flex-col bg-gray-900/50 min-h-0">
           <div className="flex border-b border-gray-800">
-            {['world', 'locations', 'players', 'objects', 'history'].map((tab) => (
+            {['world', 'locations', 'players', 'npcs', 'objects', 'history', 'issues'].map((tab) => (
               <button
                 key={tab}
                 type="button"
@@ -541,12 +932,21 @@ const App: React.FC = () => {
                     : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800/30'
                 }`}
               >
-                {tab === 'history' ? `history (${history.length})` : tab}
+                {tab === 'history' ? `history (${history.length})` : tab === 'issues' ? (
+                  <span className={stateErrorCount > 0 ? 'text-red-400' : stateIssues.length > 0 ? 'text-yellow-400' : undefined}>
+                    issues ({stateIssues.length})
+                  </span>
+                ) : tab}
               </button>
             ))}
           </div>
           <div className="flex-1 overflow-y-auto min-h-0">
-            {activeTab === 'world' && <WorldEditor data={gameState.world} onChange={updateWorld} onSave={handleSaveToFiles} />}
+            {activeTab === 'world' && (
+              <>
+                <WorldEditor data={gameState.world} onChange={updateWorld} onSave={handleSaveToFiles} />
+                <ClockEditor clock={gameState.clock} onChange={updateClock} onSave={handleSaveToFiles} />
+              </>
+            )}
             {activeTab === 'locations' && <LocationsEditor data={gameState.locations} onChange={updateLocations} onSave={handleSaveToFiles} />}
             {activeTab === 'players' && (
               <PlayersEditor 
@@ -554,6 +954,15 @@ const App: React.FC = () => {
                 onChange={updatePlayers} 
                 onSave={handleSaveToFiles}
                 availableLocations={gameState.locations.map(l => ({ id: l.id, name: l.name }))}
+                statDefinitions={gameState.world.statDefinitions}
+              />
+            )}
+            {activeTab === 'npcs' && (
+              <NpcsEditor
+                data={gameState.npcs}
+                onChange={updateNpcs}
+                onSave={handleSaveToFiles}
+                availableLocations={gameState.locations.map(l => ({ id: l.id, name: l.name }))}
               />
             )}
             {activeTab === 'objects' && (
@@ -563,6 +972,7 @@ const App: React.FC = () => {
                 onSave={handleSaveToFiles}
                 connectionTargets={[
                   ...gameState.players.map(p => ({ id: p.id, name: p.name, type: 'player' as const })),
+                  ...gameState.npcs.map(n => ({ id: n.id, name: n.name, type: 'npc' as const })),
                   ...gameState.locations.map(l => ({ id: l.id, name: l.name, type: 'location' as const })),
                   ...gameState.objects.map(o => ({ id: o.id, name: o.name, type: 'object' as const }))
                 ]}
@@ -570,8 +980,93 @@ const App: React.FC = () => {
                 players={gameState.players}
               />
             )}
+            {activeTab === 'issues' && (
+              <IssuesPanel issues={stateIssues} onRepair={handleRepairIssue} onRepairAll={handleRepairAllIssues} />
+            )}
             {activeTab === 'history' && (
               <div className="p-6 space-y-4">
+                {/* Ветки мира */}
+                {(() => {
+                  const syncedBranches = getSyncedBranches();
+                  const compareA = compareBranchIds && syncedBranches.find(b => b.id === compareBranchIds[0]);
+                  const compareB = compareBranchIds && syncedBranches.find(b => b.id === compareBranchIds[1]);
+                  return (
+                  <div className="bg-gray-800/30 rounded-lg p-3 border border-gray-700 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Ветки ({syncedBranches.length})</span>
+                      <div className="flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => handleForkBranch()}
+                          disabled={isProcessing}
+                          className="px-2 py-1 text-[10px] bg-purple-700 hover:bg-purple-600 disabled:opacity-40 text-white rounded transition-colors"
+                          title="Создать ветку от текущего состояния"
+                        >
+                          ⑂ Ответвить
+                        </button>
+                        {syncedBranches.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => setCompareBranchIds(prev => prev ? null : [activeBranchId, syncedBranches.find(b => b.id !== activeBranchId)!.id])}
+                            className="px-2 py-1 text-[10px] bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors"
+                          >
+                            {compareBranchIds ? 'Скрыть сравнение' : 'Сравнить'}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    {syncedBranches.map(branch => {
+                      const isActive = branch.id === activeBranchId;
+                      const parent = branch.parent && syncedBranches.find(b => b.id === branch.parent!.branchId);
+                      return (
+                        <div key={branch.id} className={`flex items-center gap-2 text-xs rounded px-2 py-1.5 ${isActive ? 'bg-purple-900/30 border border-purple-800' : 'bg-gray-900/50 border border-gray-800'}`}>
+                          <button
+                            type="button"
+                            onClick={() => handleSwitchBranch(branch.id)}
+                            disabled={isActive || isProcessing}
+                            className={`flex-1 text-left truncate ${isActive ? 'text-purple-300 font-bold' : 'text-gray-300 hover:text-white'}`}
+                            title={isActive ? 'Активная ветка' : 'Переключиться на ветку'}
+                          >
+                            {isActive ? '● ' : '○ '}{branch.name}
+                          </button>
+                          <span className="text-gray-500 text-[10px] whitespace-nowrap">
+                            {branch.history.length} ход{branch.history.length === 1 ? '' : 'ов'}
+                            {branch.parent && ` · от "${parent?.name ?? 'удалённой'}", ход ${branch.parent.turn}`}
+                          </span>
+                          <button type="button" onClick={() => handleRenameBranch(branch.id)} className="text-gray-500 hover:text-white" title="Переименовать">✎</button>
+                          {!isActive && (
+                            <button type="button" onClick={() => handleDeleteBranch(branch.id)} className="text-red-500 hover:text-red-300" title="Удалить ветку">✕</button>
+                          )}
+                        </div>
+                      );
+                    })}
+                    {compareBranchIds && compareA && compareB && (
+                      <div className="pt-2 border-t border-gray-700 space-y-2">
+                        <div className="flex items-center gap-2 text-xs">
+                          {[0, 1].map(side => (
+                            <React.Fragment key={side}>
+                              {side === 1 && <span className="text-gray-500">→</span>}
+                              <select
+                                value={compareBranchIds[side]}
+                                onChange={(e) => setCompareBranchIds(prev => {
+                                  const next: [string, string] = [prev![0], prev![1]];
+                                  next[side] = e.target.value;
+                                  return next;
+                                })}
+                                className="flex-1 bg-gray-900 border border-gray-700 rounded px-1.5 py-1 text-gray-300 focus:outline-none focus:border-purple-600"
+                              >
+                                {syncedBranches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                              </select>
+                            </React.Fragment>
+                          ))}
+                        </div>
+                        <DiffView oldState={compareA.state} newState={compareB.state} />
+                      </div>
+                    )}
+                  </div>
+                  );
+                })()}
+
                 <div className="flex items-center justify-between mb-4">
                   <h2 className="text-xl font-bold text-white">История ходов</h2>
                   <div className="flex items-center gap-2">
@@ -581,6 +1076,9 @@ const App: React.FC = () => {
                         onClick={() => {
                           if (confirm('Очистить всю историю?')) {
                             setHistory([]);
+                            setTimeline(createTimeline());
+                            setHasUnsavedChanges(true);
+                            scheduleAutoSave(gameState, []);
                           }
                         }}
                         className="px-3 py-1 text-xs bg-red-700 hover:bg-red-600 text-white rounded transition-colors"
@@ -590,20 +1088,57 @@ const App: React.FC = () => {
                     )}
                   </div>
                 </div>
-                {history.length === 0 ? (
+                {history.length === 0 && !canRedo(timeline) ? (
                   <div className="text-center py-12 text-gray-500">
                     <p className="text-lg mb-2">История пуста</p>
                     <p className="text-sm">История будет заполняться после каждого коммита изменений</p>
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {history.map((turn, idx) => (
-                      <div key={idx} className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+                    {/* Отменённые ходы (доступны для redo) показываются после текущих */}
+                    {[...history, ...getTimelineTurns(timeline).slice(history.length)].map((turn, idx) => {
+                      const isUndone = idx >= history.length;
+                      const isCurrent = idx === history.length - 1;
+                      return (
+                      <div key={idx} className={`bg-gray-800/50 rounded-lg p-4 border ${isUndone ? 'border-dashed border-gray-700 opacity-50' : 'border-gray-700'}`}>
                         <div className="flex items-center justify-between mb-3">
-                          <h3 className="text-lg font-bold text-purple-400">Ход {turn.turn}</h3>
-                          <span className="text-xs text-gray-500">
-                            {turn.toolLogs.length} инструмент{turn.toolLogs.length !== 1 ? 'ов' : ''}
-                          </span>
+                          <h3 className="text-lg font-bold text-purple-400">
+                            Ход {turn.turn}
+                            {isUndone && <span className="ml-2 text-xs font-normal text-gray-500">(отменён)</span>}
+                          </h3>
+                          <div className="flex items-center gap-3">
+                            <span className="text-xs text-gray-500">
+                              {turn.toolLogs.length} инструмент{turn.toolLogs.length !== 1 ? 'ов' : ''}
+                            </span>
+                            {turn.tokenUsage && (
+                              <span className="text-xs text-gray-500" title={turn.costInfo?.model}>
+                                {turn.tokenUsage.total.totalTokens.toLocaleString()} ток.
+                                {turn.costInfo && ` · $${turn.costInfo.totalCost.toFixed(6)}`}
+                              </span>
+                            )}
+                            {timeline.snapshots.length > 0 && (
+                              <button
+                                type="button"
+                                onClick={() => handleForkBranch(turn.turn)}
+                                disabled={isProcessing}
+                                className="px-2 py-0.5 text-[10px] bg-gray-700 hover:bg-purple-700 disabled:opacity-40 text-white rounded transition-colors"
+                                title="Создать ветку от состояния после этого хода"
+                              >
+                                ⑂
+                              </button>
+                            )}
+                            {!isCurrent && timeline.snapshots.length > 0 && (
+                              <button
+                                type="button"
+                                onClick={() => handleRewindToTurn(turn.turn)}
+                                disabled={isProcessing}
+                                className="px-2 py-0.5 text-[10px] bg-gray-700 hover:bg-purple-700 disabled:opacity-40 text-white rounded transition-colors"
+                                title={isUndone ? 'Вернуть ходы до этого включительно' : 'Откатить состояние и историю к моменту после этого хода'}
+                              >
+                                {isUndone ? '↷ Вернуть до этого хода' : '↶ Откатить к этому ходу'}
+                              </button>
+                            )}
+                          </div>
                         </div>
                         
                         <div className="mb-3">
@@ -620,11 +1155,19 @@ const App: React.FC = () => {
                               {turn.toolLogs.map((log, logIdx) => (
                                 <div key={logIdx} className="text-xs text-cyan-300 bg-gray-900/50 p-2 rounded font-mono">
                                   <span className="text-cyan-500">{log.name}</span>
+                                  {log.npcId && <span className="text-amber-400"> (NPC {log.npcId})</span>}
+                                  {log.rolledBack && <span className="text-orange-400"> (откачено)</span>}
                                   {' → '}
                                   <span className="text-gray-300">{log.result}</span>
                                 </div>
                               ))}
                             </div>
+                            {turn.dice && turn.dice.rolls.length > 0 && (
+                              <div className="mt-1 text-[10px] text-gray-500 font-mono">
+                                🎲 seed {turn.dice.seed}, с позиции {turn.dice.startCursor}:{' '}
+                                {turn.dice.rolls.map(r => `${r.expression}=${r.total}${r.tier ? ` ${ROLL_TIER_LABELS[r.tier]}` : ''}`).join('; ')}
+                              </div>
+                            )}
                           </div>
                         )}
 
@@ -635,7 +1178,8 @@ const App: React.FC = () => {
                           </div>
                         </div>
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </div>
@@ -664,7 +1208,7 @@ const App: React.FC = () => {
                     : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800/30'
                 }`}
               >
-                🔧 Tools ({ALL_TOOLS.filter(t => toolEnabledState[t.definition.name]).length}/{ALL_TOOLS.length})
+                🔧 Tools ({allTools.filter(t => toolEnabledState[t.definition.name]).length}/{allTools.length})
               </button>
               <button
                 type="button"
@@ -682,13 +1226,23 @@ const App: React.FC = () => {
             {/* Tools Tab */}
             {middleTab === 'tools' && (
               <div style={{ height: topPanelHeight }} className="shrink-0 p-4 overflow-y-auto bg-gray-900/30">
+                {toolRegistryErrors.length > 0 && (
+                  <div className="mb-2 text-[10px] text-red-300 bg-red-950/40 border border-red-900 rounded p-2 space-y-1">
+                    {toolRegistryErrors.map(error => <div key={error} className="font-mono break-all">⚠ {error}</div>)}
+                  </div>
+                )}
                 <div className="grid grid-cols-1 gap-2">
-                    {ALL_TOOLS.map(tool => {
+                    {allTools.map(tool => {
                         const isEnabled = toolEnabledState[tool.definition.name];
                         return (
                             <div key={tool.definition.name} className={`bg-black/40 border p-2 rounded flex flex-col gap-1 transition-all ${isEnabled ? 'border-purple-900/50' : 'border-gray-800/30 opacity-60'}`}>
                                 <div className="flex justify-between items-center">
-                                    <span className={`font-mono text-xs ${isEnabled ? 'text-blue-400' : 'text-gray-500'}`}>{tool.definition.name}</span>
+                                    <span className={`font-mono text-xs ${isEnabled ? 'text-blue-400' : 'text-gray-500'}`}>
+                                      {tool.definition.name}
+                                      {tool.sourceFile && (
+                                        <span className="ml-2 text-[9px] px-1 py-0.5 rounded bg-cyan-950 text-cyan-400 uppercase tracking-wider" title={tool.sourceFile}>JSON</span>
+                                      )}
+                                    </span>
                                     <button 
                                         type="button"
                                         onClick={() => toggleTool(tool.definition.name)}
@@ -709,18 +1263,59 @@ const App: React.FC = () => {
             {middleTab === 'settings' && (
               <div style={{ height: topPanelHeight }} className="shrink-0 p-4 overflow-y-auto bg-gray-900/30">
                 <div className="space-y-4">
-                  {/* Model Selection */}
+                  {/* Provider Selection */}
                   <div>
-                    <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider block mb-1">Модель AI</label>
+                    <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider block mb-1">Провайдер LLM</label>
                     <select
-                      value={aiSettings.modelId}
-                      onChange={(e) => setAiSettings(prev => ({ ...prev, modelId: e.target.value }))}
+                      value={aiSettings.providerId || 'gemini'}
+                      onChange={(e) => setAiSettings(prev => ({ ...prev, providerId: e.target.value as AISettings['providerId'] }))}
                       className="w-full bg-black/40 border border-gray-700 rounded px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-cyan-500"
                     >
-                      {AVAILABLE_MODELS.map(model => (
-                        <option key={model.id} value={model.id}>{model.name}</option>
-                      ))}
+                      <option value="gemini">Google Gemini</option>
+                      <option value="openai-compatible">OpenAI-совместимый (Ollama, llama.cpp)</option>
                     </select>
+                    {isOpenAICompatible && (
+                      <div className="mt-2 space-y-2">
+                        <input
+                          type="text"
+                          value={aiSettings.providerBaseUrl || ''}
+                          onChange={(e) => setAiSettings(prev => ({ ...prev, providerBaseUrl: e.target.value || undefined }))}
+                          placeholder={DEFAULT_OPENAI_COMPATIBLE_BASE_URL}
+                          className="w-full bg-black/40 border border-gray-700 rounded px-3 py-2 text-xs text-gray-200 font-mono focus:outline-none focus:border-cyan-500"
+                        />
+                        <input
+                          type="password"
+                          value={aiSettings.providerApiKey || ''}
+                          onChange={(e) => setAiSettings(prev => ({ ...prev, providerApiKey: e.target.value || undefined }))}
+                          placeholder="API key (необязательно)"
+                          className="w-full bg-black/40 border border-gray-700 rounded px-3 py-2 text-xs text-gray-200 font-mono focus:outline-none focus:border-cyan-500"
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Model Selection */}
+                  <div>
+                    <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider block mb-1">Модель AI</label>
+                    {isOpenAICompatible ? (
+                      <input
+                        type="text"
+                        value={aiSettings.modelId}
+                        onChange={(e) => setAiSettings(prev => ({ ...prev, modelId: e.target.value }))}
+                        placeholder="напр. qwen2.5:7b"
+                        className="w-full bg-black/40 border border-gray-700 rounded px-3 py-2 text-sm text-gray-200 font-mono focus:outline-none focus:border-cyan-500"
+                      />
+                    ) : (
+                      <select
+                        value={aiSettings.modelId}
+                        onChange={(e) => setAiSettings(prev => ({ ...prev, modelId: e.target.value }))}
+                        className="w-full bg-black/40 border border-gray-700 rounded px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-cyan-500"
+                      >
+                        {AVAILABLE_MODELS.map(model => (
+                          <option key={model.id} value={model.id}>{model.name}</option>
+                        ))}
+                      </select>
+                    )}
                   </div>
 
                   {/* Max Iterations */}
@@ -846,6 +1441,132 @@ const App: React.FC = () => {
                     </div>
                   </div>
 
+                  {/* Transactional tool batches toggle */}
+                  <div className="bg-black/30 border border-gray-800/50 rounded p-3">
+                    <div className="flex items-center justify-between gap-3">
+                      <div>
+                        <div className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                          Транзакционные шаги
+                        </div>
+                        <div className="text-[10px] text-gray-500 mt-1 leading-snug">
+                          Если включено — вызовы инструментов из одного ответа модели применяются атомарно: ошибка любого вызова откатывает весь шаг, а модель получает сводку ошибок для повтора.
+                        </div>
+                      </div>
+                      <label className="flex items-center gap-2 select-none">
+                        <span className="text-[10px] text-gray-500 uppercase tracking-wider">
+                          {aiSettings.transactionalToolBatches ? 'ON' : 'OFF'}
+                        </span>
+                        <input
+                          type="checkbox"
+                          checked={!!aiSettings.transactionalToolBatches}
+                          onChange={(e) =>
+                            setAiSettings(prev => ({
+                              ...prev,
+                              transactionalToolBatches: e.target.checked
+                            }))
+                          }
+                          className="w-4 h-4 accent-cyan-500"
+                        />
+                      </label>
+                    </div>
+                  </div>
+
+                  {/* NPC world tick toggle */}
+                  <div className="bg-black/30 border border-gray-800/50 rounded p-3">
+                    <div className="flex items-center justify-between gap-3">
+                      <div>
+                        <div className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                          Ход мира (NPC)
+                        </div>
+                        <div className="text-[10px] text-gray-500 mt-1 leading-snug">
+                          Если включено — после действий игроков каждый NPC в их локациях и соседних делает свой ход: отдельный запрос к модели с его целями и инструментами move_npc, move_object, set_attribute. Каждый NPC — дополнительный запрос.
+                        </div>
+                      </div>
+                      <label className="flex items-center gap-2 select-none">
+                        <span className="text-[10px] text-gray-500 uppercase tracking-wider">
+                          {aiSettings.npcWorldTick ? 'ON' : 'OFF'}
+                        </span>
+                        <input
+                          type="checkbox"
+                          checked={!!aiSettings.npcWorldTick}
+                          onChange={(e) =>
+                            setAiSettings(prev => ({
+                              ...prev,
+                              npcWorldTick: e.target.checked
+                            }))
+                          }
+                          className="w-4 h-4 accent-cyan-500"
+                        />
+                      </label>
+                    </div>
+                  </div>
+
+                  {/* Record / Replay */}
+                  <div className="bg-black/30 border border-gray-800/50 rounded p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-3">
+                      <div>
+                        <div className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                          Запись кассеты
+                        </div>
+                        <div className="text-[10px] text-gray-500 mt-1 leading-snug">
+                          Сохраняет все запросы/ответы LLM за ход в JSON-файл для воспроизведения без сети.
+                        </div>
+                      </div>
+                      <label className="flex items-center gap-2 select-none">
+                        <span className="text-[10px] text-gray-500 uppercase tracking-wider">
+                          {recordCassette ? 'ON' : 'OFF'}
+                        </span>
+                        <input
+                          type="checkbox"
+                          checked={recordCassette}
+                          onChange={(e) => setRecordCassette(e.target.checked)}
+                          className="w-4 h-4 accent-cyan-500"
+                        />
+                      </label>
+                    </div>
+                    <div className="border-t border-gray-800/50 pt-2">
+                      <div className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">
+                        Воспроизведение кассеты
+                      </div>
+                      {replayCassette ? (
+                        <div className="flex items-center justify-between gap-2 text-[10px]">
+                          <span className="text-yellow-400 font-mono truncate">
+                            ▶ {replayCassette.name} ({replayCassette.cassette.interactions.length} запросов)
+                          </span>
+                          <div className="flex gap-1 shrink-0">
+                            {replayCassette.cassette.turn && (
+                              <button
+                                type="button"
+                                onClick={handleRestoreCassetteTurn}
+                                className="px-2 py-0.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded"
+                              >
+                                Восстановить ход
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => setReplayCassette(null)}
+                              className="px-2 py-0.5 bg-red-900/60 hover:bg-red-800 text-red-200 rounded"
+                            >
+                              Выключить
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <input
+                          type="file"
+                          accept=".json,application/json"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleLoadCassette(file);
+                            e.target.value = '';
+                          }}
+                          className="w-full text-[10px] text-gray-400 file:mr-2 file:px-2 file:py-0.5 file:rounded file:border-0 file:bg-gray-800 file:text-gray-300"
+                        />
+                      )}
+                    </div>
+                  </div>
+
                   {/* System Prompt Override with Presets */}
                   <div>
                     <div className="flex justify-between items-center mb-1">
@@ -1130,19 +1851,32 @@ const App: React.FC = () => {
                           {aiSettings.narrativeModelId || aiSettings.modelId}
                         </span>
                       </label>
-                      <select
-                        value={aiSettings.narrativeModelId || ''}
-                        onChange={(e) => setAiSettings(prev => ({ 
-                          ...prev, 
-                          narrativeModelId: e.target.value || undefined 
-                        }))}
-                        className="w-full bg-black/40 border border-gray-700 rounded px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-cyan-500"
-                      >
-                        <option value="">Использовать модель симуляции</option>
-                        {AVAILABLE_MODELS.map(model => (
-                          <option key={model.id} value={model.id}>{model.name}</option>
-                        ))}
-                      </select>
+                      {isOpenAICompatible ? (
+                        <input
+                          type="text"
+                          value={aiSettings.narrativeModelId || ''}
+                          onChange={(e) => setAiSettings(prev => ({ 
+                            ...prev, 
+                            narrativeModelId: e.target.value || undefined 
+                          }))}
+                          placeholder="Использовать модель симуляции"
+                          className="w-full bg-black/40 border border-gray-700 rounded px-3 py-2 text-sm text-gray-200 font-mono focus:outline-none focus:border-cyan-500"
+                        />
+                      ) : (
+                        <select
+                          value={aiSettings.narrativeModelId || ''}
+                          onChange={(e) => setAiSettings(prev => ({ 
+                            ...prev, 
+                            narrativeModelId: e.target.value || undefined 
+                          }))}
+                          className="w-full bg-black/40 border border-gray-700 rounded px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-cyan-500"
+                        >
+                          <option value="">Использовать модель симуляции</option>
+                          {AVAILABLE_MODELS.map(model => (
+                            <option key={model.id} value={model.id}>{model.name}</option>
+                          ))}
+                        </select>
+                      )}
                     </div>
 
                     {/* Narrative Temperature */}
@@ -1500,6 +2234,19 @@ const App: React.FC = () => {
                 )}
 
                 <div className="flex justify-end items-center gap-4">
+                    <label
+                        className="flex items-center gap-2 text-[10px] text-gray-400 uppercase tracking-wider select-none cursor-pointer"
+                        title="Модель только планирует вызовы инструментов: результат и изменения показываются до генерации повествования"
+                    >
+                        <input
+                            type="checkbox"
+                            checked={planMode}
+                            onChange={(e) => setPlanMode(e.target.checked)}
+                            disabled={isProcessing}
+                            className="w-4 h-4 accent-purple-500"
+                        />
+                        Только план
+                    </label>
                     <button
                         type="button"
                         onClick={handleRunSimulation}
@@ -1511,6 +2258,16 @@ const App: React.FC = () => {
                     >
                         {isProcessing ? 'ОБРАБОТКА...' : 'ВЫПОЛНИТЬ ХОД'}
                     </button>
+                    {isProcessing && (
+                        <button
+                            type="button"
+                            onClick={handleCancelTurn}
+                            className="px-4 py-3 rounded-lg font-bold text-sm tracking-wide bg-red-900/60 hover:bg-red-800 text-red-200 border border-red-700 transition-colors"
+                            title="Прервать запрос к модели. Состояние игры не изменится"
+                        >
+                            ОТМЕНА
+                        </button>
+                    )}
                 </div>
             </div>
 
@@ -1549,11 +2306,37 @@ const App: React.FC = () => {
                      </div>
                 )}
 
+                {isProcessing && (
+                    <div className="bg-black/30 rounded-lg p-4 border border-gray-700 shadow-lg relative">
+                        <div className="absolute top-0 left-0 w-1 h-full bg-purple-500/50 rounded-l"></div>
+                        <h4 className="text-[10px] font-bold text-purple-400 uppercase mb-2 tracking-wider">
+                            {streamingNarrative === null && !lastResult?.planOnly ? 'Симуляция...' : 'Повествование'}
+                        </h4>
+                        {streamingNarrative === null ? (
+                            <p className="text-xs text-gray-500 animate-pulse">
+                                {lastResult?.planOnly ? 'Ожидание ответа модели...' : 'Модель применяет инструменты, повествование появится следом'}
+                            </p>
+                        ) : (
+                            <div className="text-gray-300 text-sm leading-relaxed whitespace-pre-wrap font-serif">
+                                <NarrativeText text={streamingNarrative} streaming />
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {lastResult && (
                     <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
                         <div className="bg-black/30 rounded-lg p-4 border border-gray-700 shadow-lg mb-6 relative">
                              <div className="absolute top-0 left-0 w-1 h-full bg-purple-500 rounded-l"></div>
-                             <h4 className="text-[10px] font-bold text-purple-400 uppercase mb-2 tracking-wider">Повествование</h4>
+                             <h4 className="text-[10px] font-bold text-purple-400 uppercase mb-2 tracking-wider">
+                                 {lastResult.planOnly ? 'План хода' : 'Повествование'}
+                             </h4>
+                             {lastResult.planOnly ? (
+                                <p className="text-xs text-gray-400 leading-relaxed">
+                                    Вызовы инструментов применены к копии состояния — см. лог и изменения ниже.
+                                    Повествование будет сгенерировано после утверждения плана.
+                                </p>
+                             ) : (
                              <div className="text-gray-300 text-sm leading-relaxed whitespace-pre-wrap font-serif">
                                 <NarrativeText 
                                   text={lastResult.narrative}
@@ -1563,7 +2346,61 @@ const App: React.FC = () => {
                                   }}
                                 />
                              </div>
+                             )}
+
+                             {narrativeStale && !lastResult.planOnly && (
+                                <div className="mt-3 flex items-center gap-3 text-[10px] text-orange-300 bg-orange-950/30 border border-orange-900/50 rounded p-2">
+                                    <span className="flex-1">План изменён — повествование описывает прежний результат.</span>
+                                    <button
+                                        type="button"
+                                        onClick={() => handleGenerateNarrative()}
+                                        disabled={isProcessing}
+                                        className="px-2 py-1 bg-orange-800/60 hover:bg-orange-700 disabled:opacity-40 text-white rounded uppercase tracking-wider font-bold"
+                                    >
+                                        Перегенерировать
+                                    </button>
+                                </div>
+                             )}
                              
+                             {!lastResult.planOnly && !lastResult.cancelled && (
+                                <div className="mt-3 flex flex-wrap items-center gap-2 text-[10px] text-gray-400">
+                                    <span className="uppercase tracking-wider text-gray-500">Перегенерировать повествование:</span>
+                                    <select
+                                        value={regenPresetId}
+                                        onChange={(e) => setRegenPresetId(e.target.value)}
+                                        disabled={isProcessing}
+                                        className="bg-gray-900 border border-gray-700 rounded px-1.5 py-1 text-gray-300 focus:outline-none focus:border-purple-600"
+                                        title="Пресет нарративного промпта"
+                                    >
+                                        <option value="">Промпт из настроек</option>
+                                        {narrativePresets.map(preset => (
+                                            <option key={preset.id} value={preset.id}>{preset.name}</option>
+                                        ))}
+                                    </select>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={2}
+                                        step={0.1}
+                                        value={regenTemperature}
+                                        onChange={(e) => setRegenTemperature(e.target.value)}
+                                        disabled={isProcessing}
+                                        placeholder={String(aiSettings.narrativeTemperature ?? aiSettings.temperature)}
+                                        className="w-16 bg-gray-900 border border-gray-700 rounded px-1.5 py-1 text-gray-300 focus:outline-none focus:border-purple-600"
+                                        title="Температура нарратива (пусто — из настроек)"
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={handleRegenerateNarrative}
+                                        disabled={isProcessing}
+                                        className="px-2 py-1 bg-purple-800/60 hover:bg-purple-700 disabled:opacity-40 text-white rounded uppercase tracking-wider font-bold"
+                                        title="Повторить только фазу повествования — состояние и вызовы инструментов не меняются"
+                                    >
+                                        ↻ Перегенерировать
+                                    </button>
+                                </div>
+                             )}
+
                              {/* Информация о токенах и стоимости */}
                              {lastResult.costInfo && lastResult.tokenUsage && (
                                  <div className="mt-4 pt-4 border-t border-gray-700">
@@ -2611,14 +3448,33 @@ const App: React.FC = () => {
                         })()}
 
                         <div className="mb-6">
-                            <h4 className="text-[10px] font-bold text-gray-500 uppercase mb-2 tracking-wider">
+                            <h4 className="text-[10px] font-bold text-gray-500 uppercase mb-2 tracking-wider flex items-center">
                                 Лог инструментов
                                 {lastResult.toolLogs.length > 0 && (
                                     <span className="ml-2 text-gray-600 font-normal">
                                         ({lastResult.toolLogs.length} вызов{lastResult.toolLogs.length === 1 ? '' : lastResult.toolLogs.length < 5 ? 'а' : 'ов'}, {Math.max(...lastResult.toolLogs.map(l => l.iteration ?? 0)) + 1} шаг{Math.max(...lastResult.toolLogs.map(l => l.iteration ?? 0)) === 0 ? '' : Math.max(...lastResult.toolLogs.map(l => l.iteration ?? 0)) < 4 ? 'а' : 'ов'})
                                     </span>
                                 )}
+                                {!isEditingPlan && !lastResult.cancelled && lastResult.toolLogs.length > 0 && (
+                                    <button
+                                        type="button"
+                                        onClick={() => setIsEditingPlan(true)}
+                                        disabled={isProcessing}
+                                        className="ml-auto text-[10px] text-purple-400 hover:text-purple-300 disabled:opacity-40 normal-case tracking-normal"
+                                        title="Удалить, переставить или изменить аргументы вызовов и пересчитать состояние"
+                                    >
+                                        ✎ Редактировать
+                                    </button>
+                                )}
                             </h4>
+                            {isEditingPlan ? (
+                                <ToolPlanEditor
+                                    toolLogs={lastResult.toolLogs}
+                                    onApply={handleApplyPlanEdits}
+                                    onCancel={() => setIsEditingPlan(false)}
+                                    disabled={isProcessing}
+                                />
+                            ) : (
                             <div className="space-y-2">
                                 {lastResult.toolLogs.length === 0 ? (
                                     <div className="text-xs text-gray-600 italic">Инструменты не использовались.</div>
@@ -2639,10 +3495,16 @@ const App: React.FC = () => {
                                                         <div className="h-px flex-1 bg-gray-700"></div>
                                                     </div>
                                                 )}
-                                                <div className="text-xs bg-black rounded p-2 font-mono border border-gray-800">
+                                                <div className={`text-xs bg-black rounded p-2 font-mono border ${log.rolledBack ? 'border-orange-900/60 opacity-60' : 'border-gray-800'}`}>
                                             <div className="flex items-center gap-2 mb-1">
                                                 <span className="text-blue-500 font-bold">FN:</span>
-                                                <span className="text-gray-300">{log.name}</span>
+                                                <span className={log.rolledBack ? 'text-gray-500 line-through' : 'text-gray-300'}>{log.name}</span>
+                                                {log.npcId && (
+                                                    <span className="text-[9px] font-bold text-amber-400 uppercase tracking-wider">NPC {log.npcId}</span>
+                                                )}
+                                                {log.rolledBack && (
+                                                    <span className="text-[9px] font-bold text-orange-400 uppercase tracking-wider">откачено</span>
+                                                )}
                                             </div>
                                             <div className="text-gray-500 mb-1 break-all pl-6">
                                                 ARGS: {JSON.stringify(log.args)}
@@ -2656,12 +3518,58 @@ const App: React.FC = () => {
                                     })
                                 )}
                             </div>
+                            )}
                         </div>
 
+                        {/* Проверка целостности после хода: только проблемы, которых не было до него */}
+                        {(() => {
+                          const knownIssues = new Set(stateIssues.map(i => `${i.code}:${i.path}`));
+                          const newIssues = validateState(lastResult.newState).filter(i => !knownIssues.has(`${i.code}:${i.path}`));
+                          return newIssues.length > 0 && (
+                            <div className="mb-4 text-xs text-yellow-200 bg-yellow-950/30 border border-yellow-900/50 rounded p-3 space-y-1">
+                              <div className="font-bold uppercase tracking-wider text-[10px] text-yellow-400">
+                                ⚠ Ход нарушает целостность состояния ({newIssues.length})
+                              </div>
+                              {newIssues.map((issue, index) => (
+                                <div key={index}>• {issue.message}</div>
+                              ))}
+                              <div className="text-[10px] text-yellow-500/80">После принятия проблемы можно исправить во вкладке issues.</div>
+                            </div>
+                          );
+                        })()}
+
                         <div className="h-64 mb-4">
                             <DiffView oldState={gameState} newState={lastResult.newState} />
                         </div>
                         
+                        {lastCassette && (
+                            <button
+                                type="button"
+                                onClick={() => downloadFile(
+                                  `cassette_${lastCassette.recordedAt.replace(/[:.]/g, '-')}.json`,
+                                  JSON.stringify(lastCassette, null, 2),
+                                  'application/json'
+                                )}
+                                className="w-full py-2 mb-2 bg-gray-800 hover:bg-gray-700 text-gray-300 font-bold rounded text-[10px] tracking-wider uppercase transition-colors"
+                            >
+                                Скачать кассету ({lastCassette.interactions.length} запросов)
+                            </button>
+                        )}
+
+                        {lastResult.cancelled ? (
+                            <div className="w-full py-3 text-center bg-gray-800 text-gray-400 rounded text-xs tracking-wider uppercase border border-gray-700">
+                                Ход отменён — состояние не изменено
+                            </div>
+                        ) : lastResult.planOnly ? (
+                            <button
+                                type="button"
+                                onClick={() => handleGenerateNarrative()}
+                                disabled={isProcessing}
+                                className="w-full py-3 bg-purple-700 hover:bg-purple-600 disabled:bg-gray-700 disabled:text-gray-400 text-white font-bold rounded shadow-lg text-xs tracking-wider uppercase transition-colors"
+                            >
+                                {isProcessing ? 'Генерация повествования...' : 'Утвердить план и сгенерировать повествование'}
+                            </button>
+                        ) : (
                         <button 
                             type="button"
                             onClick={handleCommitChanges}
@@ -2669,12 +3577,21 @@ const App: React.FC = () => {
                         >
                             Принять и Обновить состояние
                         </button>
+                        )}
                     </div>
                 )}
             </div>
         </section>
       </main>
-      
+
+      {isSaveDialogOpen && (
+        <SaveLoadDialog
+          getSession={getSavedSession}
+          warning={stateErrorCount > 0 ? `В текущем состоянии ${stateErrorCount} ошибок целостности (см. вкладку issues)` : undefined}
+          onLoad={handleLoadSave}
+          onClose={() => setIsSaveDialogOpen(false)}
+        />
+      )}
     </div>
   );
 };
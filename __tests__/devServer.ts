@@ -0,0 +1,55 @@
+import { EventEmitter } from 'events';
+import { saveDataPlugin } from '../vite-plugin-save-data';
+
+// ============================================================================
+// API DEV-СЕРВЕРА БЕЗ VITE
+// ============================================================================
+// Регистрирует middleware из saveDataPlugin на заглушке сервера и вызывает их
+// напрямую: папки data/ и saves/ берутся из rootDir (временной папки теста).
+
+type Middleware = (req: any, res: any, next: () => void) => void;
+
+export const createTestDevServer = (rootDir: string) => {
+  const routes: Array<[string, Middleware]> = [];
+  const server = {
+    middlewares: { use: (route: string, handler: Middleware) => routes.push([route, handler]) },
+    watcher: { add: () => {}, on: () => {} },
+    ws: { send: () => {} }
+  };
+  (saveDataPlugin(rootDir).configureServer as (server: any) => void)(server);
+
+  // Запрос к API; url — как у fetch в браузере ("/api/saves?id=...")
+  const request = (method: string, url: string, body?: string): Promise<Response> => new Promise((resolve, reject) => {
+    const route = routes.find(([prefix]) => url === prefix || url.startsWith(`${prefix}?`));
+    if (!route) {
+      reject(new Error(`Нет обработчика для ${url}`));
+      return;
+    }
+
+    // Как и connect, middleware получает url без префикса маршрута
+    const req = Object.assign(new EventEmitter(), {
+      method,
+      url: url.slice(route[0].length) || '/',
+      headers: { host: 'localhost' }
+    });
+    const res = {
+      statusCode: 200,
+      setHeader: () => {},
+      end(data = '') {
+        resolve(new Response(data || null, { status: this.statusCode }));
+      }
+    };
+
+    route[1](req, res, () => reject(new Error(`Запрос ${method} ${url} не обработан`)));
+    if (body !== undefined) {
+      req.emit('data', Buffer.from(body));
+    }
+    req.emit('end');
+  });
+
+  // Замена глобального fetch для клиентских утилит (utils/saveSlots.ts и т.п.)
+  const fetch = (url: string, init: RequestInit = {}): Promise<Response> =>
+    request(init.method ?? 'GET', url, init.body as string | undefined);
+
+  return { request, fetch };
+};
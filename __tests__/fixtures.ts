@@ -0,0 +1,52 @@
+import { GameState, LocationData, NpcData, PlayerData } from '../types';
+
+// ============================================================================
+// ОБЩИЕ ТЕСТОВЫЕ ДАННЫЕ
+// ============================================================================
+// Мир из одной локации (loc1) с игроком Tester (p1). Тесты переопределяют только
+// то, что им нужно (локации, объекты, dice, clock, statDefinitions): новое поле
+// GameState добавляется здесь, а не в каждом файле тестов.
+
+export const createTestLocation = (overrides: Partial<LocationData> = {}): LocationData => ({
+  id: 'loc1',
+  name: 'Start Location',
+  description: 'Cave',
+  currentSituation: 'Quiet',
+  state: 'normal',
+  connections: [],
+  attributes: {},
+  ...overrides
+});
+
+export const createTestPlayer = (overrides: Partial<PlayerData> = {}): PlayerData => ({
+  id: 'p1',
+  name: 'Tester',
+  description: 'Hero',
+  inventory: [],
+  health: 100,
+  state: 'normal',
+  locationId: 'loc1',
+  attributes: {},
+  ...overrides
+});
+
+export const createTestNpc = (overrides: Partial<NpcData> = {}): NpcData => ({
+  id: 'npc1',
+  name: 'Guard',
+  description: 'Guard',
+  locationId: 'loc1',
+  goals: '',
+  disposition: '',
+  state: 'normal',
+  attributes: {},
+  ...overrides
+});
+
+export const createTestState = (overrides: Partial<GameState> = {}): GameState => ({
+  world: { worldDescription: 'Test World', gameGenre: 'Fantasy' },
+  locations: [createTestLocation()],
+  players: [createTestPlayer()],
+  npcs: [],
+  objects: [],
+  ...overrides
+});
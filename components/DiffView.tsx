@@ -1,5 +1,6 @@
 import React from 'react';
 import { GameState } from '../types';
+import { formatWorldTime } from '../utils/worldClock';
 
 interface DiffViewProps {
   oldState: GameState;
@@ -11,6 +12,18 @@ const DiffView: React.FC<DiffViewProps> = ({ oldState, newState }) => {
   const getDiffs = () => {
     const changes: React.ReactNode[] = [];
 
+    // Время мира
+    if (newState.clock && (!oldState.clock || formatWorldTime(oldState.clock) !== formatWorldTime(newState.clock))) {
+      changes.push(
+        <div key="clock" className="mb-1">
+          <span className="text-cyan-400 font-bold">Time:</span>
+          <span className="text-red-400 line-through mx-2">{oldState.clock ? formatWorldTime(oldState.clock) : '(нет)'}</span>
+          <span className="text-gray-500">→</span>
+          <span className="text-green-400 mx-2">{formatWorldTime(newState.clock)}</span>
+        </div>
+      );
+    }
+
     // Compare objects
     // Сначала проверяем новые и измененные объекты
     newState.objects.forEach(newObj => {
@@ -63,7 +76,51 @@ const DiffView: React.FC<DiffViewProps> = ({ oldState, newState }) => {
     // Compare Players
     newState.players.forEach(newPl => {
       const oldPl = oldState.players.find(p => p.id === newPl.id);
-      if (oldPl) {
+      if (!oldPl) {
+        changes.push(<div key={`new-player-${newPl.id}`} className="text-green-400">+ New Player: {newPl.name}</div>);
+      } else {
+        if (oldPl.condition !== newPl.condition) {
+          changes.push(
+            <div key={`pl-condition-${newPl.id}`} className="mb-1">
+              <span className="text-yellow-400 font-bold">Player {newPl.name} condition:</span>
+              <span className="text-red-400 line-through mx-2">{oldPl.condition || '(нет)'}</span>
+              <span className="text-gray-500">→</span>
+              <span className={`mx-2 ${newPl.condition === 'alive' ? 'text-green-400' : 'text-red-500 font-bold'}`}>{newPl.condition}</span>
+            </div>
+          );
+        }
+        // Числовые характеристики: health, maxHealth и характеристики мира
+        const oldStats: Record<string, number | undefined> = { health: oldPl.health, maxHealth: oldPl.maxHealth, ...(oldPl.stats || {}) };
+        const newStats: Record<string, number | undefined> = { health: newPl.health, maxHealth: newPl.maxHealth, ...(newPl.stats || {}) };
+        const allStatKeys = new Set([...Object.keys(oldStats), ...Object.keys(newStats)]);
+        allStatKeys.forEach(statKey => {
+          const oldValue = oldStats[statKey];
+          const newValue = newStats[statKey];
+          if (oldValue !== newValue) {
+            const delta = oldValue !== undefined && newValue !== undefined ? newValue - oldValue : undefined;
+            changes.push(
+              <div key={`pl-stat-${newPl.id}-${statKey}`} className="mb-1">
+                <span className="text-yellow-400 font-bold">Player {newPl.name} {statKey}:</span>
+                <span className="text-red-400 line-through mx-2">{oldValue ?? '(нет)'}</span>
+                <span className="text-gray-500">→</span>
+                <span className="text-green-400 mx-2">{newValue ?? '(нет)'}</span>
+                {delta !== undefined && (
+                  <span className={delta < 0 ? 'text-red-500' : 'text-green-500'}>({delta > 0 ? '+' : ''}{delta})</span>
+                )}
+              </div>
+            );
+          }
+        });
+        if (oldPl.state !== newPl.state) {
+          changes.push(
+            <div key={`pl-state-${newPl.id}`} className="mb-1">
+              <span className="text-yellow-400 font-bold">Player {newPl.name} state:</span>
+              <span className="text-red-400 line-through mx-2">{oldPl.state || '(нет)'}</span>
+              <span className="text-gray-500">→</span>
+              <span className="text-green-400 mx-2">{newPl.state || '(нет)'}</span>
+            </div>
+          );
+        }
         // Compare attributes
         const oldAttrs = oldPl.attributes || {};
         const newAttrs = newPl.attributes || {};
@@ -96,6 +153,42 @@ const DiffView: React.FC<DiffViewProps> = ({ oldState, newState }) => {
       }
     });
 
+    // Compare NPCs (перемещения и атрибуты — результат хода мира)
+    newState.npcs.forEach(newNpc => {
+      const oldNpc = oldState.npcs.find(n => n.id === newNpc.id);
+      if (!oldNpc) return;
+      if (oldNpc.locationId !== newNpc.locationId) {
+        changes.push(
+          <div key={`npc-loc-${newNpc.id}`} className="mb-1">
+            <span className="text-amber-400 font-bold">NPC {newNpc.name} Location:</span>
+            <span className="text-red-400 line-through mx-2">{oldNpc.locationId}</span>
+            <span className="text-gray-500">→</span>
+            <span className="text-green-400 mx-2">{newNpc.locationId}</span>
+          </div>
+        );
+      }
+      const oldAttrs = oldNpc.attributes || {};
+      const newAttrs = newNpc.attributes || {};
+      const allAttrKeys = new Set([...Object.keys(oldAttrs), ...Object.keys(newAttrs)]);
+      allAttrKeys.forEach(attrKey => {
+        if (oldAttrs[attrKey] !== newAttrs[attrKey]) {
+          const isDeleted = oldAttrs[attrKey] !== undefined && newAttrs[attrKey] === undefined;
+          changes.push(
+            <div key={`npc-attr-${newNpc.id}-${attrKey}`} className="mb-1">
+              <span className="text-amber-400 font-bold">NPC {newNpc.name} {attrKey}:</span>
+              <span className="text-red-400 line-through mx-2">{oldAttrs[attrKey] || '(нет)'}</span>
+              <span className="text-gray-500">→</span>
+              {isDeleted ? (
+                <span className="text-red-500 mx-2 font-bold">[УДАЛЕНО]</span>
+              ) : (
+                <span className="text-green-400 mx-2">{newAttrs[attrKey] || '(нет)'}</span>
+              )}
+            </div>
+          );
+        }
+      });
+    });
+
     // Compare Locations
     newState.locations.forEach(newLoc => {
         const oldLoc = oldState.locations.find(l => l.id === newLoc.id);
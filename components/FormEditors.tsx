@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { WorldData, LocationData, PlayerData, ObjectData } from '../types';
-import { deleteObjectWithChildren } from '../utils/gameUtils';
+import { WorldData, WorldClock, LocationData, PlayerData, PlayerCondition, NpcData, ObjectData, StatDefinition, StatThreshold } from '../types';
+import { deleteObjectWithChildren, getHealthThresholds, DEFAULT_MAX_HEALTH } from '../utils/gameUtils';
+import { createWorldClock, toWorldMinutes, formatWorldTime } from '../utils/worldClock';
 
 // --- UI Primitives ---
 
@@ -450,11 +451,93 @@ const ConnectionEditor = ({ locId, connections, onChange, onSave, availableLocat
   );
 };
 
+// Пороги в поле ввода: "0:без сознания, 20:измотан"
+const formatThresholds = (thresholds: StatThreshold[] = []): string =>
+  thresholds.map(t => `${t.atOrBelow}:${t.state}`).join(', ');
+
+const parseThresholds = (text: string): StatThreshold[] =>
+  text.split(',')
+    .map(part => part.split(':'))
+    .filter(([value, state]) => state?.trim() && value.trim() !== '' && !isNaN(Number(value)))
+    .map(([value, state]) => ({ atOrBelow: Number(value), state: state.trim() }));
+
+const StatDefinitionsEditor = ({ definitions, onChange, onSave }: { definitions: StatDefinition[], onChange: (defs: StatDefinition[]) => void, onSave?: () => void }) => {
+  const update = (i: number, patch: Partial<StatDefinition>) => {
+    const n = [...definitions];
+    n[i] = { ...n[i], ...patch };
+    onChange(n);
+  };
+  const add = () => onChange([...definitions, { id: `stat_${Date.now()}`, name: 'New Stat', min: 0, max: 100, initial: 100, thresholds: [] }]);
+
+  return (
+    <div className="mb-3">
+      <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1 tracking-wider">Player Stats</label>
+      {definitions.map((def, i) => (
+        <ListItem key={i} id={def.id} name={def.name} onDelete={() => onChange(definitions.filter((_, idx) => idx !== i))}>
+          <div className="grid grid-cols-2 gap-2">
+            <InputField label="Name" value={def.name} onChange={(v: string) => update(i, { name: v })} onSave={onSave} />
+            <InputField label="ID" value={def.id} onChange={(v: string) => update(i, { id: v })} onSave={onSave} />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <InputField label="Min" type="number" value={String(def.min)} onChange={(v: string) => update(i, { min: Number(v) })} onSave={onSave} />
+            <InputField label="Max" type="number" value={String(def.max)} onChange={(v: string) => update(i, { max: Number(v) })} onSave={onSave} />
+            <InputField label="Initial" type="number" value={String(def.initial)} onChange={(v: string) => update(i, { initial: Number(v) })} onSave={onSave} />
+          </div>
+          <InputField
+            label="Thresholds"
+            value={formatThresholds(def.thresholds)}
+            placeholder="0:без сознания, 20:измотан"
+            onChange={(v: string) => update(i, { thresholds: parseThresholds(v) })}
+            onSave={onSave}
+          />
+        </ListItem>
+      ))}
+      <button type="button" onClick={add} className="w-full py-1 border border-gray-700 text-gray-400 text-xs rounded hover:bg-gray-800">+ NEW STAT</button>
+    </div>
+  );
+};
+
 export const WorldEditor: React.FC<{ data: WorldData; onChange: (d: WorldData) => void; onSave?: () => void }> = ({ data, onChange, onSave }) => {
+  const healthThresholds = getHealthThresholds(data);
   return (
     <div className="p-4">
       <InputField label="Genre" value={data.gameGenre} onChange={(v: string) => onChange({ ...data, gameGenre: v })} onSave={onSave} />
       <TextAreaField label="Description" value={data.worldDescription} onChange={(v: string) => onChange({ ...data, worldDescription: v })} rows={12} onSave={onSave} />
+      <div className="grid grid-cols-2 gap-2">
+        <InputField label="Incapacitated At Or Below" type="number" value={String(healthThresholds.incapacitatedAtOrBelow)} onChange={(v: string) => onChange({ ...data, healthThresholds: { ...healthThresholds, incapacitatedAtOrBelow: Number(v) } })} onSave={onSave} />
+        <InputField label="Dead At Or Below" type="number" value={String(healthThresholds.deadAtOrBelow)} onChange={(v: string) => onChange({ ...data, healthThresholds: { ...healthThresholds, deadAtOrBelow: Number(v) } })} onSave={onSave} />
+      </div>
+      <StatDefinitionsEditor definitions={data.statDefinitions || []} onChange={(defs) => onChange({ ...data, statDefinitions: defs })} onSave={onSave} />
+    </div>
+  );
+};
+
+// Правка времени пересобирает часы через createWorldClock (phase, переполнение минут и часов)
+export const ClockEditor: React.FC<{ clock?: WorldClock; onChange: (c: WorldClock) => void; onSave?: () => void }> = ({ clock, onChange, onSave }) => {
+  const current = clock ?? createWorldClock();
+  const update = (patch: Partial<Pick<WorldClock, 'day' | 'hour' | 'minute'>>) => {
+    const next = { ...current, ...patch };
+    if ([next.day, next.hour, next.minute].some(v => isNaN(v))) return;
+    onChange(createWorldClock(toWorldMinutes(next), current.effects));
+  };
+
+  return (
+    <div className="px-4 pb-4">
+      <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1 tracking-wider">Clock — {formatWorldTime(current)}</label>
+      <div className="grid grid-cols-3 gap-2">
+        <InputField label="Day" type="number" value={String(current.day)} onChange={(v: string) => update({ day: Math.max(1, Number(v)) })} onSave={onSave} />
+        <InputField label="Hour" type="number" value={String(current.hour)} onChange={(v: string) => update({ hour: Number(v) })} onSave={onSave} />
+        <InputField label="Minute" type="number" value={String(current.minute)} onChange={(v: string) => update({ minute: Number(v) })} onSave={onSave} />
+      </div>
+      {current.effects && current.effects.length > 0 && (
+        <div className="text-[10px] text-gray-500 font-mono">
+          {current.effects.map(e => (
+            <div key={e.id}>
+              {formatWorldTime(createWorldClock(e.at))}: {e.entityType} {e.entityId} "{e.attributeName}" → {e.value === null ? '(удалить)' : `"${e.value}"`}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -484,13 +567,20 @@ export const LocationsEditor: React.FC<{ data: LocationData[]; onChange: (d: Loc
   );
 };
 
+const PLAYER_CONDITION_LABELS: Record<PlayerCondition, string> = {
+  alive: 'жив',
+  incapacitated: 'недееспособен',
+  dead: 'мёртв'
+};
+
 export const PlayersEditor: React.FC<{
   data: PlayerData[];
   onChange: (d: PlayerData[]) => void;
   onSave?: () => void;
   availableLocations?: LocationOption[];
-}> = ({ data, onChange, onSave, availableLocations = [] }) => {
-  const add = () => onChange([...data, { id: `char_${Date.now()}`, name: 'New Char', description: '', locationId: '', attributes: {} }]);
+  statDefinitions?: StatDefinition[];
+}> = ({ data, onChange, onSave, availableLocations = [], statDefinitions = [] }) => {
+  const add = () => onChange([...data, { id: `char_${Date.now()}`, name: 'New Char', description: '', locationId: '', health: 100, attributes: {} }]);
 
   // Преобразуем локации в опции для SelectField
   const locationOptions: SelectOption[] = availableLocations.map(loc => ({
@@ -507,6 +597,75 @@ export const PlayersEditor: React.FC<{
           <InputField label="Name" value={item.name} onChange={(v: string) => { const n = [...data]; n[i].name = v; onChange(n); }} onSave={onSave} />
           <InputField label="ID" value={item.id} onChange={(v: string) => { const n = [...data]; n[i].id = v; onChange(n); }} onSave={onSave} />
           <TextAreaField label="Description" value={item.description} onChange={(v: string) => { const n = [...data]; n[i].description = v; onChange(n); }} onSave={onSave} />
+          <InputField
+            label={`Health${item.condition && item.condition !== 'alive' ? ` — ${PLAYER_CONDITION_LABELS[item.condition]}` : ''}`}
+            type="number"
+            value={String(item.health ?? '')}
+            onChange={(v: string) => { const n = [...data]; n[i].health = Number(v); onChange(n); }}
+            onSave={onSave}
+          />
+          <InputField
+            label="Max Health"
+            type="number"
+            value={String(item.maxHealth ?? DEFAULT_MAX_HEALTH)}
+            onChange={(v: string) => { const n = [...data]; n[i].maxHealth = Number(v); onChange(n); }}
+            onSave={onSave}
+          />
+          {statDefinitions.length > 0 && (
+            <div className="grid grid-cols-2 gap-2">
+              {statDefinitions.map(def => (
+                <InputField
+                  key={def.id}
+                  label={`${def.name} (${def.min}..${def.max})`}
+                  type="number"
+                  value={String(item.stats?.[def.id] ?? def.initial)}
+                  onChange={(v: string) => { const n = [...data]; n[i].stats = { ...(n[i].stats || {}), [def.id]: Number(v) }; onChange(n); }}
+                  onSave={onSave}
+                />
+              ))}
+            </div>
+          )}
+          <AttributesEditor attributes={item.attributes || {}} onChange={(attrs) => { const n = [...data]; n[i].attributes = attrs; onChange(n); }} onSave={onSave} />
+          <SelectField
+            label="Location"
+            value={item.locationId}
+            onChange={(v: string) => { const n = [...data]; n[i].locationId = v; onChange(n); }}
+            options={locationOptions}
+            placeholder="Выберите локацию..."
+            onSave={onSave}
+          />
+        </ListItem>
+      ))}
+    </div>
+  );
+};
+
+export const NpcsEditor: React.FC<{
+  data: NpcData[];
+  onChange: (d: NpcData[]) => void;
+  onSave?: () => void;
+  availableLocations?: LocationOption[];
+}> = ({ data, onChange, onSave, availableLocations = [] }) => {
+  const add = () => onChange([...data, { id: `npc_${Date.now()}`, name: 'New NPC', description: '', locationId: '', goals: '', disposition: '', schedule: '', state: 'normal', attributes: {} }]);
+
+  const locationOptions: SelectOption[] = availableLocations.map(loc => ({
+    id: loc.id,
+    label: `${loc.name} (${loc.id})`,
+    group: '📍 Локации'
+  }));
+
+  return (
+    <div className="p-4">
+      <button type="button" onClick={add} className="w-full py-1 mb-3 border border-gray-700 text-gray-400 text-xs rounded hover:bg-gray-800">+ NEW NPC</button>
+      {data.map((item, i) => (
+        <ListItem key={i} id={item.id} name={item.name} onDelete={() => onChange(data.filter((_, idx) => idx !== i))}>
+          <InputField label="Name" value={item.name} onChange={(v: string) => { const n = [...data]; n[i].name = v; onChange(n); }} onSave={onSave} />
+          <InputField label="ID" value={item.id} onChange={(v: string) => { const n = [...data]; n[i].id = v; onChange(n); }} onSave={onSave} />
+          <TextAreaField label="Description" value={item.description} onChange={(v: string) => { const n = [...data]; n[i].description = v; onChange(n); }} onSave={onSave} />
+          <TextAreaField label="Goals" value={item.goals} rows={2} onChange={(v: string) => { const n = [...data]; n[i].goals = v; onChange(n); }} onSave={onSave} />
+          <InputField label="Disposition" value={item.disposition} placeholder="дружелюбен, подозрителен..." onChange={(v: string) => { const n = [...data]; n[i].disposition = v; onChange(n); }} onSave={onSave} />
+          <InputField label="Schedule" value={item.schedule || ''} placeholder="днём в баре, ночью дома" onChange={(v: string) => { const n = [...data]; n[i].schedule = v; onChange(n); }} onSave={onSave} />
+          <InputField label="State" value={item.state} onChange={(v: string) => { const n = [...data]; n[i].state = v; onChange(n); }} onSave={onSave} />
           <AttributesEditor attributes={item.attributes || {}} onChange={(attrs) => { const n = [...data]; n[i].attributes = attrs; onChange(n); }} onSave={onSave} />
           <SelectField
             label="Location"
@@ -525,7 +684,7 @@ export const PlayersEditor: React.FC<{
 export interface ConnectionTarget {
   id: string;
   name: string;
-  type: 'player' | 'location' | 'object';
+  type: 'player' | 'npc' | 'location' | 'object';
 }
 
 export const ObjectsEditor: React.FC<{
@@ -567,8 +726,8 @@ export const ObjectsEditor: React.FC<{
       ungroupedObjects.push(obj);
     } else {
       const target = connectionTargetMap.get(obj.connectionId);
-      if (target && (target.type === 'location' || target.type === 'player')) {
-        // Это корневой объект (подключен к локации или игроку)
+      if (target && (target.type === 'location' || target.type === 'player' || target.type === 'npc')) {
+        // Это корневой объект (подключен к локации, игроку или NPC)
         rootObjects.push(obj);
       } else if (target && target.type === 'object') {
         // Это вложенный объект (подключен к другому объекту, который существует)
@@ -638,7 +797,7 @@ export const ObjectsEditor: React.FC<{
   const sortedGroups = Array.from(groupedByRoot.keys())
     .map(connectionId => {
       const target = connectionTargetMap.get(connectionId);
-      const icon = target?.type === 'player' ? '👤' : '📍';
+      const icon = target?.type === 'player' ? '👤' : target?.type === 'npc' ? '🧑' : '📍';
       return {
         id: connectionId,
         name: target?.name || connectionId,
@@ -660,7 +819,7 @@ export const ObjectsEditor: React.FC<{
     const target = connectionTargetMap.get(targetId);
     if (!target) return { rootName: 'Unknown', rootType: 'unknown', path: [{ id: targetId, name: 'Unknown', type: 'unknown' }] };
 
-    if (target.type === 'location' || target.type === 'player') {
+    if (target.type === 'location' || target.type === 'player' || target.type === 'npc') {
       return { rootName: target.name, rootType: target.type, path: [{ id: target.id, name: target.name, type: target.type }] };
     }
 
@@ -687,6 +846,7 @@ export const ObjectsEditor: React.FC<{
   const itemsByGroup: Record<string, typeof connectionTargets> = {
     '📍 Locations': [],
     '👤 Players': [],
+    '🧑 NPCs': [],
   };
 
   const connectedObjectsGroups: Record<string, typeof connectionTargets> = {};
@@ -695,6 +855,7 @@ export const ObjectsEditor: React.FC<{
   connectionTargets.forEach(t => {
     if (t.type === 'location') { itemsByGroup['📍 Locations'].push(t); return; }
     if (t.type === 'player') { itemsByGroup['👤 Players'].push(t); return; }
+    if (t.type === 'npc') { itemsByGroup['🧑 NPCs'].push(t); return; }
 
     // Object
     const info = getHierarchyInfo(t.id);
@@ -703,6 +864,7 @@ export const ObjectsEditor: React.FC<{
     } else {
       let groupName = '📦 Objects';
       if (info.rootType === 'player') groupName = `👤 ${info.rootName}`;
+      else if (info.rootType === 'npc') groupName = `🧑 ${info.rootName}`;
       else if (info.rootType === 'location') groupName = `📍 ${info.rootName}`;
 
       if (!connectedObjectsGroups[groupName]) connectedObjectsGroups[groupName] = [];
@@ -730,6 +892,7 @@ export const ObjectsEditor: React.FC<{
   // Add groups in order
   addGroup('📍 Locations', itemsByGroup['📍 Locations']);
   addGroup('👤 Players', itemsByGroup['👤 Players']);
+  addGroup('🧑 NPCs', itemsByGroup['🧑 NPCs']);
 
   // Add object groups sorted by name
   Object.keys(connectedObjectsGroups).sort().forEach(groupName => {
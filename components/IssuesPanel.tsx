@@ -0,0 +1,70 @@
+import React from 'react';
+import { StateIssue } from '../types';
+
+interface IssuesPanelProps {
+  issues: StateIssue[];
+  onRepair: (issue: StateIssue) => void;
+  onRepairAll: () => void;
+}
+
+/**
+ * Список проблем целостности состояния (validateState) с автоисправлениями.
+ */
+const IssuesPanel: React.FC<IssuesPanelProps> = ({ issues, onRepair, onRepairAll }) => {
+  const repairableCount = issues.filter(i => i.repair).length;
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white">Проблемы целостности</h2>
+        {repairableCount > 0 && (
+          <button
+            type="button"
+            onClick={onRepairAll}
+            className="px-3 py-1 text-xs bg-purple-700 hover:bg-purple-600 text-white rounded transition-colors"
+          >
+            Исправить всё ({repairableCount})
+          </button>
+        )}
+      </div>
+
+      {issues.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <p className="text-lg mb-2">Проблем не найдено</p>
+          <p className="text-sm">Состояние проверяется при загрузке, после каждого хода и перед сохранением</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {issues.map((issue, index) => (
+            <div
+              key={`${issue.path}-${index}`}
+              className={`rounded p-3 border text-sm ${issue.severity === 'error' ? 'bg-red-950/30 border-red-900/60' : 'bg-yellow-950/20 border-yellow-900/50'}`}
+            >
+              <div className="flex items-start gap-2">
+                <span className={`text-[9px] font-bold uppercase tracking-wider mt-0.5 ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
+                  {issue.severity === 'error' ? 'Ошибка' : 'Предупр.'}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-gray-200">{issue.message}</div>
+                  <div className="text-[10px] text-gray-500 font-mono mt-1 break-all">{issue.path}</div>
+                </div>
+                {issue.repair && (
+                  <button
+                    type="button"
+                    onClick={() => onRepair(issue)}
+                    className="shrink-0 px-2 py-1 text-[10px] bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors"
+                    title="Автоисправление"
+                  >
+                    {issue.repair}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IssuesPanel;
@@ -2,16 +2,46 @@ import React from 'react';
 
 interface NarrativeTextProps {
   text: string;
-  onEntityClick?: (type: 'object' | 'player' | 'location', id: string, name: string) => void;
+  onEntityClick?: (type: 'object' | 'player' | 'npc' | 'location', id: string, name: string) => void;
+  // Текст ещё генерируется: незаконченная разметка в конце не показывается как есть
+  streaming?: boolean;
 }
 
+const ENTITY_TYPES = ['object', 'player', 'npc', 'location'];
+
+// Незаконченная разметка в конце текста: "[obj", "[object:ID", "[object:ID:Наз"
+const partialEntityRegex = /\[([a-z]*)(?::([^:\]]*)(?::([^\]]*))?)?$/;
+
+/**
+ * Ищет незаконченную разметку в хвосте потокового текста.
+ * @returns позиция начала разметки и уже известные поля, или null
+ */
+const findPartialEntity = (text: string) => {
+  const match = partialEntityRegex.exec(text);
+  if (!match) return null;
+
+  const [full, entityType, entityId, entityName] = match;
+  const hasColon = full.includes(':');
+  const isTypePrefix = hasColon
+    ? ENTITY_TYPES.includes(entityType)
+    : ENTITY_TYPES.some(type => type.startsWith(entityType));
+  if (!isTypePrefix) return null;
+
+  return { index: match.index, entityType, entityId, entityName };
+};
+
 /**
  * Компонент для отображения нарративного текста с разметкой объектов.
- * Разметка: [object:ID:name], [player:ID:name], [location:ID:name]
+ * Разметка: [object:ID:name], [player:ID:name], [npc:ID:name], [location:ID:name]
  */
-const NarrativeText: React.FC<NarrativeTextProps> = ({ text, onEntityClick }) => {
+const NarrativeText: React.FC<NarrativeTextProps> = ({ text: fullText, onEntityClick, streaming = false }) => {
+  // Во время генерации отрезаем незаконченную разметку; если имя уже начало
+  // приходить — показываем его как "ожидающую" сущность
+  const partialEntity = streaming ? findPartialEntity(fullText) : null;
+  const text = partialEntity ? fullText.substring(0, partialEntity.index) : fullText;
+
   // Регулярное выражение для поиска разметки [type:ID:name]
-  const entityRegex = /\[(object|player|location):([^:]+):([^\]]+)\]/g;
+  const entityRegex = /\[(object|player|npc|location):([^:]+):([^\]]+)\]/g;
 
   const parseText = () => {
     const parts: Array<{ type: 'text' | 'entity'; content: string; entityType?: string; entityId?: string; entityName?: string }> = [];
@@ -32,7 +62,7 @@ const NarrativeText: React.FC<NarrativeTextProps> = ({ text, onEntityClick }) =>
       parts.push({
         type: 'entity',
         content: match[0],
-        entityType: entityType as 'object' | 'player' | 'location',
+        entityType: entityType as 'object' | 'player' | 'npc' | 'location',
         entityId,
         entityName
       });
@@ -49,7 +79,7 @@ const NarrativeText: React.FC<NarrativeTextProps> = ({ text, onEntityClick }) =>
     }
 
     // Если не было разметки, возвращаем весь текст
-    if (parts.length === 0) {
+    if (parts.length === 0 && text) {
       parts.push({ type: 'text', content: text });
     }
 
@@ -64,6 +94,8 @@ const NarrativeText: React.FC<NarrativeTextProps> = ({ text, onEntityClick }) =>
         return 'text-cyan-400 hover:text-cyan-300';
       case 'player':
         return 'text-purple-400 hover:text-purple-300';
+      case 'npc':
+        return 'text-amber-400 hover:text-amber-300';
       case 'location':
         return 'text-green-400 hover:text-green-300';
       default:
@@ -77,6 +109,8 @@ const NarrativeText: React.FC<NarrativeTextProps> = ({ text, onEntityClick }) =>
         return 'bg-cyan-400/20 hover:bg-cyan-400/30';
       case 'player':
         return 'bg-purple-400/20 hover:bg-purple-400/30';
+      case 'npc':
+        return 'bg-amber-400/20 hover:bg-amber-400/30';
       case 'location':
         return 'bg-green-400/20 hover:bg-green-400/30';
       default:
@@ -84,7 +118,7 @@ const NarrativeText: React.FC<NarrativeTextProps> = ({ text, onEntityClick }) =>
     }
   };
 
-  const handleEntityClick = (type: 'object' | 'player' | 'location', id: string, name: string) => {
+  const handleEntityClick = (type: 'object' | 'player' | 'npc' | 'location', id: string, name: string) => {
     if (onEntityClick) {
       onEntityClick(type, id, name);
     }
@@ -120,6 +154,14 @@ const NarrativeText: React.FC<NarrativeTextProps> = ({ text, onEntityClick }) =>
           );
         }
       })}
+      {partialEntity?.entityName && (
+        <span
+          className={`${getEntityColor(partialEntity.entityType)} ${getEntityBgColor(partialEntity.entityType)} px-1.5 py-0.5 rounded font-medium opacity-70`}
+        >
+          {partialEntity.entityName}
+        </span>
+      )}
+      {streaming && <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-gray-400 animate-pulse" />}
     </div>
   );
 };
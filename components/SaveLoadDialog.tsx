@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { SavedSession, SaveSlot, SaveSlotInfo } from '../types';
+import { listSaves, createSave, loadSave, updateSave, deleteSave } from '../utils/saveSlots';
+
+interface SaveLoadDialogProps {
+  // Текущая сессия для сохранения (собирается в момент нажатия)
+  getSession: () => SavedSession;
+  onLoad: (slot: SaveSlot) => void;
+  onClose: () => void;
+  // Предупреждение перед сохранением (например, о проблемах целостности состояния)
+  warning?: string;
+}
+
+/**
+ * Диалог слотов сохранений: список, создание, загрузка, перезапись, переименование, удаление.
+ */
+const SaveLoadDialog: React.FC<SaveLoadDialogProps> = ({ getSession, onLoad, onClose, warning }) => {
+  const [saves, setSaves] = useState<SaveSlotInfo[]>([]);
+  const [newName, setNewName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Выполняет операцию со слотами и обновляет список
+  const run = async (operation: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await operation();
+      setSaves(await listSaves());
+    } catch (e: any) {
+      console.error('[Saves] Operation failed:', e);
+      setError(e.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    run(async () => {});
+  }, []);
+
+  const handleCreate = () => run(async () => {
+    await createSave(newName.trim(), getSession());
+    setNewName('');
+  });
+
+  const handleOverwrite = (slot: SaveSlotInfo) => {
+    if (!confirm(`Перезаписать "${slot.name}" текущей сессией?`)) return;
+    run(async () => {
+      await updateSave(slot.id, { session: getSession() });
+    });
+  };
+
+  const handleRename = (slot: SaveSlotInfo) => {
+    const name = prompt('Новое название сохранения:', slot.name);
+    if (!name?.trim()) return;
+    run(async () => {
+      await updateSave(slot.id, { name: name.trim() });
+    });
+  };
+
+  const handleDelete = (slot: SaveSlotInfo) => {
+    if (!confirm(`Удалить сохранение "${slot.name}"?`)) return;
+    run(async () => {
+      await deleteSave(slot.id);
+    });
+  };
+
+  // Загрузка закрывает диалог, поэтому список после неё не обновляется
+  const handleLoad = async (slot: SaveSlotInfo) => {
+    setBusy(true);
+    setError(null);
+    try {
+      onLoad(await loadSave(slot.id));
+      onClose();
+    } catch (e: any) {
+      console.error('[Saves] Load failed:', e);
+      setError(e.message);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl w-full max-w-xl max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+          <h2 className="text-sm font-bold text-white uppercase tracking-wider">Сохранения</h2>
+          <button type="button" onClick={onClose} className="text-gray-500 hover:text-white" title="Закрыть">✕</button>
+        </div>
+
+        <div className="flex gap-2 px-4 py-3 border-b border-gray-800">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && newName.trim()) handleCreate(); }}
+            placeholder="Название нового сохранения"
+            disabled={busy}
+            className="flex-1 bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-purple-600"
+          />
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={busy || !newName.trim()}
+            className="px-3 py-1.5 bg-purple-700 hover:bg-purple-600 disabled:bg-gray-700 disabled:text-gray-400 text-white font-bold rounded text-xs uppercase tracking-wider transition-colors"
+          >
+            Сохранить
+          </button>
+        </div>
+
+        {warning && (
+          <div className="mx-4 mt-3 text-xs text-yellow-200 bg-yellow-950/30 border border-yellow-900/50 rounded p-2">⚠ {warning}</div>
+        )}
+
+        {error && (
+          <div className="mx-4 mt-3 text-xs text-red-300 bg-red-950/40 border border-red-900 rounded p-2">{error}</div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {saves.length === 0 && !busy && (
+            <div className="text-center text-sm text-gray-500 py-6">Сохранений пока нет</div>
+          )}
+          {saves.map(slot => (
+            <div key={slot.id} className="flex items-center gap-2 bg-gray-800/50 border border-gray-700 rounded px-3 py-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-200 truncate">{slot.name}</div>
+                <div className="text-[10px] text-gray-500">
+                  {new Date(slot.updatedAt).toLocaleString()} · ходов: {slot.turnCount}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleLoad(slot)}
+                disabled={busy}
+                className="px-2 py-1 bg-green-800 hover:bg-green-700 disabled:opacity-40 text-white rounded text-[10px] uppercase tracking-wider font-bold"
+              >
+                Загрузить
+              </button>
+              <button type="button" onClick={() => handleOverwrite(slot)} disabled={busy} className="text-gray-400 hover:text-white disabled:opacity-40 text-xs" title="Перезаписать текущей сессией">💾</button>
+              <button type="button" onClick={() => handleRename(slot)} disabled={busy} className="text-gray-400 hover:text-white disabled:opacity-40 text-xs" title="Переименовать">✎</button>
+              <button type="button" onClick={() => handleDelete(slot)} disabled={busy} className="text-red-500 hover:text-red-300 disabled:opacity-40 text-xs" title="Удалить">✕</button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveLoadDialog;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { ToolCallLog } from '../types';
+
+interface ToolPlanEditorProps {
+  toolLogs: ToolCallLog[];
+  // Вызывается с отредактированной последовательностью вызовов (аргументы уже разобраны)
+  onApply: (calls: ToolCallLog[]) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+interface DraftCall {
+  log: ToolCallLog;
+  argsText: string;
+}
+
+/**
+ * Редактор плана вызовов инструментов: удаление, перестановка и правка аргументов.
+ * Состояние пересчитывает вызывающая сторона (replayToolCalls от исходного состояния).
+ */
+const ToolPlanEditor: React.FC<ToolPlanEditorProps> = ({ toolLogs, onApply, onCancel, disabled = false }) => {
+  const [draft, setDraft] = useState<DraftCall[]>(() =>
+    toolLogs.map(log => ({ log, argsText: JSON.stringify(log.args ?? {}, null, 2) }))
+  );
+
+  // Ошибки разбора JSON по индексам строк. Аргументы вызова — только JSON-объект
+  const parseErrors = draft.map(item => {
+    let args: unknown;
+    try {
+      args = JSON.parse(item.argsText);
+    } catch (e: any) {
+      return e.message as string;
+    }
+    return args !== null && typeof args === 'object' && !Array.isArray(args)
+      ? null
+      : 'Аргументы должны быть JSON-объектом ({ ... })';
+  });
+  const hasErrors = parseErrors.some(Boolean);
+
+  const moveCall = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.length) return;
+    setDraft(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeCall = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const updateArgs = (index: number, argsText: string) => {
+    setDraft(prev => prev.map((item, i) => (i === index ? { ...item, argsText } : item)));
+  };
+
+  const handleApply = () => {
+    if (hasErrors) return;
+    onApply(draft.map(item => ({ ...item.log, args: JSON.parse(item.argsText) })));
+  };
+
+  return (
+    <div className="space-y-2">
+      {draft.length === 0 && (
+        <div className="text-xs text-gray-600 italic">План пуст — состояние останется исходным.</div>
+      )}
+
+      {draft.map((item, index) => (
+        <div
+          key={index}
+          className={`text-xs bg-black rounded p-2 font-mono border ${parseErrors[index] ? 'border-red-700' : 'border-gray-800'} ${item.log.rolledBack ? 'opacity-60' : ''}`}
+        >
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-gray-600 w-5 text-right">{index + 1}.</span>
+            <span className="text-blue-500 font-bold">FN:</span>
+            <span className="text-gray-300 flex-1">{item.log.name}</span>
+            {item.log.npcId && (
+              <span className="text-[9px] font-bold text-amber-400 uppercase tracking-wider">NPC {item.log.npcId}</span>
+            )}
+            {item.log.rolledBack && (
+              <span className="text-[9px] font-bold text-orange-400 uppercase tracking-wider">откачено</span>
+            )}
+            <button
+              type="button"
+              onClick={() => moveCall(index, -1)}
+              disabled={disabled || index === 0}
+              className="px-1.5 text-gray-400 hover:text-white disabled:opacity-30"
+              title="Выше"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => moveCall(index, 1)}
+              disabled={disabled || index === draft.length - 1}
+              className="px-1.5 text-gray-400 hover:text-white disabled:opacity-30"
+              title="Ниже"
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              onClick={() => removeCall(index)}
+              disabled={disabled}
+              className="px-1.5 text-red-500 hover:text-red-300 disabled:opacity-30"
+              title="Удалить вызов"
+            >
+              ✕
+            </button>
+          </div>
+          <textarea
+            value={item.argsText}
+            onChange={(e) => updateArgs(index, e.target.value)}
+            disabled={disabled}
+            spellCheck={false}
+            rows={Math.min(8, item.argsText.split('\n').length)}
+            className="w-full bg-gray-950 text-gray-300 border border-gray-800 rounded p-1.5 text-[11px] focus:outline-none focus:border-purple-600"
+          />
+          {parseErrors[index] && (
+            <div className="text-red-400 text-[10px] mt-1">Некорректный JSON: {parseErrors[index]}</div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2 pt-1">
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={disabled || hasErrors}
+          className="flex-1 py-2 bg-purple-700 hover:bg-purple-600 disabled:bg-gray-700 disabled:text-gray-400 text-white font-bold rounded text-[10px] tracking-wider uppercase transition-colors"
+        >
+          Пересчитать состояние
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={disabled}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded text-[10px] tracking-wider uppercase transition-colors"
+        >
+          Отмена
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ToolPlanEditor;
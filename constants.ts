@@ -2,11 +2,29 @@ import { GameState } from './types';
 import { INITIAL_WORLD } from './data/world';
 import { INITIAL_LOCATIONS } from './data/locations';
 import { INITIAL_PLAYERS } from './data/players';
+import { INITIAL_NPCS } from './data/npcs';
 import { INITIAL_OBJECTS } from './data/objects';
+import { INITIAL_DICE } from './data/dice';
+import { INITIAL_CLOCK } from './data/clock';
+import { INITIAL_HISTORY as SAVED_HISTORY } from './data/history';
+import { migrateSave } from './utils/saveFormat';
 
-export const INITIAL_STATE: GameState = {
-  world: INITIAL_WORLD,
-  locations: INITIAL_LOCATIONS,
-  players: INITIAL_PLAYERS,
-  objects: INITIAL_OBJECTS
-};
\ No newline at end of file
+// Файлы data/*.ts не хранят версию формата и могли быть записаны старыми сборками,
+// поэтому при старте всегда проходят всю цепочку миграций (шаги должны быть идемпотентны)
+const initialSession = migrateSave({
+  state: {
+    world: INITIAL_WORLD,
+    locations: INITIAL_LOCATIONS,
+    players: INITIAL_PLAYERS,
+    npcs: INITIAL_NPCS,
+    objects: INITIAL_OBJECTS,
+    dice: INITIAL_DICE,
+    clock: INITIAL_CLOCK
+  },
+  history: SAVED_HISTORY
+}).session;
+
+export const INITIAL_STATE: GameState = initialSession.state;
+
+// История ходов, сохраняемая вместе с состоянием
+export const INITIAL_HISTORY = initialSession.history;
@@ -0,0 +1,8 @@
+import { WorldClock } from '../types';
+
+export const INITIAL_CLOCK: WorldClock | undefined = {
+  "day": 1,
+  "hour": 8,
+  "minute": 0,
+  "phase": "morning"
+};
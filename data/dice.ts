@@ -0,0 +1,6 @@
+import { DiceState } from '../types';
+
+export const INITIAL_DICE: DiceState | undefined = {
+  "seed": 2718281828,
+  "cursor": 0
+};
@@ -0,0 +1,3 @@
+import { TurnHistory } from '../types';
+
+export const INITIAL_HISTORY: TurnHistory[] = [];
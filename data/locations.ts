@@ -16,7 +16,8 @@ export const INITIAL_LOCATIONS: LocationData[] = [
       "safety": "относительно безопасно",
       "состояние стены": "на стене выстреляно сердце из пулевых отверстий",
       "window_condition": "разбито и покрыто трещинами от удара булыжником"
-    }
+    },
+    "state": "normal"
   },
   {
     "id": "loc_002",
@@ -34,7 +35,8 @@ export const INITIAL_LOCATIONS: LocationData[] = [
       "safety": "опасно, стоит быть настороже",
       "time of day": "ранний вечер",
       "feature": "повсюду блестят осколки разбитого стекла, летящие из окна офиса, это привлекает внимание прохожих"
-    }
+    },
+    "state": "normal"
   },
   {
     "id": "loc_1764698263182",
@@ -47,6 +49,7 @@ export const INITIAL_LOCATIONS: LocationData[] = [
         "type": "bidirectional"
       }
     ],
-    "attributes": {}
+    "attributes": {},
+    "state": "normal"
   }
 ];
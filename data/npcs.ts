@@ -0,0 +1,3 @@
+import { NpcData } from '../types';
+
+export const INITIAL_NPCS: NpcData[] = [];
@@ -6,13 +6,21 @@ export const INITIAL_PLAYERS: PlayerData[] = [
     "name": "Джек 'Волк' Картер",
     "description": "Седой детектив с кибернетическим глазом. Циничный, но эффективный.",
     "locationId": "loc_001",
-    "attributes": {}
+    "attributes": {},
+    "inventory": [
+      "obj_001"
+    ],
+    "health": 100,
+    "state": "normal"
   },
   {
     "id": "char_1764641742185",
     "name": "Хромой Пью",
     "description": "Старый друг Джека. Бывалый детектив. Не в лучшей кондиции, но с острым умом. ",
     "locationId": "loc_001",
-    "attributes": {}
+    "attributes": {},
+    "inventory": [],
+    "health": 100,
+    "state": "normal"
   }
 ];
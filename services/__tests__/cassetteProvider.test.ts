@@ -0,0 +1,147 @@
+import { describe, test, expect } from 'vitest';
+import { Type } from '@google/genai';
+import { processGameTurn } from '../geminiService';
+import { createGeminiProvider } from '../providers/geminiProvider';
+import { createRecordingProvider, createReplayProvider, parseCassette } from '../providers/cassetteProvider';
+import { LLMProvider, LLMRequest } from '../providers/types';
+import { GameTool, DEFAULT_AI_SETTINGS } from '../../types';
+import createObjectTool from '../../tools/createObject';
+import moveObjectTool from '../../tools/moveObject';
+import { createTestState } from '../../__tests__/fixtures';
+
+// Ответ в формате Gemini API
+function geminiResponse(parts: any[], totalTokenCount = 10) {
+  return {
+    candidates: [{ content: { role: 'model', parts } }],
+    usageMetadata: { promptTokenCount: totalTokenCount - 2, candidatesTokenCount: 2, totalTokenCount }
+  };
+}
+
+// "Настоящий" провайдер для записи: отдаёт заранее заданные ответы Gemini,
+// разбор делегирует Gemini-провайдеру (без сети)
+function createScriptedProvider(responses: any[]): LLMProvider & { requests: LLMRequest[] } {
+  const decoder = createGeminiProvider('');
+  const requests: LLMRequest[] = [];
+  return {
+    ...decoder,
+    requests,
+    generate: async (request) => {
+      requests.push(request);
+      const raw = responses.shift();
+      if (!raw) throw new Error('script exhausted');
+      return { raw };
+    }
+  };
+}
+
+// Детерминированный инструмент: меняет атрибут игрока
+const markTool: GameTool = {
+  definition: {
+    name: 'mark',
+    description: 'Test tool',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { value: { type: Type.STRING } },
+      required: ['value']
+    }
+  },
+  apply: (state, args) => ({
+    newState: { ...state, players: state.players.map(p => ({ ...p, attributes: { ...p.attributes, mark: args.value } })) },
+    result: `Отмечено: ${args.value}`
+  })
+};
+
+const scriptedTurn = () => [
+  geminiResponse([
+    { text: 'Нужно поставить метку', thought: true },
+    { functionCall: { name: 'mark', args: { value: 'X' } } }
+  ]),
+  geminiResponse([{ text: 'Готово.' }]),
+  geminiResponse([{ text: 'Вы оставили метку.' }], 20)
+];
+
+describe('cassetteProvider - запись и воспроизведение', () => {
+  test('воспроизводит записанный ход без сети с тем же результатом', async () => {
+    const recorder = createRecordingProvider(createScriptedProvider(scriptedTurn()));
+    const recorded = await processGameTurn(createTestState(), 'поставить метку', [markTool], DEFAULT_AI_SETTINGS, [], { provider: recorder });
+
+    const cassette = parseCassette(JSON.stringify(recorder.getCassette()));
+    expect(cassette.providerId).toBe('gemini');
+    expect(cassette.interactions).toHaveLength(3);
+
+    const replay = createReplayProvider(cassette, { strict: true });
+    const replayed = await processGameTurn(createTestState(), 'поставить метку', [markTool], DEFAULT_AI_SETTINGS, [], { provider: replay });
+
+    expect(replay.remaining()).toBe(0);
+    expect(replayed.narrative).toBe('Вы оставили метку.');
+    expect(replayed.narrative).toBe(recorded.narrative);
+    expect(replayed.toolLogs).toEqual(recorded.toolLogs);
+    expect(replayed.newState).toEqual(recorded.newState);
+    expect(replayed.newState.players[0].attributes?.mark).toBe('X');
+    expect(replayed.tokenUsage).toEqual(recorded.tokenUsage);
+  });
+
+  test('повторная запись воспроизведения совпадает с исходной кассетой байт-в-байт', async () => {
+    const recorder = createRecordingProvider(createScriptedProvider(scriptedTurn()));
+    await processGameTurn(createTestState(), 'поставить метку', [markTool], DEFAULT_AI_SETTINGS, [], { provider: recorder });
+    const original = recorder.getCassette();
+
+    const rerecorder = createRecordingProvider(createReplayProvider(original));
+    await processGameTurn(createTestState(), 'поставить метку', [markTool], DEFAULT_AI_SETTINGS, [], { provider: rerecorder });
+
+    expect(JSON.stringify(rerecorder.getCassette().interactions)).toBe(JSON.stringify(original.interactions));
+  });
+
+  test('воспроизводит ID созданных объектов и ссылки на них', async () => {
+    const tools = [createObjectTool, moveObjectTool];
+    const recorder = createRecordingProvider(createScriptedProvider([
+      geminiResponse([
+        { functionCall: { name: 'create_object', args: { name: 'Ключ', connectionId: 'loc1' } } },
+        { functionCall: { name: 'move_object', args: { objectId: '$0.createdId', targetId: 'p1' } } }
+      ]),
+      geminiResponse([{ text: 'Готово.' }]),
+      geminiResponse([{ text: 'Вы подобрали ключ.' }], 20)
+    ]));
+    const recorded = await processGameTurn(createTestState(), 'подобрать ключ', tools, DEFAULT_AI_SETTINGS, [], {
+      provider: recorder,
+      entityIdSource: recorder.entityIdSource
+    });
+
+    const cassette = parseCassette(JSON.stringify(recorder.getCassette()));
+    expect(cassette.createdIds).toEqual([recorded.newState.objects[0].id]);
+
+    // strict: запрос второй итерации содержит результаты с ID объекта
+    const replay = createReplayProvider(cassette, { strict: true });
+    const replayed = await processGameTurn(createTestState(), 'подобрать ключ', tools, DEFAULT_AI_SETTINGS, [], {
+      provider: replay,
+      entityIdSource: replay.entityIdSource
+    });
+
+    expect(replay.remaining()).toBe(0);
+    expect(replayed.narrative).toBe('Вы подобрали ключ.');
+    expect(replayed.toolLogs).toEqual(recorded.toolLogs);
+    expect(replayed.newState).toEqual(recorded.newState);
+    expect(replayed.newState.objects[0].connectionId).toBe('p1');
+  });
+
+  test('strict-режим сообщает о расхождении запроса', async () => {
+    const recorder = createRecordingProvider(createScriptedProvider(scriptedTurn()));
+    await processGameTurn(createTestState(), 'поставить метку', [markTool], DEFAULT_AI_SETTINGS, [], { provider: recorder });
+
+    const replay = createReplayProvider(recorder.getCassette(), { strict: true });
+    const result = await processGameTurn(createTestState(), 'другой запрос', [markTool], DEFAULT_AI_SETTINGS, [], { provider: replay });
+
+    expect(result.narrative).toContain('Запрос №1 не совпадает с записанным');
+    expect(result.newState).toEqual(createTestState());
+  });
+
+  test('сообщает, когда кассета закончилась', async () => {
+    const recorder = createRecordingProvider(createScriptedProvider([geminiResponse([{ text: 'Думаю...' }])]));
+    await expect(recorder.generate({ model: 'gemini-2.5-flash', systemInstruction: '', messages: [] })).resolves.toBeDefined();
+
+    const replay = createReplayProvider(recorder.getCassette());
+    const result = await processGameTurn(createTestState(), 'осмотреться', [], DEFAULT_AI_SETTINGS, [], { provider: replay });
+
+    expect(result.narrative).toContain('Кассета закончилась');
+  });
+});
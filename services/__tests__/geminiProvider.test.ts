@@ -0,0 +1,83 @@
+import { describe, test, expect, vi } from 'vitest';
+import { createGeminiProvider } from '../providers/geminiProvider';
+
+// Мок потока generateContentStream: отдаёт заранее заданные чанки
+const mockGenerateContentStream = vi.fn();
+
+vi.mock('@google/genai', () => {
+  return {
+    GoogleGenAI: class MockGoogleGenAI {
+      models = {
+        generateContentStream: mockGenerateContentStream
+      };
+    }
+  };
+});
+
+const streamOf = (chunks: any[]) => (async function* () {
+  yield* chunks;
+})();
+
+describe('geminiProvider - разбор ответа', () => {
+  test('запасные id вызовов совпадают в getToolCalls и в сообщении ассистента', () => {
+    const provider = createGeminiProvider('');
+    const response = {
+      raw: {
+        candidates: [{
+          content: {
+            role: 'model',
+            parts: [
+              { text: 'Сначала осмотрюсь' },
+              { functionCall: { name: 'look', args: {} } },
+              { functionCall: { name: 'mark', args: { value: 'X' } } }
+            ]
+          }
+        }]
+      }
+    };
+
+    const callIds = provider.getToolCalls(response).map(call => call.id);
+    const messageIds = provider.getAssistantMessage(response)!.parts
+      .flatMap(part => ('toolCall' in part ? [part.toolCall.id] : []));
+
+    expect(callIds).toEqual(['call_1', 'call_2']);
+    expect(messageIds).toEqual(callIds);
+  });
+});
+
+describe('geminiProvider - потоковый ответ', () => {
+  test('склеивает чанки мыслей, ответа и вызовов инструментов', async () => {
+    const chunk = (parts: any[], usageMetadata?: any) => ({
+      candidates: [{ content: { role: 'model', parts } }],
+      ...(usageMetadata ? { usageMetadata } : {})
+    });
+    mockGenerateContentStream.mockResolvedValueOnce(streamOf([
+      chunk([{ text: 'Думаю', thought: true, thoughtSignature: 'sig_old' }], { promptTokenCount: 10, candidatesTokenCount: 1, totalTokenCount: 11 }),
+      chunk([{ text: ' дальше', thought: true, thoughtSignature: 'sig_thought' }]),
+      chunk([{ text: 'Вы входите' }]),
+      chunk([{ text: ' в пещеру', thoughtSignature: 'sig_answer' }], { promptTokenCount: 10, candidatesTokenCount: 6, totalTokenCount: 16 }),
+      chunk([{ functionCall: { name: 'look', args: {} } }]),
+      chunk([{ text: ' и осматриваетесь' }]),
+      chunk([], { promptTokenCount: 10, candidatesTokenCount: 9, totalTokenCount: 19 })
+    ]));
+
+    const provider = createGeminiProvider('test-api-key');
+    const onText = vi.fn();
+    const response = await provider.generateStream!({ model: 'gemini-test', systemInstruction: '', messages: [] }, onText);
+
+    // В onText — накопленный текст ответа без мыслей
+    expect(onText.mock.calls.map(([text]) => text)).toEqual([
+      'Вы входите',
+      'Вы входите в пещеру',
+      'Вы входите в пещеру и осматриваетесь'
+    ]);
+    expect(provider.getParts(response)).toEqual([
+      { text: 'Думаю дальше', thought: true, thoughtSignature: 'sig_thought' },
+      { text: 'Вы входите в пещеру', thoughtSignature: 'sig_answer' },
+      { functionCall: { name: 'look', args: {} } },
+      { text: ' и осматриваетесь' }
+    ]);
+    expect(response.raw.usageMetadata).toEqual({ promptTokenCount: 10, candidatesTokenCount: 9, totalTokenCount: 19 });
+    expect(provider.getToolCalls(response).map(call => call.name)).toEqual(['look']);
+  });
+});
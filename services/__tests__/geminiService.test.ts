@@ -1,7 +1,9 @@
 import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
-import { processGameTurn } from '../geminiService';
-import { GameTool, GameState } from '../../types';
+import { processGameTurn, generateNarrative, applyNarrativeResult } from '../geminiService';
+import { GameTool, GameState, DEFAULT_AI_SETTINGS } from '../../types';
 import { Type } from '@google/genai';
+import moveNpcTool from '../../tools/moveNpc';
+import { createTestLocation, createTestNpc, createTestState } from '../../__tests__/fixtures';
 
 // Мок для generateContent
 const mockGenerateContent = vi.fn();
@@ -73,36 +75,19 @@ function createMockTool(name: string, handler: (state: GameState, args: any) =>
   };
 }
 
-// Хелпер для создания тестового состояния
-function createTestState(): GameState {
-  return {
-    world: { worldDescription: 'Test World', gameGenre: 'Fantasy' },
-    locations: [
-      {
-        id: 'loc1',
-        name: 'Start Location',
-        description: 'A dark creepy cave',
-        currentSituation: 'Scary sounds',
-        state: 'normal',
-        connections: [],
-        attributes: {}
-      },
-      {
-        id: 'loc2',
-        name: 'Connected Location',
-        description: 'Bright field',
-        currentSituation: 'Sunny',
-        state: 'normal',
-        connections: [{ targetLocationId: 'loc1', type: 'bidirectional' }],
-        attributes: {}
-      }
-    ],
-    players: [
-      { id: 'p1', name: 'Tester', description: 'Hero', inventory: [], health: 100, state: 'normal', locationId: 'loc1', attributes: {} }
-    ],
-    objects: []
-  };
-}
+// Пещера игрока и соседнее поле
+const createCaveState = (): GameState => createTestState({
+  locations: [
+    createTestLocation({ description: 'A dark creepy cave', currentSituation: 'Scary sounds' }),
+    createTestLocation({
+      id: 'loc2',
+      name: 'Connected Location',
+      description: 'Bright field',
+      currentSituation: 'Sunny',
+      connections: [{ targetLocationId: 'loc1', type: 'bidirectional' }]
+    })
+  ]
+});
 
 describe('geminiService - многоходовый цикл инструментов', () => {
   beforeEach(() => {
@@ -119,7 +104,7 @@ describe('geminiService - многоходовый цикл инструмент
   });
 
   test('обрабатывает ответ без инструментов (только текст)', async () => {
-    const state = createTestState();
+    const state = createCaveState();
 
     // 1. Симуляция: возвращает текст (мысли), инструментов нет -> выход из цикла
     mockGenerateContent.mockResolvedValueOnce(
@@ -139,7 +124,7 @@ describe('geminiService - многоходовый цикл инструмент
   });
 
   test('обрабатывает один вызов инструмента', async () => {
-    const state = createTestState();
+    const state = createCaveState();
 
     const testTool = createMockTool('test_action', (s, args) => ({
       newState: s,
@@ -173,7 +158,7 @@ describe('geminiService - многоходовый цикл инструмент
   });
 
   test('обрабатывает многоходовый цикл инструментов', async () => {
-    const state = createTestState();
+    const state = createCaveState();
 
     let callCount = 0;
     const counterTool = createMockTool('increment', (s, args) => {
@@ -224,7 +209,7 @@ describe('geminiService - многоходовый цикл инструмент
   });
 
   test('ограничивает количество итераций (MAX_TOOL_ITERATIONS = 5)', async () => {
-    const state = createTestState();
+    const state = createCaveState();
 
     let callCount = 0;
     const infiniteTool = createMockTool('infinite', (s, args) => {
@@ -258,7 +243,7 @@ describe('geminiService - многоходовый цикл инструмент
   });
 
   test('обрабатывает несколько инструментов за одну итерацию', async () => {
-    const state = createTestState();
+    const state = createCaveState();
 
     const logs: string[] = [];
 
@@ -299,8 +284,201 @@ describe('geminiService - многоходовый цикл инструмент
     expect(result.narrative).toBe('Оба действия выполнены.');
   });
 
+  test('транзакционный режим откатывает весь пакет вызовов при ошибке одного из них', async () => {
+    const state = createCaveState();
+
+    const changeTool = createMockTool('change_world', (s, args) => ({
+      newState: { ...s, world: { ...s.world, worldDescription: args.value } },
+      result: `Мир изменён: ${args.value}`
+    }));
+    const failingTool = createMockTool('failing_action', (s) => ({
+      newState: s,
+      result: 'Ошибка: Объект не найден'
+    }));
+
+    // 1. Симуляция: два вызова в одном ответе, второй завершится ошибкой
+    mockGenerateContent.mockResolvedValueOnce(
+      createMockResponse({
+        toolCalls: [
+          { name: 'change_world', id: 'call_1', args: { value: 'изменено' } },
+          { name: 'failing_action', id: 'call_2', args: { value: 'x' } }
+        ]
+      })
+    );
+    // 2. Симуляция: модель сдаётся
+    mockGenerateContent.mockResolvedValueOnce(createMockResponse({ text: 'Не получилось.' }));
+    // 3. Нарратив
+    mockGenerateContent.mockResolvedValueOnce(createMockResponse({ text: 'Ничего не вышло.' }));
+
+    const result = await processGameTurn(
+      state,
+      'изменить мир',
+      [changeTool, failingTool],
+      { ...DEFAULT_AI_SETTINGS, transactionalToolBatches: true }
+    );
+
+    expect(result.newState).toEqual(createCaveState());
+    expect(result.toolLogs).toHaveLength(2);
+    expect(result.toolLogs.every(log => log.rolledBack)).toBe(true);
+
+    // Модель получила результаты с пометкой отката и сводку ошибок
+    const contents = mockGenerateContent.mock.calls[1][0].contents;
+    const toolResponse = contents[contents.length - 1];
+    expect(toolResponse.parts[0].functionResponse.response.result).toContain('Откачено');
+    expect(toolResponse.parts[1].functionResponse.response.result).toBe('Ошибка: Объект не найден');
+    expect(toolResponse.parts[2].text).toContain('ТРАНЗАКЦИЯ ОТМЕНЕНА');
+    expect(toolResponse.parts[2].text).toContain('#2 failing_action');
+
+    // Нарратор не видит откаченные действия
+    const narrativeContents = mockGenerateContent.mock.calls[2][0].contents;
+    expect(narrativeContents[0].parts[0].text).not.toContain('Мир изменён');
+  });
+
+  test('режим плана не запускает нарратив, а generateNarrative дописывает его для утверждённого плана', async () => {
+    const state = createCaveState();
+
+    const changeTool = createMockTool('change_world', (s, args) => ({
+      newState: { ...s, world: { ...s.world, worldDescription: args.value } },
+      result: `Мир изменён: ${args.value}`
+    }));
+
+    // Симуляция: вызов инструмента, затем завершение
+    mockGenerateContent.mockResolvedValueOnce(
+      createMockResponse({ toolCalls: [{ name: 'change_world', id: 'call_1', args: { value: 'новый мир' } }] })
+    );
+    mockGenerateContent.mockResolvedValueOnce(createMockResponse({ text: 'Готово.' }));
+
+    const plan = await processGameTurn(state, 'изменить мир', [changeTool], DEFAULT_AI_SETTINGS, [], { mode: 'plan' });
+
+    expect(plan.planOnly).toBe(true);
+    expect(plan.narrative).toBe('');
+    expect(plan.toolLogs[0].result).toBe('Мир изменён: новый мир');
+    expect(plan.newState.world.worldDescription).toBe('новый мир');
+    expect(state.world.worldDescription).toBe('Test World');
+    expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+
+    // Утверждение плана: только запрос нарратива
+    mockGenerateContent.mockResolvedValueOnce(createMockResponse({ text: 'Мир стал другим.' }));
+
+    const narrativeResult = await generateNarrative(plan.newState, state, 'изменить мир', plan.toolLogs, DEFAULT_AI_SETTINGS);
+    const approved = applyNarrativeResult(plan, narrativeResult, DEFAULT_AI_SETTINGS);
+
+    expect(mockGenerateContent).toHaveBeenCalledTimes(3);
+    expect(mockGenerateContent.mock.calls[2][0].contents[0].parts[0].text).toContain('Мир изменён: новый мир');
+    expect(approved.narrative).toBe('Мир стал другим.');
+    expect(approved.planOnly).toBeUndefined();
+    expect(approved.newState).toBe(plan.newState);
+  });
+
+  test('перегенерация нарратива использует переданные промпт и температуру, сохраняя результат симуляции', async () => {
+    const state = createCaveState();
+
+    mockGenerateContent.mockResolvedValueOnce(createMockResponse({ text: 'Ничего не меняется.' }));
+    mockGenerateContent.mockResolvedValueOnce(createMockResponse({ text: 'Первый вариант.' }));
+    const turn = await processGameTurn(state, 'ждать', [], DEFAULT_AI_SETTINGS);
+
+    mockGenerateContent.mockResolvedValueOnce(createMockResponse({ text: 'Второй вариант.' }));
+    const settings = { ...DEFAULT_AI_SETTINGS, narrativePromptOverride: 'Пиши как летописец.', narrativeTemperature: 1.3 };
+    const regenerated = applyNarrativeResult(
+      turn,
+      await generateNarrative(turn.newState, state, 'ждать', turn.toolLogs, settings),
+      settings
+    );
+
+    expect(mockGenerateContent).toHaveBeenCalledTimes(3);
+    const { config } = mockGenerateContent.mock.calls[2][0];
+    expect(config.temperature).toBe(1.3);
+    expect(config.systemInstruction).toContain('Пиши как летописец.');
+    expect(regenerated.narrative).toBe('Второй вариант.');
+    expect(regenerated.newState).toBe(turn.newState);
+    expect(regenerated.toolLogs).toBe(turn.toolLogs);
+  });
+
+  test('отменяет ход: прерывает запрос и возвращает частичный результат без изменения состояния', async () => {
+    const state = createCaveState();
+    const controller = new AbortController();
+
+    const testTool = createMockTool('test_action', (s, args) => ({
+      newState: { ...s, world: { ...s.world, worldDescription: args.value } },
+      result: `Выполнено: ${args.value}`
+    }));
+
+    // 1. Симуляция: вызывает инструмент
+    mockGenerateContent.mockResolvedValueOnce(
+      createMockResponse({
+        toolCalls: [{ name: 'test_action', id: 'call_1', args: { value: 'изменено' } }]
+      })
+    );
+
+    // 2. Следующая итерация "зависает", пока запрос не будет прерван через abortSignal
+    mockGenerateContent.mockImplementationOnce(({ config }: any) => new Promise((_, reject) => {
+      config.abortSignal.addEventListener('abort', () => reject(config.abortSignal.reason));
+      controller.abort();
+    }));
+
+    const result = await processGameTurn(state, 'выполнить тест', [testTool], undefined, [], { signal: controller.signal });
+
+    expect(result.cancelled).toBe(true);
+    expect(result.toolLogs).toHaveLength(1);
+    expect(result.toolLogs[0].result).toBe('Выполнено: изменено');
+    expect(result.newState).toEqual(createCaveState());
+    // Отменённый запрос не повторяется, нарратив не запрашивается
+    expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+  });
+
+  test('ход мира: NPC рядом с игроком действует отдельным запросом с урезанным набором инструментов', async () => {
+    const state = createCaveState();
+    state.locations.push(createTestLocation({ id: 'loc3', name: 'Far Away' }));
+    state.npcs = [
+      createTestNpc({ name: 'Стражник', description: 'Сонный', locationId: 'loc2', goals: 'охранять пещеру', disposition: 'подозрителен' }),
+      createTestNpc({ id: 'npc2', name: 'Отшельник', locationId: 'loc3' })
+    ];
+    const testTool = createMockTool('test_action', (s) => ({ newState: s, result: 'Выполнено' }));
+
+    // 1. Симуляция игрока: без инструментов
+    mockGenerateContent.mockResolvedValueOnce(createMockResponse({ text: 'Ничего не происходит.' }));
+    // 2. Ход NPC рядом с игроком (npc2 далеко — запроса нет)
+    mockGenerateContent.mockResolvedValueOnce(createMockResponse({
+      toolCalls: [{ name: 'move_npc', id: 'call_1', args: { npcId: 'npc1', targetLocationId: 'loc1' } }]
+    }));
+    // 3. Нарратив
+    mockGenerateContent.mockResolvedValueOnce(createMockResponse({ text: 'Стражник входит в пещеру.' }));
+
+    const result = await processGameTurn(
+      state,
+      'ждать',
+      [testTool, moveNpcTool],
+      { ...DEFAULT_AI_SETTINGS, npcWorldTick: true }
+    );
+
+    expect(mockGenerateContent).toHaveBeenCalledTimes(3);
+    const npcConfig = mockGenerateContent.mock.calls[1][0].config;
+    expect(npcConfig.systemInstruction).toContain('Цели: охранять пещеру');
+    expect(npcConfig.tools[0].functionDeclarations.map((d: any) => d.name)).toEqual(['move_npc']);
+
+    expect(result.newState.npcs.find(n => n.id === 'npc1')?.locationId).toBe('loc1');
+    expect(result.toolLogs).toEqual([expect.objectContaining({ name: 'move_npc', npcId: 'npc1' })]);
+    const narrativeContents = mockGenerateContent.mock.calls[2][0].contents;
+    expect(narrativeContents[0].parts[0].text).toContain('Действие NPC "Стражник"');
+  });
+
+  test('ход мира пропускается, если ни один инструмент NPC не включён', async () => {
+    const state = createCaveState();
+    state.npcs = [createTestNpc({ name: 'Стражник' }), createTestNpc({ id: 'npc2', name: 'Торговец' })];
+    const testTool = createMockTool('test_action', (s) => ({ newState: s, result: 'Выполнено' }));
+
+    mockGenerateContent.mockResolvedValueOnce(createMockResponse({ text: 'Ничего не происходит.' }));
+    mockGenerateContent.mockResolvedValueOnce(createMockResponse({ text: 'Тишина.' }));
+
+    const result = await processGameTurn(state, 'ждать', [testTool], { ...DEFAULT_AI_SETTINGS, npcWorldTick: true });
+
+    // Только симуляция и нарратив — запросов NPC нет
+    expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+    expect(result.narrative).toBe('Тишина.');
+  });
+
   test('добавляет контент локации и историю действий в промпт', async () => {
-    const state = createTestState();
+    const state = createCaveState();
     const history = [{
       turn: 1,
       userPrompt: 'предыдущее действие',
@@ -0,0 +1,192 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Type } from '@google/genai';
+import { processGameTurn } from '../geminiService';
+import { createOpenAICompatibleProvider, toJsonSchema, toOpenAITool } from '../providers/openaiCompatibleProvider';
+import { GameTool, DEFAULT_AI_SETTINGS } from '../../types';
+import { createTestState } from '../../__tests__/fixtures';
+
+// Локальный сервер-заглушка, имитирующий /v1/chat/completions.
+// Отвечает заранее подготовленными ответами по очереди и запоминает запросы.
+let server: http.Server;
+let baseUrl = '';
+let queuedResponses: any[] = [];
+let receivedRequests: any[] = [];
+
+function chatResponse(message: any, usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }) {
+  return {
+    id: 'chatcmpl-test',
+    object: 'chat.completion',
+    choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: 'stop' }],
+    usage
+  };
+}
+
+const echoTool: GameTool = {
+  definition: {
+    name: 'echo',
+    description: 'Test tool',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        value: { type: Type.STRING, description: 'Test value' },
+        mode: { type: Type.STRING, enum: ['a', 'b'] }
+      },
+      required: ['value']
+    }
+  },
+  apply: (state, args) => ({ newState: state, result: `echo: ${args.value}` })
+};
+
+describe('openaiCompatibleProvider', () => {
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk.toString(); });
+      req.on('end', () => {
+        receivedRequests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+        const next = queuedResponses.shift();
+        if (next?.sse) {
+          // Потоковый ответ: чанки Server-Sent Events
+          res.setHeader('Content-Type', 'text/event-stream');
+          next.sse.forEach((chunk: any) => res.write(`data: ${JSON.stringify(chunk)}\n\n`));
+          res.end('data: [DONE]\n\n');
+          return;
+        }
+        res.setHeader('Content-Type', 'application/json');
+        if (!next) {
+          // 400, а не 5xx — чтобы withRetry не повторял запрос
+          res.statusCode = 400;
+          res.end(JSON.stringify({ error: 'no queued response' }));
+          return;
+        }
+        res.end(JSON.stringify(next));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    queuedResponses = [];
+    receivedRequests = [];
+  });
+
+  test('переводит FunctionDeclaration в JSON Schema', () => {
+    const tool = toOpenAITool(echoTool.definition);
+
+    expect(tool.type).toBe('function');
+    expect(tool.function.name).toBe('echo');
+    expect(tool.function.parameters).toEqual({
+      type: 'object',
+      properties: {
+        value: { type: 'string', description: 'Test value' },
+        mode: { type: 'string', enum: ['a', 'b'] }
+      },
+      required: ['value']
+    });
+  });
+
+  test('nullable переводится в объединение типов с "null"', () => {
+    expect(toJsonSchema({ type: Type.STRING, nullable: true, enum: ['a', 'b'] }))
+      .toEqual({ type: ['string', 'null'], enum: ['a', 'b', null] });
+  });
+
+  test('выполняет полный ход через локальный сервер', async () => {
+    queuedResponses.push(
+      chatResponse({
+        content: null,
+        tool_calls: [{ id: 'call_abc', type: 'function', function: { name: 'echo', arguments: '{"value":"привет"}' } }]
+      }),
+      chatResponse({ content: 'Готово.' }),
+      chatResponse({ content: '<think>план ответа</think>Эхо прокатилось по [location:loc1:Start Location].' })
+    );
+
+    const provider = createOpenAICompatibleProvider({ baseUrl, apiKey: 'local-key' });
+    const result = await processGameTurn(
+      createTestState(),
+      'крикнуть',
+      [echoTool],
+      { ...DEFAULT_AI_SETTINGS, modelId: 'local-model', narrativeModelId: 'local-model' },
+      [],
+      { provider }
+    );
+
+    expect(result.toolLogs).toHaveLength(1);
+    expect(result.toolLogs[0].result).toBe('echo: привет');
+    expect(result.narrative).toBe('Эхо прокатилось по [location:loc1:Start Location].');
+    expect(result.narrativeThinking).toBe('план ответа');
+    expect(result.tokenUsage?.total.totalTokens).toBe(45);
+
+    expect(receivedRequests).toHaveLength(3);
+    expect(receivedRequests[0].url).toBe('/v1/chat/completions');
+    expect(receivedRequests[0].headers.authorization).toBe('Bearer local-key');
+
+    // Первый запрос: system + user, инструменты в формате JSON Schema
+    const first = receivedRequests[0].body;
+    expect(first.model).toBe('local-model');
+    expect(first.messages[0].role).toBe('system');
+    expect(first.messages[1]).toEqual({ role: 'user', content: 'крикнуть' });
+    expect(first.tools[0].function.parameters.type).toBe('object');
+
+    // Второй запрос: вызов инструмента ассистента и ответ инструмента с тем же id
+    const second = receivedRequests[1].body;
+    const assistant = second.messages.find((m: any) => m.role === 'assistant');
+    expect(assistant.tool_calls[0].id).toBe('call_abc');
+    const toolMessage = second.messages.find((m: any) => m.role === 'tool');
+    expect(toolMessage).toMatchObject({ tool_call_id: 'call_abc', content: 'echo: привет' });
+
+    // Нарратив: без инструментов
+    expect(receivedRequests[2].body.tools).toBeUndefined();
+  });
+
+  test('стримит нарратив и передаёт накопленный текст без <think>', async () => {
+    const delta = (content: string) => ({ choices: [{ index: 0, delta: { content } }] });
+    queuedResponses.push(
+      chatResponse({ content: 'Ничего не нужно менять.' }),
+      {
+        sse: [
+          delta('<think>коротко'),
+          delta('</think>Тишина в '),
+          delta('[location:loc1:Start'),
+          delta(' Location].'),
+          { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], usage: { prompt_tokens: 7, completion_tokens: 3, total_tokens: 10 } }
+        ]
+      }
+    );
+
+    const chunks: string[] = [];
+    const provider = createOpenAICompatibleProvider({ baseUrl });
+    const result = await processGameTurn(
+      createTestState(),
+      'прислушаться',
+      [],
+      { ...DEFAULT_AI_SETTINGS, modelId: 'local-model', narrativeModelId: 'local-model' },
+      [],
+      { provider, onNarrativeChunk: text => chunks.push(text) }
+    );
+
+    expect(receivedRequests[1].body.stream).toBe(true);
+    expect(chunks).toEqual([
+      'Тишина в ',
+      'Тишина в [location:loc1:Start',
+      'Тишина в [location:loc1:Start Location].'
+    ]);
+    expect(result.narrative).toBe('Тишина в [location:loc1:Start Location].');
+    expect(result.narrativeThinking).toBe('коротко');
+    expect(result.tokenUsage?.narrative?.totalTokens).toBe(10);
+  });
+
+  test('пробрасывает HTTP-ошибку сервера в результат хода', async () => {
+    const provider = createOpenAICompatibleProvider({ baseUrl });
+    const result = await processGameTurn(createTestState(), 'действие', [], { ...DEFAULT_AI_SETTINGS, modelId: 'local-model' }, [], { provider });
+
+    expect(result.narrative).toContain('OpenAI-compatible API error 400');
+    expect(result.toolLogs).toHaveLength(0);
+  });
+});
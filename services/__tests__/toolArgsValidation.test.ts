@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'vitest';
+import { Schema, Type } from '@google/genai';
+import { validateToolArgs } from '../toolArgsValidation';
+import { applyToolCall } from '../toolExecution';
+import setAttributeTool from '../../tools/setAttribute';
+import { createTestState } from '../../__tests__/fixtures';
+
+const schema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING, pattern: '^obj_' },
+    count: { type: Type.INTEGER, minimum: 1, maximum: 10 },
+    at: { type: Type.STRING, format: 'date-time' },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING }, maxItems: '2' },
+    target: {
+      type: Type.OBJECT,
+      properties: { kind: { type: Type.STRING, enum: ['player', 'location'] } },
+      required: ['kind']
+    }
+  },
+  required: ['id']
+};
+
+describe('validateToolArgs - проверка аргументов по схеме', () => {
+  test('корректные аргументы и лишние поля не дают ошибок', () => {
+    expect(validateToolArgs(schema, {
+      id: 'obj_1', count: 3, at: '2024-05-01T10:00:00Z', tags: ['a'], target: { kind: 'player' }, extra: true
+    })).toEqual([]);
+  });
+
+  test('сообщает путь и причину для каждого нарушения', () => {
+    const issues = validateToolArgs(schema, {
+      id: 'loc_1', count: 2.5, at: 'вчера', tags: ['a', 1, 'c'], target: {}
+    });
+
+    expect(issues.map(i => i.path)).toEqual(['id', 'count', 'at', 'tags', 'tags[1]', 'target']);
+    expect(issues.find(i => i.path === 'target')?.message).toBe('отсутствуют обязательные параметры: target.kind');
+    expect(validateToolArgs(schema, { id: '$2.createdId' })[0].message).toContain('ссылка $2.createdId не разрешена');
+  });
+
+  test('applyToolCall не вызывает apply при нарушении enum', () => {
+    const state = createTestState();
+
+    const { newState, result } = applyToolCall(state, 'set_attribute', {
+      entityType: 'weather', entityId: 'p1', attributeName: 'mood', value: 'злой'
+    }, [setAttributeTool]);
+
+    expect(newState).toBe(state);
+    expect(result).toMatch(/^Ошибка валидации аргументов set_attribute: entityType: значение строка "weather" не входит в допустимые: player, npc, object, location/);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, test, expect } from 'vitest';
+import { applyToolCall, getNpcTools, replayToolCalls } from '../toolExecution';
+import setAttributeTool from '../../tools/setAttribute';
+import moveObjectTool from '../../tools/moveObject';
+import deleteAttributeTool from '../../tools/deleteAttribute';
+import createObjectTool from '../../tools/createObject';
+import moveNpcTool from '../../tools/moveNpc';
+import { ToolCallLog } from '../../types';
+import { createTestLocation, createTestNpc, createTestState } from '../../__tests__/fixtures';
+
+const tools = [setAttributeTool, deleteAttributeTool];
+
+const setMood = (value: string, iteration = 0): ToolCallLog => ({
+  name: 'set_attribute',
+  args: { entityType: 'player', entityId: 'p1', attributeName: 'mood', value },
+  result: '',
+  iteration
+});
+
+const deleteMood: ToolCallLog = {
+  name: 'delete_attribute',
+  args: { entityType: 'player', entityId: 'p1', attributeName: 'mood' },
+  result: '',
+  iteration: 0
+};
+
+describe('replayToolCalls - пересчёт отредактированного плана', () => {
+  test('применяет вызовы заново от исходного состояния в новом порядке', () => {
+    const initial = createTestState();
+
+    const original = replayToolCalls(initial, [setMood('весёлый'), deleteMood], tools);
+    expect(original.newState.players[0].attributes?.mood).toBeUndefined();
+
+    // Переставили вызовы: сначала удаление (ещё нечего удалять), затем установка
+    const reordered = replayToolCalls(initial, [deleteMood, setMood('весёлый')], tools);
+    expect(reordered.newState.players[0].attributes?.mood).toBe('весёлый');
+    expect(reordered.logs[0].result).toMatch(/^Ошибка/);
+
+    // Исходное состояние не меняется
+    expect(initial).toEqual(createTestState());
+  });
+
+  test('пропускает откаченные вызовы и сообщает об ошибках валидации', () => {
+    const { newState, logs } = replayToolCalls(createTestState(), [
+      { ...setMood('злой'), rolledBack: true, result: 'Откачено' },
+      { ...setMood(''), iteration: 1 }
+    ], tools);
+
+    expect(newState).toEqual(createTestState());
+    expect(logs[0].result).toBe('Откачено');
+    expect(logs[1].result).toContain('отсутствуют обязательные параметры: value');
+    expect(logs[1].iteration).toBe(1);
+  });
+});
+
+describe('replayToolCalls - созданные сущности и ход мира', () => {
+  test('переписывает ссылки на созданный объект на его новый ID', () => {
+    const { newState, logs } = replayToolCalls(createTestState(), [
+      { name: 'create_object', args: { name: 'Ключ', connectionId: 'loc1' }, result: '', createdId: 'obj_old' },
+      { name: 'move_object', args: { objectId: 'obj_old', targetId: 'p1' }, result: '' }
+    ], [createObjectTool, moveObjectTool]);
+
+    const created = newState.objects[0];
+    expect(created.id).not.toBe('obj_old');
+    expect(logs[0].createdId).toBe(created.id);
+    expect(logs[1].args.objectId).toBe(created.id);
+    expect(logs[1].result).not.toMatch(/^Ошибка/);
+    expect(created.connectionId).toBe('p1');
+    expect(newState.players[0].inventory).toEqual([created.id]);
+  });
+
+  test('вызовы NPC пересчитываются с набором инструментов NPC', () => {
+    const state = createTestState({
+      locations: [
+        createTestLocation(),
+        createTestLocation({ id: 'loc2', name: 'Hall', connections: [{ targetLocationId: 'loc1', type: 'bidirectional' }] })
+      ],
+      npcs: [createTestNpc(), createTestNpc({ id: 'npc2', name: 'Thief' })]
+    });
+    const allTools = [...tools, moveNpcTool, createObjectTool];
+
+    const { newState, logs } = replayToolCalls(state, [
+      { name: 'move_npc', args: { npcId: 'npc2', targetLocationId: 'loc2' }, result: '', npcId: 'npc1' },
+      { name: 'create_object', args: { name: 'Ключ', connectionId: 'loc1' }, result: '', npcId: 'npc1' },
+      { name: 'move_npc', args: { npcId: 'npc1', targetLocationId: 'loc2' }, result: '', npcId: 'npc1' }
+    ], allTools);
+
+    expect(logs[0].result).toBe('Ошибка: NPC "Guard" может перемещать только себя (npcId: "npc1")');
+    expect(logs[1].result).toBe('Ошибка: Инструмент не найден или отключен.');
+    expect(newState.objects).toEqual([]);
+    expect(newState.npcs.map(n => n.locationId)).toEqual(['loc2', 'loc1']);
+  });
+});
+
+describe('getNpcTools - границы хода NPC', () => {
+  test('NPC трогает только себя, свою локацию и объекты рядом', () => {
+    const state = createTestState({
+      locations: [createTestLocation(), createTestLocation({ id: 'loc2', name: 'Hall' })],
+      npcs: [createTestNpc(), createTestNpc({ id: 'npc2', name: 'Thief', locationId: 'loc2' })],
+      objects: [
+        { id: 'chest', name: 'Chest', connectionId: 'loc1', attributes: {} },
+        { id: 'coin', name: 'Coin', connectionId: 'chest', attributes: {} },
+        { id: 'sword', name: 'Sword', connectionId: 'p1', attributes: {} },
+        { id: 'lamp', name: 'Lamp', connectionId: 'loc2', attributes: {} }
+      ]
+    });
+    const npcTools = getNpcTools(state.npcs[0], [setAttributeTool, moveObjectTool, deleteAttributeTool]);
+    expect(npcTools.map(t => t.definition.name)).toEqual(['set_attribute', 'move_object']);
+
+    const call = (name: string, args: any) => applyToolCall(state, name, args, npcTools);
+
+    // Монета из сундука в локации — передать игроку рядом
+    const given = call('move_object', { objectId: 'coin', targetId: 'p1' });
+    expect(given.result).not.toMatch(/^Ошибка/);
+    expect(given.newState.objects.find(o => o.id === 'coin')?.connectionId).toBe('p1');
+
+    // Вещь игрока и предмет в чужой локации недоступны
+    expect(call('move_object', { objectId: 'sword', targetId: 'npc1' }).result).toMatch(/^Ошибка: NPC "Guard" может перемещать только свои объекты/);
+    expect(call('move_object', { objectId: 'lamp', targetId: 'loc1' }).result).toMatch(/^Ошибка/);
+    expect(call('move_object', { objectId: 'coin', targetId: 'loc2' }).result).toMatch(/^Ошибка: NPC "Guard" может передать объект только/);
+
+    const setMoodOf = (entityType: string, entityId: string) =>
+      call('set_attribute', { entityType, entityId, attributeName: 'mood', value: 'тревожно' }).result;
+    expect(setMoodOf('npc', 'npc1')).not.toMatch(/^Ошибка/);
+    expect(setMoodOf('location', 'loc1')).not.toMatch(/^Ошибка/);
+    expect(setMoodOf('object', 'coin')).not.toMatch(/^Ошибка/);
+    for (const [entityType, entityId] of [['npc', 'npc2'], ['player', 'p1'], ['location', 'loc2'], ['object', 'sword']]) {
+      expect(setMoodOf(entityType, entityId)).toMatch(/^Ошибка: NPC "Guard" может менять атрибуты только/);
+    }
+  });
+});
+
+describe('applyToolCall - синхронизация inventory', () => {
+  test('inventory игрока следует за connectionId объектов после любого инструмента', () => {
+    const state = createTestState({
+      objects: [{ id: 'o1', name: 'Key', connectionId: 'loc1', attributes: {} }]
+    });
+
+    const pickedUp = applyToolCall(state, 'move_object', { objectId: 'o1', targetId: 'p1' }, [moveObjectTool]);
+    expect(pickedUp.newState.players[0].inventory).toEqual(['o1']);
+
+    const dropped = applyToolCall(pickedUp.newState, 'move_object', { objectId: 'o1', targetId: 'loc1' }, [moveObjectTool]);
+    expect(dropped.newState.players[0].inventory).toEqual([]);
+  });
+});
@@ -1,8 +1,12 @@
-import { GoogleGenAI, Tool, Content, Part } from "@google/genai";
-import { GameState, SimulationResult, ToolCallLog, GameTool, AISettings, DEFAULT_AI_SETTINGS, TokenUsage, CostInfo, TurnHistory, GeminiApiResponse } from "../types";
+import { FunctionDeclaration } from "@google/genai";
+import { GameState, NpcData, SimulationResult, NarrativeResult, ToolCallLog, GameTool, AISettings, DEFAULT_AI_SETTINGS, TokenUsage, CostInfo, TurnHistory } from "../types";
 import { DEFAULT_SYSTEM_PROMPT, DEFAULT_NARRATIVE_PROMPT } from "../prompts/systemPrompts";
-import { normalizeState } from "../utils/gameUtils";
+import { EntityIdSource, normalizeState, withEntityIdSource } from "../utils/gameUtils";
+import { formatWorldTime } from "../utils/worldClock";
 import { withRetry } from "../utils/retry";
+import { applyToolCall, getNpcTools, hasNpcTools } from "./toolExecution";
+import { LLMProvider, LLMMessage, LLMMessagePart, LLMRequest, LLMResponse } from "./providers/types";
+import { createProviderFromSettings } from "./providers";
 
 // Cache for system prompts to avoid re-generating identical prompts
 // Key: hash of relevant state + settings + isFinalNarrative
@@ -50,23 +54,6 @@ const MODEL_PRICING: Record<string, { input: number; output: number }> = {
   'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
 };
 
-// Функция для извлечения информации о токенах из ответа API
-const extractTokenUsage = (response: GeminiApiResponse): TokenUsage | null => {
-  try {
-    const usageMetadata = response?.usageMetadata;
-    if (!usageMetadata) return null;
-
-    return {
-      promptTokens: usageMetadata.promptTokenCount || 0,
-      candidatesTokens: usageMetadata.candidatesTokenCount || 0,
-      totalTokens: usageMetadata.totalTokenCount || 0,
-    };
-  } catch (e) {
-    console.warn("[Service] Could not extract token usage:", e);
-    return null;
-  }
-};
-
 // Функция для расчета стоимости на основе модели и токенов
 const calculateCost = (tokenUsage: TokenUsage, modelId: string): CostInfo | null => {
   const pricing = MODEL_PRICING[modelId];
@@ -87,95 +74,17 @@ const calculateCost = (tokenUsage: TokenUsage, modelId: string): CostInfo | null
   };
 };
 
-// ============================================================================
-// БЕЗОПАСНЫЕ ХЕЛПЕРЫ ДЛЯ РАБОТЫ С ОТВЕТАМИ GEMINI API
-// ============================================================================
-// Единая точка доступа к структуре ответа API с валидацией
-// Это предотвращает ошибки "Cannot read properties of undefined"
-
-interface ResponseContentData {
-  content: Content;
-  parts: Part[];
-}
-
-/**
- * Безопасно извлекает content и parts из ответа Gemini API
- * @returns { content, parts } или null, если структура невалидна
- */
-const getResponseContent = (response: GeminiApiResponse): ResponseContentData | null => {
-  if (!response?.candidates || !Array.isArray(response.candidates) || response.candidates.length === 0) {
-    return null;
-  }
-
-  const candidate = response.candidates[0];
-  if (!candidate?.content) {
-    return null;
+// Объединяет стоимость симуляции и нарратива
+const combineCost = (simulationCost: CostInfo | null, narrativeCost: CostInfo | null): CostInfo | undefined => {
+  if (simulationCost && narrativeCost) {
+    return {
+      inputCost: simulationCost.inputCost + narrativeCost.inputCost,
+      outputCost: simulationCost.outputCost + narrativeCost.outputCost,
+      totalCost: simulationCost.totalCost + narrativeCost.totalCost,
+      model: `${simulationCost.model} + ${narrativeCost.model}`,
+    };
   }
-
-  const parts = candidate.content.parts || [];
-  return {
-    content: candidate.content,
-    parts
-  };
-};
-
-/**
- * Безопасно извлекает tool calls из ответа
- * @returns массив function calls или пустой массив
- */
-const getToolCalls = (response: GeminiApiResponse): Array<{ name: string; id: string; args: any }> => {
-  const contentData = getResponseContent(response);
-  if (!contentData) return [];
-
-  return contentData.parts
-    .filter(p => p.functionCall)
-    .map(p => ({
-      name: p.functionCall!.name || 'unknown',
-      id: "call_" + Math.random().toString(36).substr(2, 9), // Google GenAI types might miss ID in strict mode? Or generic check.
-      args: p.functionCall!.args || {}
-    }));
-};
-
-/**
- * Безопасно извлекает текстовые части из ответа
- * @param excludeThoughts - исключить части с thought: true и thinking-подобные тексты
- * @returns массив текстовых строк
- */
-const getTextParts = (response: GeminiApiResponse, excludeThoughts: boolean = false): string[] => {
-  const contentData = getResponseContent(response);
-  if (!contentData) return [];
-
-  return contentData.parts
-    .filter(p => {
-      if (!p.text) return false;
-      if (excludeThoughts && p.thought === true) return false;
-      if (excludeThoughts) {
-        const text = p.text.trim();
-        if (text.startsWith('**Analysis') ||
-          text.startsWith('**Thinking') ||
-          text.startsWith('**Okay') ||
-          text.startsWith('Okay,')) {
-          return false;
-        }
-      }
-      return true;
-    })
-    .map(p => p.text!)
-    .filter(Boolean);
-};
-
-/**
- * Безопасно извлекает thinking части из ответа
- * @returns массив текстов thinking
- */
-const getThoughtParts = (response: GeminiApiResponse): string[] => {
-  const contentData = getResponseContent(response);
-  if (!contentData) return [];
-
-  return contentData.parts
-    .filter(p => p.thought === true && p.text)
-    .map(p => p.text!)
-    .filter(Boolean);
+  return simulationCost || narrativeCost || undefined;
 };
 
 /**
@@ -226,9 +135,9 @@ const parseSystemInstruction = (systemInstruction: string): {
  */
 const createMarkedPromptLog = (
   systemInstruction: string,
-  tools: Tool[],
+  tools: FunctionDeclaration[],
   userPrompt: string,
-  conversationHistory?: Content[],
+  conversationHistory?: LLMMessage[],
   settings?: {
     temperature?: number;
     modelId?: string;
@@ -298,9 +207,8 @@ const createMarkedPromptLog = (
 
   // Описание инструментов
   log += `${MARKER_START}BLOCK:TOOLS${MARKER_END}\n`;
-  if (tools.length > 0 && tools[0].functionDeclarations) {
-    const toolDefs = tools[0].functionDeclarations;
-    toolDefs.forEach((tool, index) => {
+  if (tools.length > 0) {
+    tools.forEach((tool, index) => {
       log += `${MARKER_START}SUBBLOCK:TOOL_${index + 1}${MARKER_END}\n`;
       log += `Имя: ${tool.name}\n`;
       log += `Описание: ${tool.description || '(нет описания)'}\n`;
@@ -322,14 +230,14 @@ const createMarkedPromptLog = (
       log += `Роль: ${content.role}\n`;
       if (content.parts && content.parts.length > 0) {
         content.parts.forEach((part, partIndex) => {
-          if (part.text) {
+          if ('text' in part && part.text) {
             log += `[Часть ${partIndex + 1} - Текст]\n${part.text}\n`;
           }
-          if (part.functionCall) {
-            log += `[Часть ${partIndex + 1} - Вызов функции]\n${JSON.stringify(part.functionCall, null, 2)}\n`;
+          if ('toolCall' in part) {
+            log += `[Часть ${partIndex + 1} - Вызов функции]\n${JSON.stringify(part.toolCall, null, 2)}\n`;
           }
-          if (part.functionResponse) {
-            log += `[Часть ${partIndex + 1} - Ответ функции]\n${JSON.stringify(part.functionResponse, null, 2)}\n`;
+          if ('toolResult' in part) {
+            log += `[Часть ${partIndex + 1} - Ответ функции]\n${JSON.stringify(part.toolResult, null, 2)}\n`;
           }
         });
       }
@@ -464,7 +372,7 @@ export const parseMarkedPromptLog = (markedLog: string): {
   systemInstruction?: string;
   tools?: any[];
   userPrompt?: string;
-  conversationHistory?: Content[];
+  conversationHistory?: LLMMessage[];
   settings?: any;
 } => {
   const result: any = {};
@@ -586,189 +494,898 @@ export const parseMarkedPromptLog = (markedLog: string): {
   return result;
 };
 
-export const processGameTurn = async (
-  currentState: GameState,
-  userPrompt: string,
-  enabledTools: GameTool[],
-  settings: AISettings = DEFAULT_AI_SETTINGS,
-  history: TurnHistory[] = []
-): Promise<SimulationResult> => {
-  console.log("[Service] Starting processGameTurn...");
-  console.log("[Service] History received:", {
-    historyLength: history.length,
-    history: history.map(h => ({ turn: h.turn, userPrompt: h.userPrompt.substring(0, 50) + '...' }))
-  });
+// Оптимизация: создаем компактное состояние только с релевантными данными
+// Это значительно снижает расход токенов при каждом шаге
+const getRelevantState = (state: GameState, settings: AISettings): GameState => {
+  const normalizedState = normalizeState(state);
 
-  try {
-    // Safer API Key Check
-    let apiKey = '';
-    try {
-      if (typeof process !== 'undefined' && process.env && process.env.API_KEY) {
-        apiKey = process.env.API_KEY;
+  // Если игроков нет, возвращаем полное состояние (на всякий случай)
+  if (normalizedState.players.length === 0) {
+    console.log("[Service] No players found, returning full state");
+    return normalizedState;
+  }
+
+  // В симуляции передаём ВСЕХ игроков полностью (исходная архитектура: общий ход и общий ответ)
+  const players = normalizedState.players;
+
+  // Локации, где находятся игроки (полные, с описанием/ситуацией)
+  const playerLocationIds = Array.from(
+    new Set(players.map(p => p.locationId).filter(Boolean))
+  );
+  const playerLocations = normalizedState.locations.filter(l => playerLocationIds.includes(l.id));
+
+  // Если хоть одна локация игрока не найдена — безопасно откатываемся на полное состояние
+  if (playerLocations.length !== playerLocationIds.length) {
+    console.warn("[Service] One or more player locations not found, returning full state");
+    return normalizedState;
+  }
+
+  // Соседние локации (для навигации/доступных переходов)
+  // Учитываем как прямые связи из локаций игроков, так и обратные (bidirectional)
+  const connectedLocationIds = new Set<string>();
+  for (const loc of playerLocations) {
+    loc.connections.forEach(conn => connectedLocationIds.add(conn.targetLocationId));
+  }
+  // Также проверяем обратные связи: если какая-то локация связана с локацией игрока,
+  // она должна считаться соседней (для bidirectional connections)
+  for (const loc of normalizedState.locations) {
+    if (!playerLocationIds.includes(loc.id)) {
+      // Проверяем, есть ли связь от этой локации к локации игрока
+      const hasConnectionToPlayerLocation = loc.connections.some(conn => 
+        playerLocationIds.includes(conn.targetLocationId) && 
+        (conn.type === 'bidirectional' || conn.type === 'in' || conn.type === 'out')
+      );
+      if (hasConnectionToPlayerLocation) {
+        connectedLocationIds.add(loc.id);
       }
-    } catch (e) {
-      console.error("Error accessing process.env", e);
     }
+  }
+  // Не включаем локации игроков как "соседние"
+  for (const id of playerLocationIds) connectedLocationIds.delete(id);
+
+  // Компактные версии соседних локаций (без описаний/ситуации/атрибутов)
+  const connectedLocations = normalizedState.locations
+    .filter(loc => connectedLocationIds.has(loc.id))
+    .map(loc => ({
+      id: loc.id,
+      name: loc.name,
+      description: "", // экономия токенов
+      currentSituation: "", // экономия токенов
+      state: loc.state, // важно для навигации, например "locked"
+      connections: loc.connections,
+      attributes: {} // экономия токенов
+    }));
+
+  // Релевантные локации для объектов:
+  // - локации игроков (полные)
+  // - соседние локации (для контекста и осознанного перемещения)
+  const includeConnectedLocationObjects = !!settings.includeConnectedLocationObjects;
+  const compactConnectedLocationObjects = !!settings.compactConnectedLocationObjects;
+  const relevantLocationIdsForObjects = new Set<string>(playerLocationIds);
+  if (includeConnectedLocationObjects) {
+    Array.from(connectedLocationIds).forEach(id => relevantLocationIdsForObjects.add(id));
+  }
+
+  // Собираем релевантные объекты:
+  // - объекты в релевантных локациях (локации игроков + соседние)
+  // - объекты "у игроков" (инвентарь/контейнеры на игроке)
+  const relevantObjectIds = new Set<string>();
+  // Множество объектов, которые относятся к "соседнему" контексту (для компактного режима)
+  const connectedContextObjectIds = new Set<string>();
+
+  normalizedState.objects
+    .filter(obj => relevantLocationIdsForObjects.has(obj.connectionId))
+    .forEach(obj => {
+      relevantObjectIds.add(obj.id);
+      if (connectedLocationIds.has(obj.connectionId)) {
+        connectedContextObjectIds.add(obj.id);
+      }
+    });
 
-    if (!apiKey) {
+  normalizedState.objects
+    .filter(obj => players.some(p => p.id === obj.connectionId))
+    .forEach(obj => relevantObjectIds.add(obj.id));
+
+  // NPC в локациях игроков и соседних (могут подойти или быть замечены) и их вещи
+  const npcs = normalizedState.npcs.filter(n =>
+    playerLocationIds.includes(n.locationId) || connectedLocationIds.has(n.locationId)
+  );
+  normalizedState.objects
+    .filter(obj => npcs.some(n => n.id === obj.connectionId))
+    .forEach(obj => relevantObjectIds.add(obj.id));
+
+  // Рекурсивно находим объекты внутри релевантных объектов (контейнеры)
+  const findNestedObjects = (parentId: string) => {
+    normalizedState.objects
+      .filter(obj => obj.connectionId === parentId)
+      .forEach(obj => {
+        if (!relevantObjectIds.has(obj.id)) {
+          relevantObjectIds.add(obj.id);
+          // Если родительский объект относится к "соседнему" контексту — наследуем это для вложенных
+          if (connectedContextObjectIds.has(parentId)) {
+            connectedContextObjectIds.add(obj.id);
+          }
+          findNestedObjects(obj.id);
+        }
+      });
+  };
+  Array.from(relevantObjectIds).forEach(objId => findNestedObjects(objId));
+
+  const relevantObjectsRaw = normalizedState.objects.filter(obj => relevantObjectIds.has(obj.id));
+
+  // Компактируем объекты из соседних локаций (и вложенные в них), если включено
+  const relevantObjects = (!includeConnectedLocationObjects || !compactConnectedLocationObjects)
+    ? relevantObjectsRaw
+    : relevantObjectsRaw.map(obj => {
+      if (!connectedContextObjectIds.has(obj.id)) return obj;
       return {
-        narrative: "КРИТИЧЕСКАЯ ОШИБКА: API_KEY отсутствует. Приложение не может связаться с Google Gemini. Убедитесь, что 'process.env.API_KEY' доступен.",
-        toolLogs: [],
-        newState: currentState
+        ...obj,
+        description: "",
+        attributes: {}
       };
-    }
+    });
 
-    const ai = new GoogleGenAI({ apiKey: apiKey });
+  return {
+    world: normalizedState.world,
+    // Полные локации игроков + компактные соседние
+    locations: [...playerLocations, ...connectedLocations],
+    players,
+    npcs,
+    objects: relevantObjects,
+    // Время суток (фаза в clock.phase) и ожидающие временные эффекты
+    clock: normalizedState.clock
+  };
+};
 
-    // Construct dynamic tool definitions for Gemini
-    const toolDefinitions = enabledTools.map(t => t.definition);
-    const geminiTools: Tool[] = toolDefinitions.length > 0 ? [{ functionDeclarations: toolDefinitions }] : [];
+// [IMPROVEMENT Item 9] Memoization for system instruction
+const createSystemInstruction = (
+  state: GameState,
+  isFinalNarrative: boolean,
+  settings: AISettings,
+  history: TurnHistory[]
+): string => {
+  // Create a cache key based on optimization strategy and override settings
+  // We don't hash the entire state here yet because we need to normalize/optimize it first
+  // But we can check if we just generated this prompt in the same turn for the same phase
+
+  // Optimization: we move the cache check INSIDE after we decided on stateToUse, 
+  // OR we just cache the heavy stringification part.
+  // Let's cache the FINAL string.
+
+  // Для финального нарратива используем полное состояние (нужно для разметки всех объектов)
+  // Для симуляции используем оптимизированное состояние
+  let stateToUse: GameState;
+  if (isFinalNarrative) {
+    stateToUse = normalizeState(state);
+  } else {
+    const fullState = normalizeState(state);
+    const relevantState = getRelevantState(state, settings);
+    // ... logging code ...
+    stateToUse = relevantState;
+  }
+  const normalizedState = normalizeState(stateToUse);
+
+  const promptOverride = isFinalNarrative ? settings.narrativePromptOverride : settings.systemPromptOverride;
+  const historySummary = history.length > 0 ? history[history.length - 1].narrative.substring(0, 50) : 'none'; // Weak hash for history change
+  const cacheKey = hashString(JSON.stringify(normalizedState) + isFinalNarrative + (promptOverride || '') + historySummary);
 
-    // Оптимизация: создаем компактное состояние только с релевантными данными
-    // Это значительно снижает расход токенов при каждом шаге
-    const getRelevantState = (state: GameState): GameState => {
-      const normalizedState = normalizeState(state);
+  if (promptCache.has(cacheKey)) {
+    console.log(`[Service] ⚡ Using cached system instruction (key: ${cacheKey.substring(0, 8)}...)`);
+    return promptCache.get(cacheKey)!;
+  }
 
-      // Если игроков нет, возвращаем полное состояние (на всякий случай)
-      if (normalizedState.players.length === 0) {
-        console.log("[Service] No players found, returning full state");
-        return normalizedState;
+  // [IMPROVEMENT Item 4] Добавляем контекст текущей локации для нарратива
+  // Это помогает модели описывать атмосферу и окружение, даже если явно не запрашивалось
+  let locationContext = '';
+  if (isFinalNarrative && normalizedState.players.length > 0) {
+    const player = normalizedState.players[0];
+    const playerLocation = normalizedState.locations.find(l => l.id === player.locationId);
+    if (playerLocation) {
+      locationContext = `\n\nТЕКУЩАЯ ЛОКАЦИЯ (ГДЕ НАХОДИТСЯ ИГРОК):\nНазвание: ${playerLocation.name}\nОписание: ${playerLocation.description}\nТекущая ситуация/Атмосфера: ${playerLocation.currentSituation || 'Без особенностей'}`;
+      if (normalizedState.clock) {
+        locationContext += `\nВремя: ${formatWorldTime(normalizedState.clock)}`;
       }
+    }
+  }
 
-      // В симуляции передаём ВСЕХ игроков полностью (исходная архитектура: общий ход и общий ответ)
-      const players = normalizedState.players;
+  // Для нарратива и симуляции используем то, что указано в пресете или поле,
+  // с fallback на DEFAULT_*_PROMPT если override не задан
+  let basePrompt: string;
+  let promptSource: string;
+
+  if (isFinalNarrative) {
+    // Для нарратива: используем override если задан и не пустой, иначе fallback на DEFAULT_NARRATIVE_PROMPT
+    if (settings.narrativePromptOverride !== undefined &&
+      settings.narrativePromptOverride !== null &&
+      settings.narrativePromptOverride.trim() !== '') {
+      basePrompt = settings.narrativePromptOverride;
+      promptSource = 'narrativePromptOverride (custom)';
+    } else {
+      // Fallback на DEFAULT_NARRATIVE_PROMPT если override не задан или пустой
+      basePrompt = DEFAULT_NARRATIVE_PROMPT;
+      promptSource = 'DEFAULT_NARRATIVE_PROMPT (fallback)';
+    }
+    console.log(`[Service] 🎭 Using narrative prompt: ${promptSource}`);
+  } else {
+    // Для симуляции: используем override если задан и не пустой, иначе fallback на DEFAULT_SYSTEM_PROMPT
+    if (settings.systemPromptOverride !== undefined &&
+      settings.systemPromptOverride !== null &&
+      settings.systemPromptOverride.trim() !== '') {
+      basePrompt = settings.systemPromptOverride;
+      promptSource = 'systemPromptOverride (custom)';
+    } else {
+      // Fallback на DEFAULT_SYSTEM_PROMPT если override не задан или пустой
+      basePrompt = DEFAULT_SYSTEM_PROMPT;
+      promptSource = 'DEFAULT_SYSTEM_PROMPT (fallback)';
+    }
+    console.log(`[Service] ⚙️ Using simulation prompt: ${promptSource}`);
+  }
 
-      // Локации, где находятся игроки (полные, с описанием/ситуацией)
-      const playerLocationIds = Array.from(
-        new Set(players.map(p => p.locationId).filter(Boolean))
-      );
-      const playerLocations = normalizedState.locations.filter(l => playerLocationIds.includes(l.id));
+  // Формируем историю для промпта (это контекст, не часть системного промпта)
+  let historySection = '';
+  if (history.length > 0) {
+    const recentHistory = history.slice(-3); // Последние 3 хода
+    console.log(`[Service] Adding history to prompt: ${recentHistory.length} turns (out of ${history.length} total)`);
+
+    if (isFinalNarrative) {
+      // Для нарратора - передаём ТОЛЬКО нарративы предыдущих ходов для стилистической связности
+      // Не передаем toolLogs - это техническая информация, которая может испортить стиль
+      const formatTurnForNarrative = (turn: TurnHistory) => {
+        return `Ход ${turn.turn}:\nНарратив: "${turn.narrative}"`;
+    };
 
-      // Если хоть одна локация игрока не найдена — безопасно откатываемся на полное состояние
-      if (playerLocations.length !== playerLocationIds.length) {
-        console.warn("[Service] One or more player locations not found, returning full state");
-        return normalizedState;
-      }
+      historySection = `\n\nИСТОРИЯ ПОСЛЕДНИХ ХОДОВ (для стилистической связности):\n${recentHistory.map(formatTurnForNarrative).join('\n\n---\n\n')}\n`;
+    } else {
+      // Для симуляции - передаём ТОЛЬКО вызовы инструментов (toolLogs), без нарратива
+      const formatTurnForSimulation = (turn: TurnHistory) => {
+        if (!turn.toolLogs || turn.toolLogs.length === 0) {
+          return `Ход ${turn.turn}:\nИгрок: "${turn.userPrompt}"\nДействия: (нет действий)`;
+        }
+        
+        // Форматируем только toolLogs с аргументами и результатами
+        const toolCalls = turn.toolLogs.map(t => {
+          const argsStr = JSON.stringify(t.args, null, 2);
+          const rollbackMark = t.rolledBack ? ' (откачено)' : '';
+          const npcMark = t.npcId ? ` (ход NPC ${t.npcId})` : '';
+          return `- [${t.name}]${npcMark}${rollbackMark} Аргументы: ${argsStr}\n  Результат: ${t.result}`;
+        }).join('\n\n');
+        
+        return `Ход ${turn.turn}:\nИгрок: "${turn.userPrompt}"\nВызовы инструментов:\n${toolCalls}`;
+      };
+      
+      historySection = `\n\nИСТОРИЯ ПОСЛЕДНИХ ХОДОВ (вызовы инструментов):\n${recentHistory.map(formatTurnForSimulation).join('\n\n---\n\n')}\n`;
+    }
+  } else {
+    console.log("[Service] No history available for this turn");
+  }
+
+  // basePrompt - это ровно то, что указано в системном промпте (поле или пресет)
+  // JSON состояния и история - это контекст, который добавляется отдельно
+  const baseInstruction = `${basePrompt}
+
+ТЕКУЩЕЕ СОСТОЯНИЕ МИРА (JSON):
+${JSON.stringify(normalizedState, null, 2)}${locationContext}${historySection}`;
+
+  // [IMPROVEMENT Item 9] Caching logic
+  // Store result in cache
+  if (promptCache.size >= MAX_CACHE_SIZE) {
+    // Simple LRU: delete first key (oldest insertion)
+    const firstKey = promptCache.keys().next().value;
+    if (firstKey) promptCache.delete(firstKey);
+  }
+  promptCache.set(cacheKey, baseInstruction);
+
+  return baseInstruction;
+};
+
+/**
+ * Вызовы провайдера с таймаутом и поддержкой отмены (общие для симуляции и нарратива)
+ */
+const createLLMCaller = (llm: LLMProvider, signal?: AbortSignal) => {
+  /**
+   * Выполняет вызов провайдера с таймаутом и поддержкой отмены.
+   * Каждая попытка получает свой AbortController: его прерывает и таймаут,
+   * и внешний signal — так зависший запрос действительно обрывается, а не
+   * продолжает выполняться в фоне. resetTimeout перезапускает отсчёт (для потока).
+   */
+  const callWithTimeout = <T>(
+    run: (callSignal: AbortSignal, resetTimeout: () => void) => Promise<T>,
+    timeoutMessage: string
+  ): Promise<T> => new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
 
-      // Соседние локации (для навигации/доступных переходов)
-      // Учитываем как прямые связи из локаций игроков, так и обратные (bidirectional)
-      const connectedLocationIds = new Set<string>();
-      for (const loc of playerLocations) {
-        loc.connections.forEach(conn => connectedLocationIds.add(conn.targetLocationId));
+    const controller = new AbortController();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const resetTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => {
+        const error = new Error(timeoutMessage);
+        controller.abort(error);
+        reject(error);
+      }, 30000); // 30s timeout
+    };
+    const onAbort = () => {
+      controller.abort(signal!.reason);
+      reject(signal!.reason);
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    resetTimeout();
+    run(controller.signal, resetTimeout)
+      .then(resolve, reject)
+      .finally(() => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+      });
+  });
+
+  // Первый запрос (Simulate) и итерации цикла
+  const generateWithTimeout = (request: LLMRequest): Promise<LLMResponse> => {
+    console.log(`[Service] 📡 Sending request to ${request.model}...`);
+    return callWithTimeout(
+      (callSignal) => llm.generate(request, { signal: callSignal }),
+      'Request timed out (30s limit)'
+    );
+  };
+
+  // Потоковый вариант: таймаут отсчитывается от последнего полученного фрагмента,
+  // а не от начала запроса — длинный нарратив может генерироваться дольше 30с
+  const streamWithTimeout = async (request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> => {
+    if (!llm.generateStream) {
+      const response = await generateWithTimeout(request);
+      onText(llm.getText(response, true).join(' '));
+      return response;
+    }
+
+    return callWithTimeout(
+      (callSignal, resetTimeout) => llm.generateStream!(request, (text) => {
+        resetTimeout();
+        onText(text);
+      }, { signal: callSignal }),
+      'Stream stalled (30s without data)'
+    );
+  };
+
+  return { generateWithTimeout, streamWithTimeout };
+};
+
+// Извлекает thoughts и отладочную информацию из ответа (в thinkingParts / debugInfo)
+const extractThoughts = (
+  llm: LLMProvider,
+  resp: LLMResponse,
+  thinkingParts: string[],
+  debugInfo: any,
+  isNarrative: boolean = false,
+  iteration?: number
+) => {
+  try {
+    if (!llm.getAssistantMessage(resp)) return;
+
+    const parts = llm.getParts(resp);
+    const prefix = isNarrative ? "🎭 Narrative" : "⚙️ Simulation";
+
+    // Для симуляции сохраняем информацию по каждой итерации
+    if (!isNarrative && iteration !== undefined) {
+      const iterationInfo = {
+        iteration,
+        responseStructure: {
+          totalParts: parts.length,
+          partTypes: parts.map((p: any) => ({
+            hasText: !!p.text,
+            hasThought: p.thought === true,
+            hasFunctionCall: !!p.functionCall,
+            textLength: p.text?.length || 0
+          }))
+        },
+        functionCallsCount: parts.filter((p: any) => p.functionCall).length,
+        allParts: parts.map((p: any, idx: number) => {
+          let type: 'text' | 'thought' | 'functionCall' | 'empty' | 'unknown' = 'unknown';
+          let content = '';
+          let details: string[] = []; // Дополнительная информация о части
+
+          if (p.thought === true && p.text) {
+            type = 'thought';
+            content = p.text;
+            details.push('thinking mode');
+          } else if (p.text) {
+            type = 'text';
+            content = p.text;
+          } else if (p.functionCall) {
+            type = 'functionCall';
+            content = JSON.stringify({
+              name: p.functionCall.name,
+              id: p.functionCall.id,
+              args: p.functionCall.args
+            }, null, 2);
+            details.push(`tool: ${p.functionCall.name}`);
+          } else {
+            // Детальная диагностика пустой части
+            const hasFields = Object.keys(p).filter(k => k !== 'text' && k !== 'functionCall' && k !== 'thought');
+            if (hasFields.length === 0) {
+              type = 'empty';
+              details.push('нет данных');
+            } else {
+              type = 'unknown';
+              details.push(`поля: ${hasFields.join(', ')}`);
+              content = JSON.stringify(p, null, 2);
+            }
+          }
+
+          return {
+            type,
+            content,
+            length: content.length,
+            details: details.join(', ') // Дополнительная информация
+          };
+        })
+      };
+
+      debugInfo.iterations.push(iterationInfo);
+
+      // Обновляем общую информацию (берем последнюю итерацию с данными)
+      if (parts.length > 0) {
+        debugInfo.responseStructure = iterationInfo.responseStructure;
+        debugInfo.functionCallsCount = iterationInfo.functionCallsCount;
+        debugInfo.allParts = iterationInfo.allParts;
       }
-      // Также проверяем обратные связи: если какая-то локация связана с локацией игрока,
-      // она должна считаться соседней (для bidirectional connections)
-      for (const loc of normalizedState.locations) {
-        if (!playerLocationIds.includes(loc.id)) {
-          // Проверяем, есть ли связь от этой локации к локации игрока
-          const hasConnectionToPlayerLocation = loc.connections.some(conn => 
-            playerLocationIds.includes(conn.targetLocationId) && 
-            (conn.type === 'bidirectional' || conn.type === 'in' || conn.type === 'out')
-          );
-          if (hasConnectionToPlayerLocation) {
-            connectedLocationIds.add(loc.id);
+    } else {
+      // Для нарратива или первого запроса (без итерации)
+      debugInfo.responseStructure = {
+        totalParts: parts.length,
+        partTypes: parts.map((p: any) => ({
+          hasText: !!p.text,
+          hasThought: p.thought === true,
+          hasFunctionCall: !!p.functionCall,
+          textLength: p.text?.length || 0
+        }))
+      };
+
+      debugInfo.allParts = parts.map((p: any, idx: number) => {
+        let type: 'text' | 'thought' | 'functionCall' | 'empty' | 'unknown' = 'unknown';
+        let content = '';
+        let details: string[] = []; // Дополнительная информация о части
+
+        if (p.thought === true && p.text) {
+          type = 'thought';
+          content = p.text;
+          details.push('thinking mode');
+        } else if (p.text) {
+          type = 'text';
+          content = p.text;
+        } else if (p.functionCall) {
+          type = 'functionCall';
+          content = JSON.stringify({
+            name: p.functionCall.name,
+            id: p.functionCall.id,
+            args: p.functionCall.args
+          }, null, 2);
+          details.push(`tool: ${p.functionCall.name}`);
+        } else {
+          // Детальная диагностика пустой части
+          const hasFields = Object.keys(p).filter(k => k !== 'text' && k !== 'functionCall' && k !== 'thought');
+          if (hasFields.length === 0) {
+            type = 'empty';
+            details.push('нет данных');
+          } else {
+            type = 'unknown';
+            details.push(`поля: ${hasFields.join(', ')}`);
+            content = JSON.stringify(p, null, 2);
           }
         }
+
+        return {
+          type,
+          content,
+          length: content.length,
+          details: details.join(', ') // Дополнительная информация
+        };
+      });
+
+      const functionCalls = parts.filter((p: any) => p.functionCall);
+      debugInfo.functionCallsCount = functionCalls.length;
+    }
+
+    // Логируем для консоли
+    const functionCalls = parts.filter((p: any) => p.functionCall);
+    console.log(`[Service] ${prefix} Response structure:`, debugInfo.responseStructure);
+    if (functionCalls.length > 0 && !isNarrative) {
+      console.log(`[Service] ${prefix} Found ${functionCalls.length} function calls in response`);
+    }
+
+    // Извлекаем thinking части через хелпер
+    const thoughtTexts = llm.getThoughts(resp);
+    if (thoughtTexts.length > 0) {
+      const thoughts = thoughtTexts.join('\n');
+      if (thoughts) {
+        thinkingParts.push(thoughts);
+
+        console.log(`[Service] ✓ ${prefix} thinking extracted:`, thoughts.length, "chars");
+        if (thoughts.length > 500) {
+          console.log(`[Service] ${prefix} thinking preview:`, thoughts.substring(0, 500) + "...");
+        } else {
+          console.log(`[Service] ${prefix} thinking:`, thoughts);
+        }
       }
-      // Не включаем локации игроков как "соседние"
-      for (const id of playerLocationIds) connectedLocationIds.delete(id);
-
-      // Компактные версии соседних локаций (без описаний/ситуации/атрибутов)
-      const connectedLocations = normalizedState.locations
-        .filter(loc => connectedLocationIds.has(loc.id))
-        .map(loc => ({
-          id: loc.id,
-          name: loc.name,
-          description: "", // экономия токенов
-          currentSituation: "", // экономия токенов
-          state: loc.state, // важно для навигации, например "locked"
-          connections: loc.connections,
-          attributes: {} // экономия токенов
-        }));
-
-      // Релевантные локации для объектов:
-      // - локации игроков (полные)
-      // - соседние локации (для контекста и осознанного перемещения)
-      const includeConnectedLocationObjects = !!settings.includeConnectedLocationObjects;
-      const compactConnectedLocationObjects = !!settings.compactConnectedLocationObjects;
-      const relevantLocationIdsForObjects = new Set<string>(playerLocationIds);
-      if (includeConnectedLocationObjects) {
-        Array.from(connectedLocationIds).forEach(id => relevantLocationIdsForObjects.add(id));
-      }
+    } else {
+      console.log(`[Service] ⚠️ No thinking parts found in ${prefix.toLowerCase()} response`);
+      parts.forEach((p: any, idx: number) => {
+        if (p.text) {
+          console.log(`[Service] ${prefix} Part ${idx} (text, thought=${p.thought}):`, p.text.substring(0, 200));
+        }
+      });
+    }
+  } catch (e) {
+    console.warn("[Service] Could not extract thoughts:", e);
+  }
+};
 
-      // Собираем релевантные объекты:
-      // - объекты в релевантных локациях (локации игроков + соседние)
-      // - объекты "у игроков" (инвентарь/контейнеры на игроке)
-      const relevantObjectIds = new Set<string>();
-      // Множество объектов, которые относятся к "соседнему" контексту (для компактного режима)
-      const connectedContextObjectIds = new Set<string>();
+/**
+ * Параметры фазы нарратива
+ */
+interface NarrativePhaseParams {
+  state: GameState; // Состояние после хода
+  prevState: GameState; // Состояние до хода
+  userPrompt: string;
+  toolLogs: ToolCallLog[];
+  settings: AISettings;
+  history: TurnHistory[];
+  onNarrativeChunk?: (text: string) => void;
+  signal?: AbortSignal;
+}
 
-      normalizedState.objects
-        .filter(obj => relevantLocationIdsForObjects.has(obj.connectionId))
-        .forEach(obj => {
-          relevantObjectIds.add(obj.id);
-          if (connectedLocationIds.has(obj.connectionId)) {
-            connectedContextObjectIds.add(obj.id);
-          }
-        });
+/**
+ * Фаза нарратива: отдельный запрос без инструментов, со своими промптом,
+ * моделью и температурой. Общая для processGameTurn и generateNarrative.
+ */
+const runNarrativePhase = async (llm: LLMProvider, params: NarrativePhaseParams) => {
+  const { state, prevState, userPrompt, toolLogs, settings, history, onNarrativeChunk, signal } = params;
+  const { generateWithTimeout, streamWithTimeout } = createLLMCaller(llm, signal);
+  const thinkingParts: string[] = []; // Мысли модели во время генерации нарратива
+  const debugInfo: any = { allParts: [] }; // Техническая информация для нарратива
+  let narrative = "";
+
+  // Используем отдельные настройки для нарратива, если заданы
+  const narrativeModelId = settings.narrativeModelId || settings.modelId;
+  const narrativeTemperature = settings.narrativeTemperature ?? settings.temperature;
+  const narrativeThinkingBudget = settings.narrativeThinkingBudget ?? settings.thinkingBudget;
+
+  // Создаем системную инструкцию для нарратива
+  const narrativeSystemInstruction = createSystemInstruction(state, true, settings, history);
+
+  // Формируем список всех объектов, игроков и локаций для разметки.
+  // Удалённые за ход сущности (есть в prevState, нет в state) тоже доступны —
+  // иначе нарратор не сможет разметить, например, съеденное яблоко
+  const removedObjects = prevState.objects.filter(obj => !state.objects.some(o => o.id === obj.id));
+  const removedPlayers = prevState.players.filter(p => !state.players.some(current => current.id === p.id));
+  const objectsList = [
+    ...state.objects.map(obj => `- [object:${obj.id}:${obj.name}]`),
+    ...removedObjects.map(obj => `- [object:${obj.id}:${obj.name}] (удалён в этом ходу)`)
+  ].join('\n');
+  const playersList = [
+    ...state.players.map(p => `- [player:${p.id}:${p.name}]`),
+    ...removedPlayers.map(p => `- [player:${p.id}:${p.name}] (удалён в этом ходу)`)
+  ].join('\n');
+  const npcsList = state.npcs.map(n => `- [npc:${n.id}:${n.name}]`).join('\n');
+  const locationsList = state.locations.map(loc => `- [location:${loc.id}:${loc.name}]`).join('\n');
+
+  // Добавляем список объектов в системную инструкцию
+  const narrativeSystemInstructionWithObjects = `${narrativeSystemInstruction}
 
-      normalizedState.objects
-        .filter(obj => players.some(p => p.id === obj.connectionId))
-        .forEach(obj => relevantObjectIds.add(obj.id));
-
-      // Рекурсивно находим объекты внутри релевантных объектов (контейнеры)
-      const findNestedObjects = (parentId: string) => {
-        normalizedState.objects
-          .filter(obj => obj.connectionId === parentId)
-          .forEach(obj => {
-            if (!relevantObjectIds.has(obj.id)) {
-              relevantObjectIds.add(obj.id);
-              // Если родительский объект относится к "соседнему" контексту — наследуем это для вложенных
-              if (connectedContextObjectIds.has(parentId)) {
-                connectedContextObjectIds.add(obj.id);
-              }
-              findNestedObjects(obj.id);
-            }
-          });
-      };
-      Array.from(relevantObjectIds).forEach(objId => findNestedObjects(objId));
+ДОСТУПНЫЕ ОБЪЕКТЫ ДЛЯ РАЗМЕТКИ:
+${objectsList}
 
-      const relevantObjectsRaw = normalizedState.objects.filter(obj => relevantObjectIds.has(obj.id));
+ДОСТУПНЫЕ ИГРОКИ ДЛЯ РАЗМЕТКИ:
+${playersList}
+${npcsList ? `
+ДОСТУПНЫЕ NPC ДЛЯ РАЗМЕТКИ (формат [npc:ID:имя]):
+${npcsList}
+` : ''}
+ДОСТУПНЫЕ ЛОКАЦИИ ДЛЯ РАЗМЕТКИ:
+${locationsList}
 
-      // Компактируем объекты из соседних локаций (и вложенные в них), если включено
-      const relevantObjects = (!includeConnectedLocationObjects || !compactConnectedLocationObjects)
-        ? relevantObjectsRaw
-        : relevantObjectsRaw.map(obj => {
-          if (!connectedContextObjectIds.has(obj.id)) return obj;
-          return {
-            ...obj,
-            description: "",
-            attributes: {}
-          };
-        });
+ВАЖНО: ВСЕ упоминания объектов, игроков, NPC и локаций должны быть размечены форматом [type:ID:name].`;
+
+  // Формируем контекст для нарратива: что произошло (лог инструментов)
+  // Откаченные вызовы не произошли — нарратору их не передаём
+  const appliedToolLogs = toolLogs.filter(log => !log.rolledBack);
+  const hasToolActions = appliedToolLogs.length > 0;
+  const toolsSummary = hasToolActions
+    ? `\n\nЧто произошло:\n${appliedToolLogs.map(log => {
+        // Действия NPC из хода мира — отдельной строкой, чтобы нарратор не приписал их игроку
+        if (log.npcId) {
+          const npcName = state.npcs.find(n => n.id === log.npcId)?.name ?? log.npcId;
+          return `- Действие NPC "${npcName}": ${log.result}`;
+        }
+        // Форматируем как события для лучшей читаемости
+        if (log.name === 'move_object') {
+          return `- Объект перемещен: ${log.result}`;
+        } else if (log.name === 'create_object') {
+          return `- Создан объект: ${log.result}`;
+        } else if (log.name === 'delete_object') {
+          return `- Объект удален: ${log.result}`;
+        } else if (log.name === 'move_player') {
+          return `- Игрок перемещен: ${log.result}`;
+        } else if (log.name === 'create_player') {
+          return `- Появился персонаж: ${log.result}`;
+        } else if (log.name === 'remove_player') {
+          return `- Персонаж покинул игру: ${log.result}`;
+        } else if (log.name === 'modify_stat') {
+          return `- Изменена характеристика: ${log.result}`;
+        } else if (log.name === 'roll_check') {
+          return `- Проверка: ${log.result}`;
+        } else if (log.name === 'advance_time') {
+          return `- Прошло время: ${log.result}`;
+        } else if (log.name === 'move_npc') {
+          return `- NPC перемещен: ${log.result}`;
+        } else if (log.name === 'set_attribute') {
+          return `- Изменен атрибут: ${log.result}`;
+        } else if (log.name === 'delete_attribute') {
+          return `- Удален атрибут: ${log.result}`;
+        } else if (log.name === 'create_location') {
+          return `- Открыта локация: ${log.result}`;
+        } else if (log.name === 'connect_locations' || log.name === 'disconnect_locations') {
+          return `- Изменены проходы: ${log.result}`;
+        } else {
+          return `- ${log.name}: ${log.result}`;
+        }
+      }).join('\n')}`
+    : '';
+
+  // Не передаем thinking симуляции в нарратив - это внутренние рассуждения,
+  // которые могут испортить стиль нарратива и раскрыть механику игры
+  const simulationContext = '';
+
+  // Разная инструкция в зависимости от того, были ли действия
+  const narrativeInstruction = hasToolActions
+    ? 'Создай художественное описание того, что произошло в результате этих действий.'
+    : 'Создай художественное описание в ответ на запрос игрока. Опиши то, что он видит/слышит/чувствует, включая причины, почему действие не удалось (если применимо).';
+
+  // Создаем новый контекст для нарратива (без истории инструментов)
+  const narrativeContents: LLMMessage[] = [
+    {
+      role: 'user',
+      parts: [{
+        text: `${userPrompt}${toolsSummary}${simulationContext}\n\n${narrativeInstruction}`
+      }]
+    }
+  ];
+
+  // Логируем настройки нарратива для отладки
+  console.log("[Service] 🎭 Narrative Request Settings:", {
+    model: narrativeModelId,
+    temperature: narrativeTemperature,
+    thinkingBudget: narrativeThinkingBudget,
+    promptSource: settings.narrativePromptOverride ? 'custom' : 'default',
+    promptPreview: narrativeSystemInstruction.substring(0, 200) + '...',
+    toolsSummary: toolsSummary.substring(0, 200) + '...'
+  });
 
+  // Создаем размеченный лог для нарратива
+  const narrativeMarkedPromptLog = createMarkedNarrativeLog(
+    narrativeSystemInstructionWithObjects,
+    userPrompt,
+    toolsSummary,
+    simulationContext,
+    narrativeInstruction,
+    {
+      modelId: narrativeModelId,
+      temperature: narrativeTemperature,
+      thinkingBudget: narrativeThinkingBudget
+    }
+  );
+
+  // Final request (Narrative) with Retry and Timeout
+  const narrativeRequest: LLMRequest = {
+    model: narrativeModelId,
+    systemInstruction: narrativeSystemInstructionWithObjects,
+    messages: narrativeContents,
+    temperature: narrativeTemperature,
+    thinkingBudget: narrativeThinkingBudget,
+    includeThoughts: true,
+    // No tools
+  };
+  const finalResponse = await withRetry(async () => {
+    return onNarrativeChunk
+      ? await streamWithTimeout(narrativeRequest, onNarrativeChunk)
+      : await generateWithTimeout(narrativeRequest);
+  }, { maxRetries: 3, signal });
+
+  // Извлекаем мысли из финального ответа
+  console.log("[Service] 🎭 Extracting thoughts from narrative response...");
+  extractThoughts(llm, finalResponse, thinkingParts, debugInfo, true);
+
+  // Извлекаем информацию о токенах из финального ответа
+  const tokenUsage = llm.getUsage(finalResponse);
+
+  // Безопасно извлекаем текстовые части из финального ответа
+  const finalContentData = llm.getAssistantMessage(finalResponse);
+
+  if (finalContentData) {
+    const allParts = llm.getParts(finalResponse);
+
+    // Логируем все части для отладки
+    console.log("[Service] 🎭 Narrative response parts:", allParts.map((p: any, idx: number) => ({
+      idx,
+      hasText: !!p.text,
+      thought: p.thought,
+      textPreview: p.text?.substring(0, 100)
+    })));
+
+    // Извлекаем текстовые части (исключая thinking)
+    const textParts = llm.getText(finalResponse, true);
+    narrative = textParts.join(' ');
+
+    // Если narrative пустой, пробуем найти хоть что-то в parts без фильтрации thinking
+    if (!narrative) {
+      const allTextParts = llm.getText(finalResponse, false);
+      narrative = allTextParts.join(' ').trim();
+    }
+
+    console.log("[Service] 🎭 Narrative generated:", {
+      length: narrative.length,
+      wordCount: narrative.split(/\s+/).length,
+      preview: narrative.substring(0, 150) + (narrative.length > 150 ? '...' : '')
+    });
+  } else {
+    console.warn("[Service] 🎭 Не удалось извлечь содержимое финального ответа");
+    narrative = toolLogs.length > 0
+      ? "Действие обработано."
+      : "Ничего не произошло.";
+  }
+
+  // Fallback если нарратив пустой
+  if (!narrative) {
+    narrative = toolLogs.length > 0
+      ? "Действие обработано."
+      : "Ничего не произошло.";
+  }
+
+  return {
+    narrative,
+    thinkingParts,
+    debugInfo,
+    tokenUsage,
+    markedPromptLog: narrativeMarkedPromptLog,
+    modelId: narrativeModelId
+  };
+};
+
+// ============================================================================
+// ХОД МИРА (NPC)
+// ============================================================================
+// После действий игроков каждый NPC рядом с ними (в их локациях и соседних)
+// получает отдельный запрос к модели: свой промпт (цели, отношение, распорядок)
+// и урезанный набор инструментов. Включается настройкой AISettings.npcWorldTick.
+
+/**
+ * Системная инструкция для хода NPC: персонаж и состояние мира рядом с игроками
+ */
+const createNpcSystemInstruction = (npc: NpcData, state: GameState, settings: AISettings): string => {
+  const location = state.locations.find(l => l.id === npc.locationId);
+
+  return `Ты управляешь неигровым персонажем (NPC) в текстовой RPG. Реши, что этот персонаж делает прямо сейчас, и выполни это вызовами инструментов. Если персонаж ничего не делает — не вызывай инструменты.
+
+ЯЗЫК: Пиши на русском языке.
+
+ПЕРСОНАЖ:
+ID: ${npc.id}
+Имя: ${npc.name}
+Описание: ${npc.description || 'нет'}
+Цели: ${npc.goals || 'не заданы'}
+Отношение к игрокам: ${npc.disposition || 'нейтральное'}
+Распорядок: ${npc.schedule || 'не задан'}${state.clock ? `\nСейчас: ${formatWorldTime(state.clock)}` : ''}
+Состояние: ${npc.state}
+Текущая локация: ${location ? `${location.name} (${location.id})` : npc.locationId}
+
+ПРАВИЛА:
+- Действуй только от лица этого персонажа, исходя из его целей, отношения к игрокам и распорядка.
+- Не управляй игроками и другими NPC.
+- Перемещение — только move_npc с npcId "${npc.id}", по одному шагу в соседнюю локацию.
+- Объекты и атрибуты — только свои, своей текущей локации и лежащих в ней предметов. Отдать предмет можно игроку в той же локации.
+- Не больше одного-двух действий за ход.
+
+СОСТОЯНИЕ МИРА (рядом с игроками):
+${JSON.stringify(getRelevantState(state, settings), null, 2)}`;
+};
+
+/**
+ * Сообщение для хода NPC: что сделали игроки и что уже произошло в этом ходу
+ */
+const createNpcTurnPrompt = (userPrompt: string, toolLogs: ToolCallLog[]): string => {
+  const applied = toolLogs.filter(log => !log.rolledBack);
+  const events = applied.length > 0
+    ? applied.map(log => `- ${log.result}`).join('\n')
+    : '- ничего не изменилось';
+  return `Действие игроков в этом ходу: "${userPrompt}"\n\nЧто уже произошло:\n${events}\n\nЧто делает персонаж?`;
+};
+
+/**
+ * Результат инструмента — ошибка? Инструменты сообщают об ошибках строкой
+ * "Ошибка: ..." (сервис — "Ошибка валидации аргументов ...", "Ошибка выполнения: ...")
+ */
+export const isToolError = (result: string): boolean => /^ошибка/i.test(result.trim());
+
+/**
+ * Дополнительные параметры хода
+ */
+export interface TurnOptions {
+  // Провайдер LLM. По умолчанию выбирается по settings.providerId
+  // (Google Gemini с ключом из process.env.API_KEY или OpenAI-совместимый сервер)
+  provider?: LLMProvider;
+  // Потоковый нарратив: вызывается с накопленным текстом по мере генерации.
+  // Если провайдер не умеет стримить, вызывается один раз с готовым текстом.
+  onNarrativeChunk?: (text: string) => void;
+  // Отмена хода: прерывает текущий запрос к модели, повторы и оставшиеся итерации
+  signal?: AbortSignal;
+  // 'plan' — только симуляция: вызовы инструментов применяются к копии состояния
+  // и возвращаются как план (planOnly: true) без фазы нарратива
+  mode?: 'full' | 'plan';
+  // Источник ID сущностей, создаваемых инструментами за ход (по умолчанию — случайные).
+  // Кассеты подставляют свой, чтобы воспроизведение выдало те же ID, что и запись
+  entityIdSource?: EntityIdSource;
+}
+
+export const processGameTurn = async (
+  currentState: GameState,
+  userPrompt: string,
+  enabledTools: GameTool[],
+  settings: AISettings = DEFAULT_AI_SETTINGS,
+  history: TurnHistory[] = [],
+  options: TurnOptions = {}
+): Promise<SimulationResult> => {
+  if (options.entityIdSource) {
+    const { entityIdSource, ...rest } = options;
+    return withEntityIdSource(entityIdSource, () =>
+      processGameTurn(currentState, userPrompt, enabledTools, settings, history, rest)
+    );
+  }
+
+  console.log("[Service] Starting processGameTurn...");
+  console.log("[Service] History received:", {
+    historyLength: history.length,
+    history: history.map(h => ({ turn: h.turn, userPrompt: h.userPrompt.substring(0, 50) + '...' }))
+  });
+
+  // Логи инструментов объявлены вне try: при отмене хода они возвращаются как частичный результат
+  const toolLogs: ToolCallLog[] = [];
+
+  try {
+    // Провайдер из опций или по настройкам (для Gemini — с ключом из process.env.API_KEY)
+    const provider = options.provider || createProviderFromSettings(settings);
+
+    if (!provider) {
       return {
-        world: normalizedState.world,
-        // Полные локации игроков + компактные соседние
-        locations: [...playerLocations, ...connectedLocations],
-        players,
-        objects: relevantObjects
+        narrative: "КРИТИЧЕСКАЯ ОШИБКА: API_KEY отсутствует. Приложение не может связаться с Google Gemini. Убедитесь, что 'process.env.API_KEY' доступен.",
+        toolLogs: [],
+        newState: currentState
       };
-    };
+    }
+    const llm: LLMProvider = provider;
+    console.log(`[Service] Using LLM provider: ${llm.id}`);
+
+    // Определения инструментов в формате FunctionDeclaration (провайдер переводит их в формат своего API)
+    const toolDefinitions = enabledTools.map(t => t.definition);
+
 
     // Вынесенная функция для выполнения tool calls (устраняет дублирование кода)
+    // transactional: пакет вызовов одного ответа модели применяется атомарно —
+    // если хоть один вызов завершился ошибкой, всё состояние пакета откатывается
     const executeToolCalls = (
       calls: any[],
       state: GameState,
       tools: GameTool[],
       iteration: number,
-      resolveReferences: (args: any, results: Array<{ result: string; createdId?: string }>) => any
+      resolveReferences: (args: any, results: Array<{ result: string; createdId?: string }>) => any,
+      transactional: boolean = false
     ): {
       newState: GameState;
       logs: ToolCallLog[];
-      responseParts: Part[];
+      responseParts: LLMMessagePart[];
     } => {
-      const toolResponseParts: Part[] = [];
+      const toolResponseParts: LLMMessagePart[] = [];
       const logs: ToolCallLog[] = [];
       let newState = state;
       // Результаты вызовов в рамках ТЕКУЩЕЙ итерации (для подстановки ссылок $N.createdId)
@@ -783,33 +1400,10 @@ export const processGameTurn = async (
 
         console.log(`[Service] Executing tool: ${call.name}`, resolvedArgs);
 
-        const tool = tools.find(t => t.definition.name === call.name);
-
-        let executionResult = "Ошибка: Инструмент не найден или отключен.";
-        let createdId: string | undefined = undefined;
-
-        if (tool) {
-          // Валидация обязательных аргументов
-          const requiredParams = tool.definition.parameters?.required || [];
-          const missingParams = requiredParams.filter(param =>
-            resolvedArgs?.[param] === undefined || resolvedArgs?.[param] === null || resolvedArgs?.[param] === ''
-          );
-
-          if (missingParams.length > 0) {
-            executionResult = `Ошибка валидации: отсутствуют обязательные параметры: ${missingParams.join(', ')}`;
-            console.warn(`[Service] ⚠️ Validation failed for ${call.name}:`, missingParams);
-          } else {
-            try {
-              const execution = tool.apply(newState, resolvedArgs);
-              newState = execution.newState;
-              executionResult = execution.result;
-              createdId = execution.createdId;
-            } catch (e: any) {
-              executionResult = `Ошибка выполнения: ${e.message}`;
-              console.error(`[Service] ❌ Tool execution error for ${call.name}:`, e);
-            }
-          }
-        }
+        const execution = applyToolCall(newState, call.name, resolvedArgs, tools);
+        newState = execution.newState;
+        const executionResult = execution.result;
+        const createdId = execution.createdId;
 
         // Сохраняем результат для возможных ссылок из последующих вызовов
         callResults.push({ result: executionResult, createdId });
@@ -818,243 +1412,79 @@ export const processGameTurn = async (
           name: call.name,
           args: resolvedArgs,
           result: executionResult,
-          iteration: iteration
+          iteration: iteration,
+          ...(createdId ? { createdId } : {}),
+          ...(execution.roll ? { roll: execution.roll } : {})
         });
 
         toolResponseParts.push({
-          functionResponse: {
+          toolResult: {
             name: call.name,
             id: call.id,
-            response: { result: executionResult }
+            result: executionResult
           }
         });
       }
 
-      return { newState, logs, responseParts: toolResponseParts };
-    };
-
-    // [IMPROVEMENT Item 9] Memoization for system instruction
-    const createSystemInstruction = (state: GameState, isFinalNarrative: boolean = false) => {
-      // Create a cache key based on optimization strategy and override settings
-      // We don't hash the entire state here yet because we need to normalize/optimize it first
-      // But we can check if we just generated this prompt in the same turn for the same phase
-
-      // Optimization: we move the cache check INSIDE after we decided on stateToUse, 
-      // OR we just cache the heavy stringification part.
-      // Let's cache the FINAL string.
-
-      // Для финального нарратива используем полное состояние (нужно для разметки всех объектов)
-      // Для симуляции используем оптимизированное состояние
-      let stateToUse: GameState;
-      if (isFinalNarrative) {
-        stateToUse = normalizeState(state);
-      } else {
-        const fullState = normalizeState(state);
-        const relevantState = getRelevantState(state);
-        // ... logging code ...
-        stateToUse = relevantState;
-      }
-      const normalizedState = normalizeState(stateToUse);
-
-      const promptOverride = isFinalNarrative ? settings.narrativePromptOverride : settings.systemPromptOverride;
-      const historySummary = history.length > 0 ? history[history.length - 1].narrative.substring(0, 50) : 'none'; // Weak hash for history change
-      const cacheKey = hashString(JSON.stringify(normalizedState) + isFinalNarrative + (promptOverride || '') + historySummary);
-
-      if (promptCache.has(cacheKey)) {
-        console.log(`[Service] ⚡ Using cached system instruction (key: ${cacheKey.substring(0, 8)}...)`);
-        return promptCache.get(cacheKey)!;
-      }
-
-      // [IMPROVEMENT Item 4] Добавляем контекст текущей локации для нарратива
-      // Это помогает модели описывать атмосферу и окружение, даже если явно не запрашивалось
-      let locationContext = '';
-      if (isFinalNarrative && normalizedState.players.length > 0) {
-        const player = normalizedState.players[0];
-        const playerLocation = normalizedState.locations.find(l => l.id === player.locationId);
-        if (playerLocation) {
-          locationContext = `\n\nТЕКУЩАЯ ЛОКАЦИЯ (ГДЕ НАХОДИТСЯ ИГРОК):\nНазвание: ${playerLocation.name}\nОписание: ${playerLocation.description}\nТекущая ситуация/Атмосфера: ${playerLocation.currentSituation || 'Без особенностей'}`;
-        }
-      }
-
-      // Для нарратива и симуляции используем то, что указано в пресете или поле,
-      // с fallback на DEFAULT_*_PROMPT если override не задан
-      let basePrompt: string;
-      let promptSource: string;
-
-      if (isFinalNarrative) {
-        // Для нарратива: используем override если задан и не пустой, иначе fallback на DEFAULT_NARRATIVE_PROMPT
-        if (settings.narrativePromptOverride !== undefined &&
-          settings.narrativePromptOverride !== null &&
-          settings.narrativePromptOverride.trim() !== '') {
-          basePrompt = settings.narrativePromptOverride;
-          promptSource = 'narrativePromptOverride (custom)';
-        } else {
-          // Fallback на DEFAULT_NARRATIVE_PROMPT если override не задан или пустой
-          basePrompt = DEFAULT_NARRATIVE_PROMPT;
-          promptSource = 'DEFAULT_NARRATIVE_PROMPT (fallback)';
-        }
-        console.log(`[Service] 🎭 Using narrative prompt: ${promptSource}`);
-      } else {
-        // Для симуляции: используем override если задан и не пустой, иначе fallback на DEFAULT_SYSTEM_PROMPT
-        if (settings.systemPromptOverride !== undefined &&
-          settings.systemPromptOverride !== null &&
-          settings.systemPromptOverride.trim() !== '') {
-          basePrompt = settings.systemPromptOverride;
-          promptSource = 'systemPromptOverride (custom)';
-        } else {
-          // Fallback на DEFAULT_SYSTEM_PROMPT если override не задан или пустой
-          basePrompt = DEFAULT_SYSTEM_PROMPT;
-          promptSource = 'DEFAULT_SYSTEM_PROMPT (fallback)';
-        }
-        console.log(`[Service] ⚙️ Using simulation prompt: ${promptSource}`);
-      }
+      const failedIndexes = logs
+        .map((log, index) => (isToolError(log.result) ? index : -1))
+        .filter(index => index >= 0);
 
-      // Формируем историю для промпта (это контекст, не часть системного промпта)
-      let historySection = '';
-      if (history.length > 0) {
-        const recentHistory = history.slice(-3); // Последние 3 хода
-        console.log(`[Service] Adding history to prompt: ${recentHistory.length} turns (out of ${history.length} total)`);
-
-        if (isFinalNarrative) {
-          // Для нарратора - передаём ТОЛЬКО нарративы предыдущих ходов для стилистической связности
-          // Не передаем toolLogs - это техническая информация, которая может испортить стиль
-          const formatTurnForNarrative = (turn: TurnHistory) => {
-            return `Ход ${turn.turn}:\nНарратив: "${turn.narrative}"`;
-        };
+      if (transactional && failedIndexes.length > 0) {
+        console.warn(`[Service] ↩️ Rolling back batch of ${logs.length} calls (${failedIndexes.length} failed)`);
 
-          historySection = `\n\nИСТОРИЯ ПОСЛЕДНИХ ХОДОВ (для стилистической связности):\n${recentHistory.map(formatTurnForNarrative).join('\n\n---\n\n')}\n`;
-        } else {
-          // Для симуляции - передаём ТОЛЬКО вызовы инструментов (toolLogs), без нарратива
-          const formatTurnForSimulation = (turn: TurnHistory) => {
-            if (!turn.toolLogs || turn.toolLogs.length === 0) {
-              return `Ход ${turn.turn}:\nИгрок: "${turn.userPrompt}"\nДействия: (нет действий)`;
-            }
-            
-            // Форматируем только toolLogs с аргументами и результатами
-            const toolCalls = turn.toolLogs.map(t => {
-              const argsStr = JSON.stringify(t.args, null, 2);
-              return `- [${t.name}] Аргументы: ${argsStr}\n  Результат: ${t.result}`;
-            }).join('\n\n');
-            
-            return `Ход ${turn.turn}:\nИгрок: "${turn.userPrompt}"\nВызовы инструментов:\n${toolCalls}`;
-          };
-          
-          historySection = `\n\nИСТОРИЯ ПОСЛЕДНИХ ХОДОВ (вызовы инструментов):\n${recentHistory.map(formatTurnForSimulation).join('\n\n---\n\n')}\n`;
-        }
-      } else {
-        console.log("[Service] No history available for this turn");
-      }
+        logs.forEach(log => { log.rolledBack = true; });
 
-      // basePrompt - это ровно то, что указано в системном промпте (поле или пресет)
-      // JSON состояния и история - это контекст, который добавляется отдельно
-      const baseInstruction = `${basePrompt}
+        // Успешные вызовы тоже не применены — сообщаем модели об этом явно
+        toolResponseParts.forEach((part, index) => {
+          if ('toolResult' in part && !failedIndexes.includes(index)) {
+            part.toolResult.result = `Откачено (пакет не применён): ${part.toolResult.result}`;
+          }
+        });
 
-ТЕКУЩЕЕ СОСТОЯНИЕ МИРА (JSON):
-${JSON.stringify(normalizedState, null, 2)}${locationContext}${historySection}`;
+        const errorReport = failedIndexes
+          .map(index => `- #${index + 1} ${logs[index].name}: ${logs[index].result}`)
+          .join('\n');
+        toolResponseParts.push({
+          text: `ТРАНЗАКЦИЯ ОТМЕНЕНА: ${failedIndexes.length} из ${logs.length} вызовов завершились ошибкой, ` +
+            `все изменения этого шага откачены, состояние не изменилось.\n` +
+            `Ошибки:\n${errorReport}\n` +
+            `Исправь аргументы и повтори ВСЕ нужные вызовы шага заново.`
+        });
 
-      // [IMPROVEMENT Item 9] Caching logic
-      // Store result in cache
-      if (promptCache.size >= MAX_CACHE_SIZE) {
-        // Simple LRU: delete first key (oldest insertion)
-        const firstKey = promptCache.keys().next().value;
-        if (firstKey) promptCache.delete(firstKey);
+        return { newState: state, logs, responseParts: toolResponseParts };
       }
-      promptCache.set(cacheKey, baseInstruction);
 
-      return baseInstruction;
+      return { newState, logs, responseParts: toolResponseParts };
     };
 
+
     const modelId = settings.modelId;
 
-    console.log(`[Service] Sending prompt to ${modelId} with ${geminiTools.length > 0 ? geminiTools[0].functionDeclarations?.length : 0} tools...`);
+    console.log(`[Service] Sending prompt to ${modelId} with ${toolDefinitions.length} tools...`);
 
     let workingState = currentState;
-    const toolLogs: ToolCallLog[] = [];
-    let narrative = "";
     const simulationThinkingParts: string[] = []; // Мысли модели во время симуляции
-    const narrativeThinkingParts: string[] = []; // Мысли модели во время генерации нарратива
     const simulationDebugInfo: any = { allParts: [], iterations: [] }; // Техническая информация для симуляции
-    const narrativeDebugInfo: any = { allParts: [] }; // Техническая информация для нарратива
 
     // Сбор информации о токенах
     const simulationTokenUsages: TokenUsage[] = []; // Токены для каждой итерации симуляции
-    let narrativeTokenUsage: TokenUsage | null = null; // Токены для нарратива
 
     // История сообщений для многоходового диалога
-    let conversationHistory: Content[] = [
+    let conversationHistory: LLMMessage[] = [
       { role: 'user', parts: [{ text: userPrompt }] }
     ];
 
-    // Конфигурация thinking (мышление модели)
-    const thinkingConfig = {
-      includeThoughts: true,
-      thinkingBudget: settings.thinkingBudget
-    };
-
-    // Первый запрос
-    // [IMPROVEMENT Item 7 & 8] Retry logic and Timeouts
-    const generateWithRetry = async (model: string, contents: Content[], config: any) => {
-      return withRetry(async () => {
-        // Create an AbortController for timeout
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 seconds timeout
-
-        try {
-          console.log(`[Service] 📡 Sending request to ${model}...`);
-          return await ai.models.generateContent({
-            model: model,
-            contents: contents,
-            config: config,
-          });
-          // Note: The Google GenAI SDK might not fully support 'signal' yet in all versions.
-          // If it doesn't, the timeout won't abort the request itself, but standard fetch would.
-          // We wrap this assuming underlying fetch support or future proofing.
-          // If the SDK doesn't expose signal in types, we might need a workaround or just rely on retries.
-          // However, we can't implement true 'signal' passing without modification to sdk method signature if it's strictly typed.
-          // So for now, we rely on the `withRetry` doing the heavy lifting if the promise hangs (which it won't, unless network hangs).
-          // To implement true timeout for a promise that doesn't support cancel:
-          // We can race it.
-        } finally {
-          clearTimeout(timeoutId);
-        }
-      }, {
-        maxRetries: 3,
-        initialDelay: 1000,
-        shouldRetry: (err) => {
-          console.warn(`[Service] ⚠️ Request failed: ${err.message}. Checking retry...`);
-          // Retry on timeout (AbortError), network errors, 429, 5xx
-          if (err.name === 'AbortError') return true;
-          if (err.message?.includes('network')) return true;
-          if (err.status === 429) return true;
-          if (err.status >= 500) return true;
-          return false;
-        }
-      });
-    };
-
-    // Первый запрос (Simulate)
-    // Wrap simple generateContent with our race-timeout helper if SDK doesn't support signal
-    const generateWithTimeout = async (model: string, contents: Content[], config: any) => {
-      const timeoutPromise = new Promise((_, reject) => {
-        const id = setTimeout(() => {
-          clearTimeout(id);
-          reject(new Error('Request timed out (30s limit)'));
-        }, 30000); // 30s timeout
-      });
-
-      // Race against timeout
-      return Promise.race([
-        ai.models.generateContent({ model, contents, config }),
-        timeoutPromise
-      ]);
-    };
+    const signal = options.signal;
+    const isPlan = options.mode === 'plan';
+    const { generateWithTimeout } = createLLMCaller(llm, signal);
 
     // Actual call with retry AND timeout wrapper
     // Создаем размеченный лог перед первым вызовом LLM
-    const systemInstruction = createSystemInstruction(workingState);
+    const systemInstruction = createSystemInstruction(workingState, false, settings, history);
     const markedPromptLog = createMarkedPromptLog(
       systemInstruction,
-      geminiTools,
+      toolDefinitions,
       userPrompt,
       conversationHistory.length > 0 ? conversationHistory : undefined,
       {
@@ -1070,191 +1500,28 @@ ${JSON.stringify(normalizedState, null, 2)}${locationContext}${historySection}`;
     console.log(markedPromptLog);
 
     let response = await withRetry(async () => {
-      return await generateWithTimeout(modelId, conversationHistory, {
+      return await generateWithTimeout({
+        model: modelId,
         systemInstruction: systemInstruction,
-        tools: geminiTools,
+        messages: conversationHistory,
+        tools: toolDefinitions,
         temperature: settings.temperature,
-        thinkingConfig,
-      }) as GeminiApiResponse;
-    }, { maxRetries: 3 });
+        thinkingBudget: settings.thinkingBudget,
+        includeThoughts: true,
+      });
+    }, { maxRetries: 3, signal });
 
     console.log("[Service] Received initial response.");
 
-    // Функция для извлечения thoughts из ответа
-    const extractThoughts = (resp: GeminiApiResponse, isNarrative: boolean = false, iteration?: number) => {
-      try {
-        const contentData = getResponseContent(resp);
-        if (!contentData) return;
-
-        const parts = contentData.parts;
-        const prefix = isNarrative ? "🎭 Narrative" : "⚙️ Simulation";
-        const debugInfo = isNarrative ? narrativeDebugInfo : simulationDebugInfo;
-
-        // Для симуляции сохраняем информацию по каждой итерации
-        if (!isNarrative && iteration !== undefined) {
-          const iterationInfo = {
-            iteration,
-            responseStructure: {
-              totalParts: parts.length,
-              partTypes: parts.map((p: any) => ({
-                hasText: !!p.text,
-                hasThought: p.thought === true,
-                hasFunctionCall: !!p.functionCall,
-                textLength: p.text?.length || 0
-              }))
-            },
-            functionCallsCount: parts.filter((p: any) => p.functionCall).length,
-            allParts: parts.map((p: any, idx: number) => {
-              let type: 'text' | 'thought' | 'functionCall' | 'empty' | 'unknown' = 'unknown';
-              let content = '';
-              let details: string[] = []; // Дополнительная информация о части
-
-              if (p.thought === true && p.text) {
-                type = 'thought';
-                content = p.text;
-                details.push('thinking mode');
-              } else if (p.text) {
-                type = 'text';
-                content = p.text;
-              } else if (p.functionCall) {
-                type = 'functionCall';
-                content = JSON.stringify({
-                  name: p.functionCall.name,
-                  id: p.functionCall.id,
-                  args: p.functionCall.args
-                }, null, 2);
-                details.push(`tool: ${p.functionCall.name}`);
-              } else {
-                // Детальная диагностика пустой части
-                const hasFields = Object.keys(p).filter(k => k !== 'text' && k !== 'functionCall' && k !== 'thought');
-                if (hasFields.length === 0) {
-                  type = 'empty';
-                  details.push('нет данных');
-                } else {
-                  type = 'unknown';
-                  details.push(`поля: ${hasFields.join(', ')}`);
-                  content = JSON.stringify(p, null, 2);
-                }
-              }
-
-              return {
-                type,
-                content,
-                length: content.length,
-                details: details.join(', ') // Дополнительная информация
-              };
-            })
-          };
-
-          debugInfo.iterations.push(iterationInfo);
-
-          // Обновляем общую информацию (берем последнюю итерацию с данными)
-          if (parts.length > 0) {
-            debugInfo.responseStructure = iterationInfo.responseStructure;
-            debugInfo.functionCallsCount = iterationInfo.functionCallsCount;
-            debugInfo.allParts = iterationInfo.allParts;
-          }
-        } else {
-          // Для нарратива или первого запроса (без итерации)
-          debugInfo.responseStructure = {
-            totalParts: parts.length,
-            partTypes: parts.map((p: any) => ({
-              hasText: !!p.text,
-              hasThought: p.thought === true,
-              hasFunctionCall: !!p.functionCall,
-              textLength: p.text?.length || 0
-            }))
-          };
-
-          debugInfo.allParts = parts.map((p: any, idx: number) => {
-            let type: 'text' | 'thought' | 'functionCall' | 'empty' | 'unknown' = 'unknown';
-            let content = '';
-            let details: string[] = []; // Дополнительная информация о части
-
-            if (p.thought === true && p.text) {
-              type = 'thought';
-              content = p.text;
-              details.push('thinking mode');
-            } else if (p.text) {
-              type = 'text';
-              content = p.text;
-            } else if (p.functionCall) {
-              type = 'functionCall';
-              content = JSON.stringify({
-                name: p.functionCall.name,
-                id: p.functionCall.id,
-                args: p.functionCall.args
-              }, null, 2);
-              details.push(`tool: ${p.functionCall.name}`);
-            } else {
-              // Детальная диагностика пустой части
-              const hasFields = Object.keys(p).filter(k => k !== 'text' && k !== 'functionCall' && k !== 'thought');
-              if (hasFields.length === 0) {
-                type = 'empty';
-                details.push('нет данных');
-              } else {
-                type = 'unknown';
-                details.push(`поля: ${hasFields.join(', ')}`);
-                content = JSON.stringify(p, null, 2);
-              }
-            }
-
-            return {
-              type,
-              content,
-              length: content.length,
-              details: details.join(', ') // Дополнительная информация
-            };
-          });
-
-          const functionCalls = parts.filter((p: any) => p.functionCall);
-          debugInfo.functionCallsCount = functionCalls.length;
-        }
-
-        // Логируем для консоли
-        const functionCalls = parts.filter((p: any) => p.functionCall);
-        console.log(`[Service] ${prefix} Response structure:`, debugInfo.responseStructure);
-        if (functionCalls.length > 0 && !isNarrative) {
-          console.log(`[Service] ${prefix} Found ${functionCalls.length} function calls in response`);
-        }
-
-        // Извлекаем thinking части через хелпер
-        const thoughtTexts = getThoughtParts(resp);
-        if (thoughtTexts.length > 0) {
-          const thoughts = thoughtTexts.join('\n');
-          if (thoughts) {
-            // Сохраняем в соответствующий массив
-            if (isNarrative) {
-              narrativeThinkingParts.push(thoughts);
-            } else {
-              simulationThinkingParts.push(thoughts);
-            }
-
-            console.log(`[Service] ✓ ${prefix} thinking extracted:`, thoughts.length, "chars");
-            if (thoughts.length > 500) {
-              console.log(`[Service] ${prefix} thinking preview:`, thoughts.substring(0, 500) + "...");
-            } else {
-              console.log(`[Service] ${prefix} thinking:`, thoughts);
-            }
-          }
-        } else {
-          console.log(`[Service] ⚠️ No thinking parts found in ${prefix.toLowerCase()} response`);
-          parts.forEach((p: any, idx: number) => {
-            if (p.text) {
-              console.log(`[Service] ${prefix} Part ${idx} (text, thought=${p.thought}):`, p.text.substring(0, 200));
-            }
-          });
-        }
-      } catch (e) {
-        console.warn("[Service] Could not extract thoughts:", e);
-      }
-    };
+    // Мысли и отладочная информация симуляции
+    const extractSimulationThoughts = (resp: LLMResponse, iteration?: number) =>
+      extractThoughts(llm, resp, simulationThinkingParts, simulationDebugInfo, false, iteration);
 
     // Извлекаем мысли из первого ответа (итерация -1 означает первый запрос)
-    extractThoughts(response, false, -1);
+    extractSimulationThoughts(response, -1);
 
     // Извлекаем информацию о токенах из первого ответа
-    const firstTokenUsage = extractTokenUsage(response);
+    const firstTokenUsage = llm.getUsage(response);
     if (firstTokenUsage) {
       simulationTokenUsages.push(firstTokenUsage);
     }
@@ -1301,10 +1568,10 @@ ${JSON.stringify(normalizedState, null, 2)}${locationContext}${historySection}`;
     let iteration = 0;
 
     while (iteration < settings.maxIterations) {
-      // Безопасно извлекаем content и tool calls из ответа
-      const contentData = getResponseContent(response);
+      // Безопасно извлекаем сообщение ассистента и tool calls из ответа
+      const assistantContent = llm.getAssistantMessage(response);
 
-      if (!contentData) {
+      if (!assistantContent) {
         console.error("[Service] ❌ Не удалось извлечь содержимое ответа");
         return {
           narrative: "Ошибка: ИИ не вернул валидного ответа.",
@@ -1313,10 +1580,8 @@ ${JSON.stringify(normalizedState, null, 2)}${locationContext}${historySection}`;
         };
       }
 
-      const assistantContent = contentData.content;
-
       // Извлекаем tool calls из ответа
-      const toolCalls = getToolCalls(response);
+      const toolCalls = llm.getToolCalls(response);
 
       // Если нет tool calls — выходим из цикла
       // НО не используем narrative из этого ответа - финальный запрос сгенерирует лучший нарратив
@@ -1329,7 +1594,7 @@ ${JSON.stringify(normalizedState, null, 2)}${locationContext}${historySection}`;
       console.log(`[Service] Iteration ${iteration}: Processing ${toolCalls.length} tool calls...`);
 
       // Выполняем инструменты используя вынесенную функцию
-      const executionResult = executeToolCalls(toolCalls, workingState, enabledTools, iteration, resolveReferences);
+      const executionResult = executeToolCalls(toolCalls, workingState, enabledTools, iteration, resolveReferences, settings.transactionalToolBatches);
       workingState = executionResult.newState;
       toolLogs.push(...executionResult.logs);
       const toolResponseParts = executionResult.responseParts;
@@ -1343,22 +1608,22 @@ ${JSON.stringify(normalizedState, null, 2)}${locationContext}${historySection}`;
       console.log(`[Service] Iteration ${iteration}: Sending tool results back to AI...`);
 
       // Следующий запрос к AI с обновлённым состоянием
-      response = await ai.models.generateContent({
+      const iterationRequest: LLMRequest = {
         model: modelId,
-        contents: conversationHistory,
-        config: {
-          systemInstruction: createSystemInstruction(workingState),
-          tools: geminiTools, // Продолжаем передавать инструменты
-          temperature: settings.temperature,
-          thinkingConfig,
-        },
-      });
+        systemInstruction: createSystemInstruction(workingState, false, settings, history),
+        messages: conversationHistory,
+        tools: toolDefinitions, // Продолжаем передавать инструменты
+        temperature: settings.temperature,
+        thinkingBudget: settings.thinkingBudget,
+        includeThoughts: true,
+      };
+      response = await withRetry(() => generateWithTimeout(iterationRequest), { maxRetries: 3, signal });
 
       // Извлекаем мысли из ответа (с номером итерации)
-      extractThoughts(response, false, iteration);
+      extractSimulationThoughts(response, iteration);
 
       // Извлекаем информацию о токенах из ответа итерации
-      const iterationTokenUsage = extractTokenUsage(response);
+      const iterationTokenUsage = llm.getUsage(response);
       if (iterationTokenUsage) {
         simulationTokenUsages.push(iterationTokenUsage);
       }
@@ -1377,14 +1642,13 @@ ${JSON.stringify(normalizedState, null, 2)}${locationContext}${historySection}`;
 
     // Добавляем последний ответ в историю если есть
     // Безопасно извлекаем content и tool calls из последнего ответа
-    const lastContentData = getResponseContent(response);
-    if (lastContentData) {
-      const lastContent = lastContentData.content;
-      const remainingToolCalls = getToolCalls(response);
+    const lastContent = llm.getAssistantMessage(response);
+    if (lastContent) {
+      const remainingToolCalls = llm.getToolCalls(response);
 
       // Обрабатываем оставшиеся tool calls используя вынесенную функцию
       if (remainingToolCalls.length > 0) {
-        const executionResult = executeToolCalls(remainingToolCalls, workingState, enabledTools, iteration, resolveReferences);
+        const executionResult = executeToolCalls(remainingToolCalls, workingState, enabledTools, iteration, resolveReferences, settings.transactionalToolBatches);
         workingState = executionResult.newState;
         toolLogs.push(...executionResult.logs);
         const toolResponseParts = executionResult.responseParts;
@@ -1394,164 +1658,61 @@ ${JSON.stringify(normalizedState, null, 2)}${locationContext}${historySection}`;
       }
     }
 
-    // Финальный запрос без инструментов — только нарратив
-    // Используем отдельные настройки для нарратива, если заданы
-    const narrativeModelId = settings.narrativeModelId || settings.modelId;
-    const narrativeTemperature = settings.narrativeTemperature ?? settings.temperature;
-    const narrativeThinkingBudget = settings.narrativeThinkingBudget ?? settings.thinkingBudget;
-
-    const narrativeThinkingConfig = {
-      includeThoughts: true,
-      thinkingBudget: narrativeThinkingBudget
-    };
-
-    // Создаем системную инструкцию для нарратива
-    const narrativeSystemInstruction = createSystemInstruction(workingState, true);
-
-    // Формируем список всех объектов, игроков и локаций для разметки
-    const objectsList = workingState.objects.map(obj => `- [object:${obj.id}:${obj.name}]`).join('\n');
-    const playersList = workingState.players.map(p => `- [player:${p.id}:${p.name}]`).join('\n');
-    const locationsList = workingState.locations.map(loc => `- [location:${loc.id}:${loc.name}]`).join('\n');
-
-    // Добавляем список объектов в системную инструкцию
-    const narrativeSystemInstructionWithObjects = `${narrativeSystemInstruction}
-
-ДОСТУПНЫЕ ОБЪЕКТЫ ДЛЯ РАЗМЕТКИ:
-${objectsList}
-
-ДОСТУПНЫЕ ИГРОКИ ДЛЯ РАЗМЕТКИ:
-${playersList}
-
-ДОСТУПНЫЕ ЛОКАЦИИ ДЛЯ РАЗМЕТКИ:
-${locationsList}
-
-ВАЖНО: ВСЕ упоминания объектов, игроков и локаций должны быть размечены форматом [type:ID:name].`;
-
-    // Формируем контекст для нарратива: что произошло (лог инструментов)
-    const hasToolActions = toolLogs.length > 0;
-    const toolsSummary = hasToolActions
-      ? `\n\nЧто произошло:\n${toolLogs.map(log => {
-          // Форматируем как события для лучшей читаемости
-          if (log.name === 'move_object') {
-            return `- Объект перемещен: ${log.result}`;
-          } else if (log.name === 'create_object') {
-            return `- Создан объект: ${log.result}`;
-          } else if (log.name === 'delete_object') {
-            return `- Объект удален: ${log.result}`;
-          } else if (log.name === 'move_player') {
-            return `- Игрок перемещен: ${log.result}`;
-          } else if (log.name === 'set_attribute') {
-            return `- Изменен атрибут: ${log.result}`;
-          } else if (log.name === 'delete_attribute') {
-            return `- Удален атрибут: ${log.result}`;
-          } else {
-            return `- ${log.name}: ${log.result}`;
-          }
-        }).join('\n')}`
-      : '';
-
-    // Не передаем thinking симуляции в нарратив - это внутренние рассуждения,
-    // которые могут испортить стиль нарратива и раскрыть механику игры
-    const simulationContext = '';
-
-    // Разная инструкция в зависимости от того, были ли действия
-    const narrativeInstruction = hasToolActions
-      ? 'Создай художественное описание того, что произошло в результате этих действий.'
-      : 'Создай художественное описание в ответ на запрос игрока. Опиши то, что он видит/слышит/чувствует, включая причины, почему действие не удалось (если применимо).';
-
-    // Создаем новый контекст для нарратива (без истории инструментов)
-    const narrativeContents: Content[] = [
-      {
-        role: 'user',
-        parts: [{
-          text: `${userPrompt}${toolsSummary}${simulationContext}\n\n${narrativeInstruction}`
-        }]
-      }
-    ];
-
-    // Логируем настройки нарратива для отладки
-    console.log("[Service] 🎭 Narrative Request Settings:", {
-      model: narrativeModelId,
-      temperature: narrativeTemperature,
-      thinkingBudget: narrativeThinkingBudget,
-      promptSource: settings.narrativePromptOverride ? 'custom' : 'default',
-      promptPreview: narrativeSystemInstruction.substring(0, 200) + '...',
-      toolsSummary: toolsSummary.substring(0, 200) + '...'
-    });
+    // Ход мира: NPC рядом с игроками действуют сами — по одному запросу на каждого,
+    // их вызовы помечаются npcId. Сбой запроса одного NPC не прерывает ход
+    if (settings.npcWorldTick && hasNpcTools(enabledTools)) {
+      const actingNpcIds = getRelevantState(workingState, settings).npcs.map(n => n.id);
+      for (const npcId of actingNpcIds) {
+        const npc = workingState.npcs.find(n => n.id === npcId);
+        if (!npc) continue;
+        const npcTools = getNpcTools(npc, enabledTools);
+
+        console.log(`[Service] 🧑 World tick: ${npc.name} (${npc.id})`);
+        let npcResponse: LLMResponse;
+        try {
+          npcResponse = await withRetry(() => generateWithTimeout({
+            model: modelId,
+            systemInstruction: createNpcSystemInstruction(npc, workingState, settings),
+            messages: [{ role: 'user', parts: [{ text: createNpcTurnPrompt(userPrompt, toolLogs) }] }],
+            tools: npcTools.map(t => t.definition),
+            temperature: settings.temperature,
+            thinkingBudget: settings.thinkingBudget,
+          }), { maxRetries: 3, signal });
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          console.warn(`[Service] ⚠️ World tick failed for ${npc.id}:`, error);
+          continue;
+        }
 
-    // Создаем размеченный лог для нарратива
-    const narrativeMarkedPromptLog = createMarkedNarrativeLog(
-      narrativeSystemInstructionWithObjects,
-      userPrompt,
-      toolsSummary,
-      simulationContext,
-      narrativeInstruction,
-      {
-        modelId: narrativeModelId,
-        temperature: narrativeTemperature,
-        thinkingBudget: narrativeThinkingBudget
-      }
-    );
+        const npcTokenUsage = llm.getUsage(npcResponse);
+        if (npcTokenUsage) {
+          simulationTokenUsages.push(npcTokenUsage);
+        }
 
-    // Final request (Narrative) with Retry and Timeout
-    const finalResponse = await withRetry(async () => {
-      return await generateWithTimeout(narrativeModelId, narrativeContents, {
-        systemInstruction: narrativeSystemInstructionWithObjects,
-        thinkingConfig: narrativeThinkingConfig,
-        temperature: narrativeTemperature,
-        // No tools
-      }) as GeminiApiResponse; // Explicit cast as race buffer might lose type inference
-    }, { maxRetries: 3 });
-
-    // Извлекаем мысли из финального ответа
-    console.log("[Service] 🎭 Extracting thoughts from narrative response...");
-    extractThoughts(finalResponse, true);
-
-    // Извлекаем информацию о токенах из финального ответа
-    narrativeTokenUsage = extractTokenUsage(finalResponse);
-
-    // Безопасно извлекаем текстовые части из финального ответа
-    const finalContentData = getResponseContent(finalResponse);
-
-    if (finalContentData) {
-      const allParts = finalContentData.parts;
-
-      // Логируем все части для отладки
-      console.log("[Service] 🎭 Narrative response parts:", allParts.map((p: any, idx: number) => ({
-        idx,
-        hasText: !!p.text,
-        thought: p.thought,
-        textPreview: p.text?.substring(0, 100)
-      })));
-
-      // Извлекаем текстовые части (исключая thinking)
-      const textParts = getTextParts(finalResponse, true);
-      narrative = textParts.join(' ');
-
-      // Если narrative пустой, пробуем найти хоть что-то в parts без фильтрации thinking
-      if (!narrative) {
-        const allTextParts = getTextParts(finalResponse, false);
-        narrative = allTextParts.join(' ').trim();
+        const npcCalls = llm.getToolCalls(npcResponse);
+        if (npcCalls.length === 0) continue;
+        const executionResult = executeToolCalls(npcCalls, workingState, npcTools, iteration, resolveReferences, settings.transactionalToolBatches);
+        workingState = executionResult.newState;
+        toolLogs.push(...executionResult.logs.map(log => ({ ...log, npcId: npc.id })));
       }
-
-      console.log("[Service] 🎭 Narrative generated:", {
-        length: narrative.length,
-        wordCount: narrative.split(/\s+/).length,
-        preview: narrative.substring(0, 150) + (narrative.length > 150 ? '...' : '')
-      });
-    } else {
-      console.warn("[Service] 🎭 Не удалось извлечь содержимое финального ответа");
-      narrative = toolLogs.length > 0
-        ? "Действие обработано."
-        : "Ничего не произошло.";
     }
 
-    // Fallback если нарратив пустой
-    if (!narrative) {
-      narrative = toolLogs.length > 0
-        ? "Действие обработано."
-        : "Ничего не произошло.";
-    }
+    // Финальный запрос без инструментов — только нарратив (в режиме плана пропускается)
+    const narrativePhase = isPlan ? null : await runNarrativePhase(llm, {
+      state: workingState,
+      prevState: currentState,
+      userPrompt,
+      toolLogs,
+      settings,
+      history,
+      onNarrativeChunk: options.onNarrativeChunk,
+      signal
+    });
+    const narrative = narrativePhase?.narrative ?? "";
+    const narrativeThinkingParts = narrativePhase?.thinkingParts ?? [];
+    const narrativeDebugInfo = narrativePhase?.debugInfo ?? {};
+    const narrativeTokenUsage = narrativePhase?.tokenUsage ?? null;
+    const narrativeMarkedPromptLog = narrativePhase?.markedPromptLog;
 
     // Объединяем мысли отдельно для симуляции и нарратива
     const simulationThinking = simulationThinkingParts.length > 0
@@ -1589,25 +1750,13 @@ ${locationsList}
       ? calculateCost(totalSimulationTokens, modelId)
       : null;
 
-    // Используем модель нарратива для расчета стоимости нарратива (narrativeModelId уже объявлена выше)
-    const narrativeCost = narrativeTokenUsage
-      ? calculateCost(narrativeTokenUsage, narrativeModelId)
+    // Используем модель нарратива для расчета стоимости нарратива
+    const narrativeCost = narrativePhase?.tokenUsage
+      ? calculateCost(narrativePhase.tokenUsage, narrativePhase.modelId)
       : null;
 
     // Общая стоимость
-    let totalCostInfo: CostInfo | undefined = undefined;
-    if (simulationCost && narrativeCost) {
-      totalCostInfo = {
-        inputCost: simulationCost.inputCost + narrativeCost.inputCost,
-        outputCost: simulationCost.outputCost + narrativeCost.outputCost,
-        totalCost: simulationCost.totalCost + narrativeCost.totalCost,
-        model: `${modelId} + ${narrativeModelId}`,
-      };
-    } else if (simulationCost) {
-      totalCostInfo = simulationCost;
-    } else if (narrativeCost) {
-      totalCostInfo = narrativeCost;
-    }
+    const totalCostInfo = combineCost(simulationCost, narrativeCost);
 
     console.log("[Service] Final result:", {
       narrativeLength: narrative.length,
@@ -1643,10 +1792,22 @@ ${locationsList}
       } : undefined,
       costInfo: totalCostInfo,
       simulationDebugInfo: Object.keys(simulationDebugInfo).length > 0 ? simulationDebugInfo : undefined,
-      narrativeDebugInfo: Object.keys(narrativeDebugInfo).length > 0 ? narrativeDebugInfo : undefined
+      narrativeDebugInfo: Object.keys(narrativeDebugInfo).length > 0 ? narrativeDebugInfo : undefined,
+      ...(isPlan ? { planOnly: true } : {})
     };
 
   } catch (error: any) {
+    if (options.signal?.aborted) {
+      // Отмена пользователем: состояние не меняется, показываем, что успело выполниться
+      console.log(`[Service] ⏹ Turn cancelled after ${toolLogs.length} tool calls`);
+      return {
+        narrative: "Ход отменён.",
+        toolLogs,
+        newState: currentState,
+        cancelled: true
+      };
+    }
+
     console.error("[Service] Error:", error);
     return {
       narrative: `СИСТЕМНАЯ ОШИБКА: ${error.message}`,
@@ -1655,3 +1816,86 @@ ${locationsList}
     };
   }
 };
+
+/**
+ * Параметры отдельной генерации нарратива (см. TurnOptions)
+ */
+export type NarrativeOptions = Omit<TurnOptions, 'mode'>;
+
+/**
+ * Генерирует только нарратив для уже рассчитанного хода — без повторной симуляции.
+ * Используется для утверждённого плана (mode: 'plan') и перегенерации нарратива.
+ * @param state - состояние после хода
+ * @param prevState - состояние до хода (удалённые за ход сущности остаются доступны для разметки)
+ * @throws Error, если провайдер недоступен или запрос не удался
+ */
+export const generateNarrative = async (
+  state: GameState,
+  prevState: GameState,
+  userPrompt: string,
+  toolLogs: ToolCallLog[],
+  settings: AISettings = DEFAULT_AI_SETTINGS,
+  history: TurnHistory[] = [],
+  options: NarrativeOptions = {}
+): Promise<NarrativeResult> => {
+  const llm = options.provider || createProviderFromSettings(settings);
+  if (!llm) {
+    throw new Error("API_KEY отсутствует. Приложение не может связаться с Google Gemini.");
+  }
+
+  const phase = await runNarrativePhase(llm, {
+    state,
+    prevState,
+    userPrompt,
+    toolLogs,
+    settings,
+    history,
+    onNarrativeChunk: options.onNarrativeChunk,
+    signal: options.signal
+  });
+
+  return {
+    narrative: phase.narrative,
+    narrativeThinking: phase.thinkingParts.length > 0 ? phase.thinkingParts.join('\n\n---\n\n') : undefined,
+    narrativeMarkedPromptLog: phase.markedPromptLog,
+    tokenUsage: phase.tokenUsage,
+    costInfo: (phase.tokenUsage && calculateCost(phase.tokenUsage, phase.modelId)) || undefined,
+    narrativeDebugInfo: phase.debugInfo
+  };
+};
+
+/**
+ * Подставляет новый нарратив в результат хода (план или уже готовый ход):
+ * токены и стоимость симуляции сохраняются, нарратива — заменяются.
+ */
+export const applyNarrativeResult = (
+  result: SimulationResult,
+  narrativeResult: NarrativeResult,
+  settings: AISettings
+): SimulationResult => {
+  const zero: TokenUsage = { promptTokens: 0, candidatesTokens: 0, totalTokens: 0 };
+  const simulationTokens = result.tokenUsage?.simulation || zero;
+  const narrativeTokens = narrativeResult.tokenUsage || zero;
+  const totalTokens: TokenUsage = {
+    promptTokens: simulationTokens.promptTokens + narrativeTokens.promptTokens,
+    candidatesTokens: simulationTokens.candidatesTokens + narrativeTokens.candidatesTokens,
+    totalTokens: simulationTokens.totalTokens + narrativeTokens.totalTokens,
+  };
+
+  const simulationCost = simulationTokens.totalTokens > 0 ? calculateCost(simulationTokens, settings.modelId) : null;
+  const thinking = [result.simulationThinking, narrativeResult.narrativeThinking].filter(Boolean).join('\n\n=== НАРРАТИВ ===\n\n');
+
+  return {
+    ...result,
+    narrative: narrativeResult.narrative,
+    narrativeThinking: narrativeResult.narrativeThinking,
+    thinking: thinking || undefined,
+    narrativeMarkedPromptLog: narrativeResult.narrativeMarkedPromptLog,
+    narrativeDebugInfo: narrativeResult.narrativeDebugInfo,
+    tokenUsage: totalTokens.totalTokens > 0
+      ? { simulation: simulationTokens, narrative: narrativeTokens, total: totalTokens }
+      : undefined,
+    costInfo: combineCost(simulationCost, narrativeResult.costInfo || null),
+    planOnly: undefined
+  };
+};
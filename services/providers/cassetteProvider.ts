@@ -0,0 +1,198 @@
+import { AISettings, GameState, TurnHistory } from "../../types";
+import { EntityIdSource, randomEntityId } from "../../utils/gameUtils";
+import { LLMProvider, LLMCallOptions, LLMRequest, LLMResponse } from "./types";
+import { createDecoderProvider } from "./index";
+
+// ============================================================================
+// ЗАПИСЬ И ВОСПРОИЗВЕДЕНИЕ СЕССИЙ ("КАССЕТЫ")
+// ============================================================================
+// Recording-провайдер оборачивает настоящий провайдер и сохраняет каждую пару
+// запрос/ответ хода (итерации симуляции и нарратив). Replay-провайдер отдаёт
+// записанные ответы по порядку без обращения к сети — так реальную сессию можно
+// воспроизвести в тестах или повторить баг цикла инструментов по кассете пользователя.
+// Вместе с ответами записываются ID, выданные инструментами create_*: при воспроизведении
+// они выдаются снова, иначе ссылки на созданные сущности и последующие запросы разойдутся.
+
+export const CASSETTE_FORMAT_VERSION = 1;
+
+/**
+ * Одна пара запрос/ответ. response — исходный ответ API провайдера (raw)
+ */
+export interface CassetteInteraction {
+  request: LLMRequest;
+  response: any;
+}
+
+/**
+ * Входные данные хода — всё, что нужно для повторного вызова processGameTurn
+ */
+export interface CassetteTurn {
+  userPrompt: string;
+  state: GameState;
+  settings: AISettings;
+  history: TurnHistory[];
+  enabledTools: string[];
+}
+
+export interface Cassette {
+  formatVersion: number;
+  providerId: string;
+  recordedAt: string;
+  turn?: CassetteTurn;
+  interactions: CassetteInteraction[];
+  // ID новых сущностей в порядке выдачи (в кассетах старых версий отсутствует)
+  createdIds?: string[];
+}
+
+// JSON-копия: кассета не должна зависеть от последующих мутаций запросов/ответов
+const snapshot = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export interface RecordingProvider extends LLMProvider {
+  /** Источник ID для хода (TurnOptions.entityIdSource): выданные ID попадают в кассету */
+  entityIdSource: EntityIdSource;
+  /** Текущая запись. turn — входные данные хода для последующего воспроизведения */
+  getCassette(turn?: CassetteTurn): Cassette;
+}
+
+/**
+ * Оборачивает провайдер, записывая каждую пару запрос/ответ
+ */
+export const createRecordingProvider = (inner: LLMProvider): RecordingProvider => {
+  const interactions: CassetteInteraction[] = [];
+  const createdIds: string[] = [];
+  const recordedAt = new Date().toISOString();
+
+  return {
+    id: inner.id,
+
+    generate: async (request: LLMRequest, callOptions?: LLMCallOptions): Promise<LLMResponse> => {
+      const response = await inner.generate(request, callOptions);
+      interactions.push({ request: snapshot(request), response: snapshot(response.raw) });
+      return response;
+    },
+
+    // Записывается склеенный ответ потока — при воспроизведении он неотличим от обычного
+    generateStream: async (request: LLMRequest, onText: (text: string) => void, callOptions?: LLMCallOptions): Promise<LLMResponse> => {
+      const response = inner.generateStream
+        ? await inner.generateStream(request, onText, callOptions)
+        : await inner.generate(request, callOptions);
+      if (!inner.generateStream) {
+        onText(inner.getText(response, true).join(' '));
+      }
+      interactions.push({ request: snapshot(request), response: snapshot(response.raw) });
+      return response;
+    },
+
+    getAssistantMessage: (response) => inner.getAssistantMessage(response),
+    getToolCalls: (response) => inner.getToolCalls(response),
+    getThoughts: (response) => inner.getThoughts(response),
+    getText: (response, excludeThoughts) => inner.getText(response, excludeThoughts),
+    getUsage: (response) => inner.getUsage(response),
+    getParts: (response) => inner.getParts(response),
+
+    entityIdSource: (prefix: string): string => {
+      const id = randomEntityId(prefix);
+      createdIds.push(id);
+      return id;
+    },
+
+    getCassette: (turn?: CassetteTurn): Cassette => ({
+      formatVersion: CASSETTE_FORMAT_VERSION,
+      providerId: inner.id,
+      recordedAt,
+      ...(turn ? { turn: snapshot(turn) } : {}),
+      interactions: snapshot(interactions),
+      createdIds: [...createdIds],
+    }),
+  };
+};
+
+export interface ReplayOptions {
+  // Требовать точного совпадения каждого запроса с записанным (JSON).
+  // Без strict кассета отдаёт ответы по порядку, проверяя только модель.
+  strict?: boolean;
+}
+
+export interface ReplayProvider extends LLMProvider {
+  /**
+   * Источник ID для хода (TurnOptions.entityIdSource): выдаёт записанные ID по порядку,
+   * после их исчерпания — новые случайные
+   */
+  entityIdSource: EntityIdSource;
+  /** Сколько записанных ответов ещё не было отдано */
+  remaining(): number;
+}
+
+/**
+ * Провайдер, воспроизводящий кассету по порядку
+ */
+export const createReplayProvider = (cassette: Cassette, options: ReplayOptions = {}): ReplayProvider => {
+  if (cassette.formatVersion !== CASSETTE_FORMAT_VERSION) {
+    throw new Error(`Неподдерживаемая версия кассеты: ${cassette.formatVersion}`);
+  }
+
+  // Разбор ответов делегируем провайдеру того же типа, что записал кассету
+  const decoder = createDecoderProvider(cassette.providerId);
+  let position = 0;
+  let idPosition = 0;
+
+  const serve = (request: LLMRequest, callOptions?: LLMCallOptions): LLMResponse => {
+    callOptions?.signal?.throwIfAborted();
+
+    const interaction = cassette.interactions[position];
+    if (!interaction) {
+      throw new Error(
+        `Кассета закончилась: запрос №${position + 1} к ${request.model}, записано ${cassette.interactions.length}`
+      );
+    }
+
+    if (interaction.request.model !== request.model) {
+      throw new Error(
+        `Запрос №${position + 1}: ожидалась модель ${interaction.request.model}, получена ${request.model}`
+      );
+    }
+
+    if (options.strict && JSON.stringify(snapshot(request)) !== JSON.stringify(interaction.request)) {
+      throw new Error(`Запрос №${position + 1} не совпадает с записанным`);
+    }
+
+    position++;
+    console.log(`[Replay] ▶ Serving recorded response ${position}/${cassette.interactions.length}`);
+    return { raw: snapshot(interaction.response) };
+  };
+
+  return {
+    id: cassette.providerId,
+
+    generate: async (request: LLMRequest, callOptions?: LLMCallOptions): Promise<LLMResponse> => serve(request, callOptions),
+
+    // Записанный ответ отдаётся потоку целиком, одним фрагментом
+    generateStream: async (request: LLMRequest, onText: (text: string) => void, callOptions?: LLMCallOptions): Promise<LLMResponse> => {
+      const response = serve(request, callOptions);
+      onText(decoder.getText(response, true).join(' '));
+      return response;
+    },
+
+    getAssistantMessage: (response) => decoder.getAssistantMessage(response),
+    getToolCalls: (response) => decoder.getToolCalls(response),
+    getThoughts: (response) => decoder.getThoughts(response),
+    getText: (response, excludeThoughts) => decoder.getText(response, excludeThoughts),
+    getUsage: (response) => decoder.getUsage(response),
+    getParts: (response) => decoder.getParts(response),
+
+    entityIdSource: (prefix: string): string => cassette.createdIds?.[idPosition++] ?? randomEntityId(prefix),
+
+    remaining: () => cassette.interactions.length - position,
+  };
+};
+
+/**
+ * Разбирает JSON кассеты (из файла) с базовой проверкой структуры
+ */
+export const parseCassette = (json: string): Cassette => {
+  const parsed = JSON.parse(json);
+  if (!parsed || !Array.isArray(parsed.interactions) || typeof parsed.providerId !== 'string') {
+    throw new Error('Файл не является кассетой: нет providerId или interactions');
+  }
+  return parsed as Cassette;
+};
@@ -0,0 +1,296 @@
+import { GoogleGenAI, Content, Part } from "@google/genai";
+import { GeminiApiResponse, TokenUsage } from "../../types";
+import { LLMProvider, LLMCallOptions, LLMMessage, LLMRequest, LLMResponse, LLMToolCall, LLMResponsePart } from "./types";
+
+// ============================================================================
+// БЕЗОПАСНЫЕ ХЕЛПЕРЫ ДЛЯ РАБОТЫ С ОТВЕТАМИ GEMINI API
+// ============================================================================
+// Единая точка доступа к структуре ответа API с валидацией
+// Это предотвращает ошибки "Cannot read properties of undefined"
+
+interface ResponseContentData {
+  content: Content;
+  parts: Part[];
+}
+
+/**
+ * Безопасно извлекает content и parts из ответа Gemini API
+ * @returns { content, parts } или null, если структура невалидна
+ */
+const getResponseContent = (response: GeminiApiResponse): ResponseContentData | null => {
+  if (!response?.candidates || !Array.isArray(response.candidates) || response.candidates.length === 0) {
+    return null;
+  }
+
+  const candidate = response.candidates[0];
+  if (!candidate?.content) {
+    return null;
+  }
+
+  const parts = candidate.content.parts || [];
+  return {
+    content: candidate.content,
+    parts
+  };
+};
+
+/**
+ * Безопасно извлекает tool calls из ответа
+ * @returns массив function calls или пустой массив
+ */
+const getToolCalls = (response: GeminiApiResponse): LLMToolCall[] => {
+  const contentData = getResponseContent(response);
+  if (!contentData) return [];
+
+  // Вызовы берутся из того же разбора, что и сообщение ассистента в истории:
+  // запасные id (call_N) должны совпадать, иначе ответы инструментов сопоставятся не с теми вызовами
+  return fromGeminiContent(contentData.content).parts
+    .flatMap(part => ('toolCall' in part ? [part.toolCall] : []));
+};
+
+/**
+ * Безопасно извлекает текстовые части из ответа
+ * @param excludeThoughts - исключить части с thought: true и thinking-подобные тексты
+ * @returns массив текстовых строк
+ */
+const getTextParts = (response: GeminiApiResponse, excludeThoughts: boolean = false): string[] => {
+  const contentData = getResponseContent(response);
+  if (!contentData) return [];
+
+  return contentData.parts
+    .filter(p => {
+      if (!p.text) return false;
+      if (excludeThoughts && p.thought === true) return false;
+      if (excludeThoughts) {
+        const text = p.text.trim();
+        if (text.startsWith('**Analysis') ||
+          text.startsWith('**Thinking') ||
+          text.startsWith('**Okay') ||
+          text.startsWith('Okay,')) {
+          return false;
+        }
+      }
+      return true;
+    })
+    .map(p => p.text!)
+    .filter(Boolean);
+};
+
+/**
+ * Безопасно извлекает thinking части из ответа
+ * @returns массив текстов thinking
+ */
+const getThoughtParts = (response: GeminiApiResponse): string[] => {
+  const contentData = getResponseContent(response);
+  if (!contentData) return [];
+
+  return contentData.parts
+    .filter(p => p.thought === true && p.text)
+    .map(p => p.text!)
+    .filter(Boolean);
+};
+
+// Функция для извлечения информации о токенах из ответа API
+const extractTokenUsage = (response: GeminiApiResponse): TokenUsage | null => {
+  try {
+    const usageMetadata = response?.usageMetadata;
+    if (!usageMetadata) return null;
+
+    return {
+      promptTokens: usageMetadata.promptTokenCount || 0,
+      candidatesTokens: usageMetadata.candidatesTokenCount || 0,
+      totalTokens: usageMetadata.totalTokenCount || 0,
+    };
+  } catch (e) {
+    console.warn("[Gemini] Could not extract token usage:", e);
+    return null;
+  }
+};
+
+/**
+ * Переводит нейтральное сообщение в Gemini Content.
+ * Сообщения модели отправляются обратно в исходном виде (native), если он есть —
+ * это сохраняет служебные поля вроде thoughtSignature.
+ */
+const toGeminiContent = (message: LLMMessage): Content => {
+  if (message.native) {
+    return message.native as Content;
+  }
+
+  const parts: Part[] = message.parts.map(part => {
+    if ('toolCall' in part) {
+      return {
+        functionCall: {
+          name: part.toolCall.name,
+          id: part.toolCall.id,
+          args: part.toolCall.args
+        }
+      };
+    }
+    if ('toolResult' in part) {
+      return {
+        functionResponse: {
+          name: part.toolResult.name,
+          id: part.toolResult.id,
+          response: { result: part.toolResult.result }
+        }
+      };
+    }
+    return part.thought ? { text: part.text, thought: true } : { text: part.text };
+  });
+
+  return { role: message.role, parts };
+};
+
+/**
+ * Переводит Gemini Content ответа в нейтральное сообщение (с сохранением native)
+ */
+const fromGeminiContent = (content: Content): LLMMessage => {
+  const parts = (content.parts || []).flatMap((p, index): LLMMessage['parts'] => {
+    if (p.functionCall) {
+      return [{
+        toolCall: {
+          // Gemini не всегда возвращает id вызова — используем детерминированный номер части ответа
+          id: p.functionCall.id || `call_${index}`,
+          name: p.functionCall.name || 'unknown',
+          args: p.functionCall.args || {}
+        }
+      }];
+    }
+    if (p.text) {
+      return [{ text: p.text, thought: p.thought === true }];
+    }
+    return [];
+  });
+
+  return { role: 'model', parts, native: content };
+};
+
+/**
+ * Собирает config запроса generateContent / generateContentStream
+ */
+const buildConfig = (request: LLMRequest, callOptions?: LLMCallOptions): any => {
+  const config: any = {
+    systemInstruction: request.systemInstruction,
+  };
+  if (request.tools) {
+    config.tools = request.tools.length > 0 ? [{ functionDeclarations: request.tools }] : [];
+  }
+  config.temperature = request.temperature;
+  config.thinkingConfig = {
+    includeThoughts: request.includeThoughts ?? true,
+    thinkingBudget: request.thinkingBudget
+  };
+  if (callOptions?.signal) {
+    config.abortSignal = callOptions.signal;
+  }
+  return config;
+};
+
+/**
+ * Склеивает чанки потокового ответа в один ответ того же вида, что и generateContent.
+ * Соседние текстовые части одного типа (мысль / ответ) объединяются.
+ */
+const mergeStreamChunks = (chunks: GeminiApiResponse[]): GeminiApiResponse => {
+  const parts: Part[] = [];
+  let role = 'model';
+  let usageMetadata: GeminiApiResponse['usageMetadata'];
+
+  for (const chunk of chunks) {
+    const contentData = getResponseContent(chunk);
+    if (contentData) {
+      role = contentData.content.role || role;
+      for (const part of contentData.parts) {
+        const last = parts[parts.length - 1];
+        if (part.text !== undefined && last?.text !== undefined && !last.functionCall &&
+          (last.thought === true) === (part.thought === true)) {
+          parts[parts.length - 1] = {
+            ...last,
+            text: last.text + part.text,
+            ...(part.thoughtSignature ? { thoughtSignature: part.thoughtSignature } : {})
+          };
+        } else {
+          parts.push({ ...part });
+        }
+      }
+    }
+    // Счётчики токенов приходят накопленными — берём последние
+    if (chunk.usageMetadata) {
+      usageMetadata = chunk.usageMetadata;
+    }
+  }
+
+  return {
+    candidates: [{ content: { role, parts } }],
+    ...(usageMetadata ? { usageMetadata } : {})
+  };
+};
+
+/**
+ * Провайдер Google Gemini (@google/genai).
+ * Клиент создаётся лениво, поэтому провайдер без ключа можно использовать
+ * для разбора уже полученных ответов.
+ */
+export const createGeminiProvider = (apiKey: string): LLMProvider => {
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!client) {
+      client = new GoogleGenAI({ apiKey });
+    }
+    return client;
+  };
+
+  return {
+    id: 'gemini',
+
+    generate: async (request: LLMRequest, callOptions?: LLMCallOptions): Promise<LLMResponse> => {
+      const raw = await getClient().models.generateContent({
+        model: request.model,
+        contents: request.messages.map(toGeminiContent),
+        config: buildConfig(request, callOptions),
+      });
+      return { raw };
+    },
+
+    generateStream: async (request: LLMRequest, onText: (text: string) => void, callOptions?: LLMCallOptions): Promise<LLMResponse> => {
+      const stream = await getClient().models.generateContentStream({
+        model: request.model,
+        contents: request.messages.map(toGeminiContent),
+        config: buildConfig(request, callOptions),
+      });
+
+      const chunks: GeminiApiResponse[] = [];
+      let text = '';
+      for await (const chunk of stream) {
+        chunks.push(chunk as GeminiApiResponse);
+        const delta = (getResponseContent(chunk as GeminiApiResponse)?.parts || [])
+          .filter(p => p.text && p.thought !== true)
+          .map(p => p.text)
+          .join('');
+        if (delta) {
+          text += delta;
+          onText(text);
+        }
+      }
+      return { raw: mergeStreamChunks(chunks) };
+    },
+
+    getAssistantMessage: (response) => {
+      const contentData = getResponseContent(response.raw);
+      return contentData ? fromGeminiContent(contentData.content) : null;
+    },
+
+    getToolCalls: (response) => getToolCalls(response.raw),
+
+    getThoughts: (response) => getThoughtParts(response.raw),
+
+    getText: (response, excludeThoughts = false) => getTextParts(response.raw, excludeThoughts),
+
+    getUsage: (response) => extractTokenUsage(response.raw),
+
+    getParts: (response): LLMResponsePart[] => {
+      const contentData = getResponseContent(response.raw);
+      return contentData ? (contentData.parts as LLMResponsePart[]) : [];
+    },
+  };
+};
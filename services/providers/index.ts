@@ -0,0 +1,46 @@
+import { AISettings, DEFAULT_OPENAI_COMPATIBLE_BASE_URL } from "../../types";
+import { LLMProvider } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openaiCompatibleProvider";
+
+/**
+ * Безопасно читает ключ Gemini из process.env.API_KEY
+ */
+export const getGeminiApiKey = (): string => {
+  try {
+    if (typeof process !== 'undefined' && process.env && process.env.API_KEY) {
+      return process.env.API_KEY;
+    }
+  } catch (e) {
+    console.error("Error accessing process.env", e);
+  }
+  return '';
+};
+
+/**
+ * Создаёт провайдер по настройкам AI.
+ * @returns провайдер или null, если для Gemini нет API ключа
+ */
+export const createProviderFromSettings = (settings: AISettings): LLMProvider | null => {
+  if (settings.providerId === 'openai-compatible') {
+    // OpenAI-совместимый сервер (в т.ч. локальный) — ключ Gemini не нужен
+    return createOpenAICompatibleProvider({
+      baseUrl: settings.providerBaseUrl || DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+      apiKey: settings.providerApiKey,
+    });
+  }
+
+  const apiKey = getGeminiApiKey();
+  return apiKey ? createGeminiProvider(apiKey) : null;
+};
+
+/**
+ * Провайдер, умеющий только разбирать ответы указанного типа (без сетевого доступа).
+ * Используется при воспроизведении записанных сессий.
+ */
+export const createDecoderProvider = (providerId: string): LLMProvider => {
+  if (providerId === 'openai-compatible') {
+    return createOpenAICompatibleProvider({ baseUrl: '' });
+  }
+  return createGeminiProvider('');
+};
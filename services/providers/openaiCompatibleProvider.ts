@@ -0,0 +1,399 @@
+import { FunctionDeclaration, Schema } from "@google/genai";
+import { TokenUsage } from "../../types";
+import { LLMProvider, LLMCallOptions, LLMMessage, LLMRequest, LLMResponse, LLMToolCall, LLMResponsePart } from "./types";
+
+// ============================================================================
+// ПРОВАЙДЕР ДЛЯ OPENAI-СОВМЕСТИМЫХ API (/v1/chat/completions)
+// ============================================================================
+// Работает с любым сервером, реализующим Chat Completions с function calling:
+// Ollama (http://localhost:11434/v1), llama.cpp server (http://localhost:8080/v1),
+// vLLM, LM Studio и т.д.
+
+export interface OpenAICompatibleProviderOptions {
+  // Базовый URL API, включая /v1 (напр. 'http://localhost:11434/v1')
+  baseUrl: string;
+  // Ключ API (локальным серверам обычно не нужен)
+  apiKey?: string;
+  // Реализация fetch (для тестов или нестандартных окружений)
+  fetchImpl?: typeof fetch;
+}
+
+// Ответ /v1/chat/completions (только используемые поля)
+interface ChatCompletionToolCall {
+  id?: string;
+  type?: 'function';
+  function: { name: string; arguments?: string };
+}
+
+interface ChatCompletionMessage {
+  role: string;
+  content?: string | null;
+  // llama.cpp / DeepSeek отдают мысли в reasoning_content, Ollama — в reasoning
+  reasoning_content?: string | null;
+  reasoning?: string | null;
+  tool_calls?: ChatCompletionToolCall[];
+}
+
+// Чанк потокового ответа (stream: true): поля message приходят кусками в delta
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: Omit<Partial<ChatCompletionMessage>, 'tool_calls'> & {
+      tool_calls?: Array<Partial<ChatCompletionToolCall> & { index?: number; function?: { name?: string; arguments?: string } }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatCompletionResponse['usage'];
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: ChatCompletionMessage; finish_reason?: string }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+/**
+ * Переводит Schema из @google/genai (Type.OBJECT, Type.STRING...) в JSON Schema
+ */
+export const toJsonSchema = (schema: Schema): Record<string, any> => {
+  const result: Record<string, any> = {};
+
+  if (schema.type) {
+    const type = String(schema.type).toLowerCase();
+    // nullable — расширение Gemini; в JSON Schema это объединение типов с "null"
+    result.type = schema.nullable ? [type, 'null'] : type;
+  }
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.nullable ? [...schema.enum, null] : schema.enum;
+  if (schema.format) result.format = schema.format;
+  if (schema.minimum !== undefined) result.minimum = schema.minimum;
+  if (schema.maximum !== undefined) result.maximum = schema.maximum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.anyOf) result.anyOf = schema.anyOf.map(toJsonSchema);
+  if (schema.properties) {
+    result.properties = {};
+    for (const [key, value] of Object.entries(schema.properties)) {
+      result.properties[key] = toJsonSchema(value);
+    }
+  }
+  if (schema.required) result.required = schema.required;
+
+  return result;
+};
+
+/**
+ * Переводит определение инструмента в формат tools Chat Completions
+ */
+export const toOpenAITool = (definition: FunctionDeclaration) => ({
+  type: 'function' as const,
+  function: {
+    name: definition.name,
+    description: definition.description || '',
+    parameters: definition.parameters
+      ? toJsonSchema(definition.parameters)
+      : { type: 'object', properties: {} }
+  }
+});
+
+/**
+ * Переводит нейтральные сообщения в messages Chat Completions.
+ * Результаты инструментов становятся отдельными сообщениями с role: 'tool'.
+ */
+const toOpenAIMessages = (systemInstruction: string, messages: LLMMessage[]): any[] => {
+  const result: any[] = [];
+
+  if (systemInstruction) {
+    result.push({ role: 'system', content: systemInstruction });
+  }
+
+  for (const message of messages) {
+    if (message.role === 'model') {
+      const text = message.parts
+        .filter((p): p is { text: string; thought?: boolean } => 'text' in p && !p.thought)
+        .map(p => p.text)
+        .join('');
+      const toolCalls = message.parts
+        .filter((p): p is { toolCall: LLMToolCall } => 'toolCall' in p)
+        .map(p => ({
+          id: p.toolCall.id,
+          type: 'function',
+          function: { name: p.toolCall.name, arguments: JSON.stringify(p.toolCall.args ?? {}) }
+        }));
+
+      result.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+      });
+      continue;
+    }
+
+    const texts: string[] = [];
+    for (const part of message.parts) {
+      if ('toolResult' in part) {
+        result.push({
+          role: 'tool',
+          tool_call_id: part.toolResult.id,
+          name: part.toolResult.name,
+          content: part.toolResult.result
+        });
+      } else if ('text' in part) {
+        texts.push(part.text);
+      }
+    }
+    if (texts.length > 0) {
+      result.push({ role: 'user', content: texts.join('\n') });
+    }
+  }
+
+  return result;
+};
+
+// Многие локальные модели (Qwen, DeepSeek-R1) пишут рассуждения в <think>...</think> прямо в content
+const THINK_BLOCK_REGEX = /<think>([\s\S]*?)(?:<\/think>|$)/g;
+
+const getMessage = (response: LLMResponse): ChatCompletionMessage | null => {
+  const raw = response.raw as ChatCompletionResponse;
+  return raw?.choices?.[0]?.message || null;
+};
+
+/**
+ * Безопасно разбирает arguments вызова (строка JSON от сервера)
+ */
+const parseArguments = (args: string | undefined): any => {
+  if (!args) return {};
+  try {
+    return JSON.parse(args);
+  } catch (e) {
+    console.warn('[OpenAI-compatible] Could not parse tool call arguments:', args);
+    return {};
+  }
+};
+
+const getToolCalls = (response: LLMResponse): LLMToolCall[] => {
+  const message = getMessage(response);
+  if (!message?.tool_calls) return [];
+
+  return message.tool_calls.map((call, index) => ({
+    id: call.id || `call_${index}`,
+    name: call.function?.name || 'unknown',
+    args: parseArguments(call.function?.arguments)
+  }));
+};
+
+const getThoughts = (response: LLMResponse): string[] => {
+  const message = getMessage(response);
+  if (!message) return [];
+
+  const thoughts: string[] = [];
+  const reasoning = message.reasoning_content || message.reasoning;
+  if (reasoning) thoughts.push(reasoning);
+
+  if (message.content) {
+    for (const match of message.content.matchAll(THINK_BLOCK_REGEX)) {
+      if (match[1].trim()) thoughts.push(match[1].trim());
+    }
+  }
+
+  return thoughts;
+};
+
+const getText = (response: LLMResponse, excludeThoughts: boolean = false): string[] => {
+  const message = getMessage(response);
+  if (!message?.content) return [];
+
+  const text = excludeThoughts
+    ? message.content.replace(THINK_BLOCK_REGEX, '').trim()
+    : message.content;
+  return text ? [text] : [];
+};
+
+const getUsage = (response: LLMResponse): TokenUsage | null => {
+  const usage = (response.raw as ChatCompletionResponse)?.usage;
+  if (!usage) return null;
+
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    candidatesTokens: usage.completion_tokens || 0,
+    totalTokens: usage.total_tokens || 0,
+  };
+};
+
+/**
+ * Склеивает чанки потокового ответа в ChatCompletionResponse
+ */
+const mergeStreamChunks = (chunks: ChatCompletionChunk[]): ChatCompletionResponse => {
+  const message: ChatCompletionMessage = { role: 'assistant', content: '' };
+  const toolCalls: ChatCompletionToolCall[] = [];
+  let finishReason: string | undefined;
+  let usage: ChatCompletionResponse['usage'];
+
+  for (const chunk of chunks) {
+    const choice = chunk.choices?.[0];
+    const delta = choice?.delta;
+    if (delta) {
+      if (delta.content) message.content += delta.content;
+      if (delta.reasoning_content) message.reasoning_content = (message.reasoning_content || '') + delta.reasoning_content;
+      if (delta.reasoning) message.reasoning = (message.reasoning || '') + delta.reasoning;
+      // Вызовы инструментов приходят по частям: склеиваем по index
+      for (const call of delta.tool_calls || []) {
+        const index = call.index ?? toolCalls.length;
+        const target = toolCalls[index] || (toolCalls[index] = { type: 'function', function: { name: '', arguments: '' } });
+        if (call.id) target.id = call.id;
+        if (call.function?.name) target.function.name += call.function.name;
+        if (call.function?.arguments) target.function.arguments += call.function.arguments;
+      }
+    }
+    if (choice?.finish_reason) finishReason = choice.finish_reason;
+    if (chunk.usage) usage = chunk.usage;
+  }
+
+  if (toolCalls.length > 0) message.tool_calls = toolCalls.filter(Boolean);
+  if (!message.content) message.content = null;
+
+  return {
+    choices: [{ message, ...(finishReason ? { finish_reason: finishReason } : {}) }],
+    ...(usage ? { usage } : {})
+  };
+};
+
+/**
+ * Провайдер для OpenAI-совместимых серверов (в т.ч. локальных: Ollama, llama.cpp)
+ */
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleProviderOptions): LLMProvider => {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  const post = async (request: LLMRequest, stream: boolean, callOptions?: LLMCallOptions): Promise<Response> => {
+    const fetchImpl = options.fetchImpl || fetch;
+    const body: Record<string, any> = {
+      model: request.model,
+      messages: toOpenAIMessages(request.systemInstruction, request.messages),
+      temperature: request.temperature,
+      stream,
+    };
+    if (stream) {
+      // Без этого большинство серверов не присылает usage в потоке
+      body.stream_options = { include_usage: true };
+    }
+    if (request.tools && request.tools.length > 0) {
+      body.tools = request.tools.map(toOpenAITool);
+      body.tool_choice = 'auto';
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.apiKey) {
+      headers['Authorization'] = `Bearer ${options.apiKey}`;
+    }
+
+    const res = await fetchImpl(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: callOptions?.signal,
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text().catch(() => '');
+      const error: any = new Error(`OpenAI-compatible API error ${res.status}: ${errorText.substring(0, 500)}`);
+      // status используется в shouldRetry (429 / 5xx)
+      error.status = res.status;
+      throw error;
+    }
+
+    return res;
+  };
+
+  return {
+    id: 'openai-compatible',
+
+    generate: async (request: LLMRequest, callOptions?: LLMCallOptions): Promise<LLMResponse> => {
+      const res = await post(request, false, callOptions);
+      return { raw: await res.json() };
+    },
+
+    generateStream: async (request: LLMRequest, onText: (text: string) => void, callOptions?: LLMCallOptions): Promise<LLMResponse> => {
+      const res = await post(request, true, callOptions);
+      if (!res.body) {
+        throw new Error('OpenAI-compatible API error: пустое тело потокового ответа');
+      }
+
+      // Server-Sent Events: строки "data: {...}", конец потока — "data: [DONE]"
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      const chunks: ChatCompletionChunk[] = [];
+      let buffer = '';
+      let content = '';
+      let visibleText = '';
+
+      const handleLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) return;
+        const data = trimmed.slice(5).trim();
+        if (!data || data === '[DONE]') return;
+
+        let chunk: ChatCompletionChunk;
+        try {
+          chunk = JSON.parse(data);
+        } catch (e) {
+          console.warn('[OpenAI-compatible] Could not parse stream chunk:', data);
+          return;
+        }
+        chunks.push(chunk);
+
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          // Незакрытый <think> в начале тоже вырезается (см. THINK_BLOCK_REGEX)
+          const text = content.replace(THINK_BLOCK_REGEX, '').trimStart();
+          if (text !== visibleText) {
+            visibleText = text;
+            onText(visibleText);
+          }
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+      }
+      buffer += decoder.decode();
+      if (buffer) handleLine(buffer);
+
+      return { raw: mergeStreamChunks(chunks) };
+    },
+
+    getAssistantMessage: (response) => {
+      const message = getMessage(response);
+      if (!message) return null;
+
+      const parts: LLMMessage['parts'] = [];
+      getThoughts(response).forEach(text => parts.push({ text, thought: true }));
+      getText(response, true).forEach(text => parts.push({ text }));
+      getToolCalls(response).forEach(toolCall => parts.push({ toolCall }));
+
+      return { role: 'model', parts };
+    },
+
+    getToolCalls,
+
+    getThoughts,
+
+    getText,
+
+    getUsage,
+
+    getParts: (response): LLMResponsePart[] => {
+      const parts: LLMResponsePart[] = [];
+      getThoughts(response).forEach(text => parts.push({ text, thought: true }));
+      getText(response, true).forEach(text => parts.push({ text }));
+      getToolCalls(response).forEach(call => parts.push({ functionCall: call }));
+      return parts;
+    },
+  };
+};
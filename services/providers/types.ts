@@ -0,0 +1,112 @@
+import { FunctionDeclaration } from "@google/genai";
+import { TokenUsage } from "../../types";
+
+// ============================================================================
+// НЕЙТРАЛЬНЫЙ СЛОЙ ПРОВАЙДЕРОВ LLM
+// ============================================================================
+// processGameTurn говорит только на этом языке: сообщения, вызовы инструментов,
+// результаты инструментов. Провайдер переводит их в формат конкретного API
+// (Gemini, OpenAI-совместимый и т.д.) и обратно.
+
+/**
+ * Вызов инструмента, запрошенный моделью
+ */
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  args: any;
+}
+
+/**
+ * Часть сообщения в нейтральном формате
+ */
+export type LLMMessagePart =
+  | { text: string; thought?: boolean }
+  | { toolCall: LLMToolCall }
+  | { toolResult: { id: string; name: string; result: string } };
+
+/**
+ * Сообщение диалога в нейтральном формате.
+ * native — исходное сообщение провайдера (например, Gemini Content с thoughtSignature),
+ * которое провайдер может отправить обратно без потерь вместо пересборки из parts.
+ */
+export interface LLMMessage {
+  role: 'user' | 'model';
+  parts: LLMMessagePart[];
+  native?: unknown;
+}
+
+/**
+ * Параметры одного запроса к модели
+ */
+export interface LLMRequest {
+  model: string;
+  systemInstruction: string;
+  messages: LLMMessage[];
+  tools?: FunctionDeclaration[];
+  temperature?: number;
+  thinkingBudget?: number;
+  includeThoughts?: boolean;
+}
+
+/**
+ * Параметры вызова, не входящие в сам запрос (не записываются в кассеты)
+ */
+export interface LLMCallOptions {
+  // Отмена запроса: провайдер должен прервать сетевой вызов
+  signal?: AbortSignal;
+}
+
+/**
+ * Часть ответа для отладочной информации (структура ответа в UI)
+ */
+export interface LLMResponsePart {
+  text?: string;
+  thought?: boolean;
+  functionCall?: { name: string; id?: string; args: any };
+  [key: string]: unknown;
+}
+
+/**
+ * Ответ провайдера. raw — исходный ответ API, из которого провайдер
+ * извлекает всё остальное своими методами.
+ */
+export interface LLMResponse {
+  raw: any;
+}
+
+/**
+ * Провайдер LLM: генерация + извлечение данных из ответа
+ */
+export interface LLMProvider {
+  /** Идентификатор провайдера (для логов и записи сессий) */
+  readonly id: string;
+
+  /** Отправляет запрос модели */
+  generate(request: LLMRequest, callOptions?: LLMCallOptions): Promise<LLMResponse>;
+
+  /**
+   * Потоковая генерация (опционально). onText вызывается с накопленным видимым
+   * текстом ответа (без мыслей) по мере поступления. Возвращает полный ответ
+   * в том же формате, что и generate.
+   */
+  generateStream?(request: LLMRequest, onText: (text: string) => void, callOptions?: LLMCallOptions): Promise<LLMResponse>;
+
+  /** Сообщение ассистента для добавления в историю диалога (null, если ответ невалиден) */
+  getAssistantMessage(response: LLMResponse): LLMMessage | null;
+
+  /** Вызовы инструментов из ответа */
+  getToolCalls(response: LLMResponse): LLMToolCall[];
+
+  /** Тексты "мыслей" модели (thinking) */
+  getThoughts(response: LLMResponse): string[];
+
+  /** Текстовые части ответа, опционально без мыслей */
+  getText(response: LLMResponse, excludeThoughts?: boolean): string[];
+
+  /** Информация о токенах */
+  getUsage(response: LLMResponse): TokenUsage | null;
+
+  /** Части ответа в нейтральном виде для отладочной информации */
+  getParts(response: LLMResponse): LLMResponsePart[];
+}
@@ -0,0 +1,143 @@
+import { Schema, Type } from "@google/genai";
+
+// ============================================================================
+// ВАЛИДАЦИЯ АРГУМЕНТОВ ИНСТРУМЕНТОВ ПО СХЕМЕ
+// ============================================================================
+// Аргументы вызова (после подстановки ссылок $N.createdId) проверяются по
+// объявленной схеме параметров инструмента до вызова apply: обязательность,
+// типы, enum, границы, pattern и format. Инструменту не нужно повторять эти
+// проверки — новые инструменты получают валидацию по одной только схеме.
+
+export interface ToolArgIssue {
+  path: string; // путь к аргументу, напр. "entityType" или "items[2].id"
+  message: string;
+}
+
+const typeNames: Partial<Record<Type, string>> = {
+  [Type.STRING]: 'строка',
+  [Type.NUMBER]: 'число',
+  [Type.INTEGER]: 'целое число',
+  [Type.BOOLEAN]: 'boolean',
+  [Type.ARRAY]: 'массив',
+  [Type.OBJECT]: 'объект'
+};
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'массив';
+  if (typeof value === 'string') return `строка "${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+  return `${typeof value} ${JSON.stringify(value)}`;
+};
+
+// Пустая строка и null для обязательного параметра считаются отсутствием значения
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+
+const matchesType = (type: Type, value: unknown): boolean => {
+  switch (type) {
+    case Type.STRING: return typeof value === 'string';
+    case Type.NUMBER: return typeof value === 'number' && Number.isFinite(value);
+    case Type.INTEGER: return typeof value === 'number' && Number.isInteger(value);
+    case Type.BOOLEAN: return typeof value === 'boolean';
+    case Type.ARRAY: return Array.isArray(value);
+    case Type.OBJECT: return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default: return true;
+  }
+};
+
+const validateValue = (schema: Schema, value: unknown, path: string, issues: ToolArgIssue[]) => {
+  if (value === null && schema.nullable) return;
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    issues.push({ path, message: `ожидается ${typeNames[schema.type] ?? schema.type}, получено: ${describeValue(value)}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    issues.push({ path, message: `значение ${describeValue(value)} не входит в допустимые: ${schema.enum.join(', ')}` });
+    return;
+  }
+
+  if (typeof value === 'string') {
+    // Ссылка на результат другого вызова, которую не удалось подставить
+    const unresolved = value.match(/\$\d+\.createdId/);
+    if (unresolved) {
+      issues.push({ path, message: `ссылка ${unresolved[0]} не разрешена: вызов с таким индексом не создал объект в этом ответе` });
+    }
+    if (schema.minLength !== undefined && value.length < Number(schema.minLength)) {
+      issues.push({ path, message: `строка короче ${schema.minLength} символов` });
+    }
+    if (schema.maxLength !== undefined && value.length > Number(schema.maxLength)) {
+      issues.push({ path, message: `строка длиннее ${schema.maxLength} символов` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `значение ${describeValue(value)} не соответствует шаблону ${schema.pattern}` });
+    }
+    if (schema.format === 'date-time' && isNaN(Date.parse(value))) {
+      issues.push({ path, message: `ожидается дата-время в формате ISO 8601, получено: ${describeValue(value)}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `значение ${value} меньше минимума ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `значение ${value} больше максимума ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < Number(schema.minItems)) {
+      issues.push({ path, message: `ожидается не меньше ${schema.minItems} элементов` });
+    }
+    if (schema.maxItems !== undefined && value.length > Number(schema.maxItems)) {
+      issues.push({ path, message: `ожидается не больше ${schema.maxItems} элементов` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateValue(schema.items!, item, `${path}[${index}]`, issues));
+    }
+  }
+
+  if (schema.type === Type.OBJECT && schema.properties) {
+    validateProperties(schema, value as Record<string, unknown>, path, issues);
+  }
+};
+
+const validateProperties = (schema: Schema, args: Record<string, unknown>, path: string, issues: ToolArgIssue[]) => {
+  const prefix = path ? `${path}.` : '';
+  const missing = (schema.required ?? []).filter(name => isMissing(args[name]));
+  if (missing.length > 0) {
+    issues.push({ path, message: `отсутствуют обязательные параметры: ${missing.map(name => `${prefix}${name}`).join(', ')}` });
+  }
+
+  // Неизвестные аргументы не считаются ошибкой: модель иногда передаёт лишнее
+  Object.entries(schema.properties ?? {}).forEach(([name, propertySchema]) => {
+    const value = args[name];
+    if (value === undefined || (isMissing(value) && missing.includes(name))) return;
+    validateValue(propertySchema, value, `${prefix}${name}`, issues);
+  });
+};
+
+/**
+ * Проверяет аргументы вызова по схеме параметров инструмента.
+ * @returns список проблем (пустой — аргументы корректны)
+ */
+export const validateToolArgs = (schema: Schema | undefined, args: unknown): ToolArgIssue[] => {
+  if (!schema) return [];
+
+  const issues: ToolArgIssue[] = [];
+  const argsObject = args ?? {};
+  if (typeof argsObject !== 'object' || Array.isArray(argsObject)) {
+    return [{ path: '', message: `аргументы должны быть объектом, получено: ${describeValue(args)}` }];
+  }
+
+  validateProperties(schema, argsObject as Record<string, unknown>, '', issues);
+  return issues;
+};
+
+/**
+ * Сообщение об ошибке для модели: что не так с каждым аргументом и что делать.
+ * Начинается с "Ошибка", как и остальные ошибки инструментов (isToolError).
+ */
+export const formatToolArgIssues = (toolName: string, issues: ToolArgIssue[]): string =>
+  `Ошибка валидации аргументов ${toolName}: ${issues.map(i => (i.path ? `${i.path}: ${i.message}` : i.message)).join('; ')}. Исправь аргументы по схеме инструмента и повтори вызов.`;
@@ -0,0 +1,195 @@
+import { DiceRoll, GameState, GameTool, NpcData, ToolCallLog } from "../types";
+import { syncPlayerConditions, syncPlayerInventories } from "../utils/gameUtils";
+import { formatToolArgIssues, validateToolArgs } from "./toolArgsValidation";
+
+// ============================================================================
+// ВЫПОЛНЕНИЕ ИНСТРУМЕНТОВ ВНЕ ЦИКЛА МОДЕЛИ
+// ============================================================================
+// Общая логика применения одного вызова (поиск инструмента, проверка аргументов
+// по схеме параметров, перехват исключений). Используется циклом processGameTurn и при
+// пересчёте отредактированного плана вызовов в UI.
+
+export interface ToolCallExecution {
+  newState: GameState;
+  result: string;
+  createdId?: string;
+  roll?: DiceRoll;
+}
+
+/**
+ * Применяет один вызов инструмента к состоянию.
+ * Ошибки не бросаются: возвращается исходное состояние и текст "Ошибка...: ..."
+ */
+export const applyToolCall = (
+  state: GameState,
+  name: string,
+  args: any,
+  tools: GameTool[]
+): ToolCallExecution => {
+  const tool = tools.find(t => t.definition.name === name);
+  if (!tool) {
+    return { newState: state, result: "Ошибка: Инструмент не найден или отключен." };
+  }
+
+  // Валидация аргументов по объявленной схеме параметров (до apply)
+  const argIssues = validateToolArgs(tool.definition.parameters, args);
+  if (argIssues.length > 0) {
+    console.warn(`[Tools] ⚠️ Validation failed for ${name}:`, argIssues);
+    return { newState: state, result: formatToolArgIssues(name, argIssues) };
+  }
+
+  try {
+    const execution = tool.apply(state, args);
+    return {
+      // Инструменты меняют только connectionId и health — inventory и condition игроков
+      // пересобираются здесь для всех сразу
+      newState: syncPlayerConditions(syncPlayerInventories(execution.newState)),
+      result: execution.result,
+      createdId: execution.createdId,
+      roll: execution.roll
+    };
+  } catch (e: any) {
+    console.error(`[Tools] ❌ Tool execution error for ${name}:`, e);
+    return { newState: state, result: `Ошибка выполнения: ${e.message}` };
+  }
+};
+
+// Инструменты, доступные NPC в ходе мира (из числа включённых пользователем)
+const NPC_TOOL_NAMES = ['move_npc', 'move_object', 'set_attribute'];
+
+/**
+ * Есть ли среди включённых инструментов доступные NPC. Набор не зависит от NPC:
+ * если он пуст, ход мира пропускается целиком
+ */
+export const hasNpcTools = (enabledTools: GameTool[]): boolean =>
+  enabledTools.some(tool => NPC_TOOL_NAMES.includes(tool.definition.name));
+
+/**
+ * Объект в досягаемости NPC: у него самого или в его текущей локации
+ * (в том числе внутри контейнеров). Вещи игроков и других NPC недоступны.
+ */
+const isObjectWithinNpcReach = (state: GameState, npc: NpcData, objectId: string): boolean => {
+  const visited = new Set<string>();
+  let holderId: string | undefined = objectId;
+  while (holderId && !visited.has(holderId)) {
+    visited.add(holderId);
+    const object = state.objects.find(o => o.id === holderId);
+    if (!object) break;
+    holderId = object.connectionId;
+  }
+  return holderId === npc.id || holderId === npc.locationId;
+};
+
+/**
+ * Проверяет, что вызов NPC затрагивает только его самого и его текущую локацию.
+ * Состояние берётся на момент вызова: NPC мог переместиться раньше в этом же ходу.
+ * @returns текст ошибки или null, если вызов допустим
+ */
+const checkNpcToolScope = (state: GameState, npcId: string, name: string, args: any): string | null => {
+  const npc = state.npcs.find(n => n.id === npcId);
+  if (!npc) return `Ошибка: NPC "${npcId}" не найден`;
+
+  switch (name) {
+    case 'move_npc':
+      return args?.npcId === npc.id
+        ? null
+        : `Ошибка: NPC "${npc.name}" может перемещать только себя (npcId: "${npc.id}")`;
+
+    case 'move_object': {
+      if (!isObjectWithinNpcReach(state, npc, args?.objectId)) {
+        return `Ошибка: NPC "${npc.name}" может перемещать только свои объекты и объекты своей локации`;
+      }
+      // Положить к себе, в локацию, в доступный контейнер или передать игроку рядом
+      const targetId = args?.targetId;
+      const allowed = targetId === npc.id
+        || targetId === npc.locationId
+        || state.players.some(p => p.id === targetId && p.locationId === npc.locationId)
+        || isObjectWithinNpcReach(state, npc, targetId);
+      return allowed
+        ? null
+        : `Ошибка: NPC "${npc.name}" может передать объект только себе, в свою локацию, в доступный контейнер или игроку рядом`;
+    }
+
+    case 'set_attribute': {
+      const { entityType, entityId } = args ?? {};
+      const allowed = (entityType === 'npc' && entityId === npc.id)
+        || (entityType === 'location' && entityId === npc.locationId)
+        || (entityType === 'object' && isObjectWithinNpcReach(state, npc, entityId));
+      return allowed
+        ? null
+        : `Ошибка: NPC "${npc.name}" может менять атрибуты только себя, своей локации и доступных объектов`;
+    }
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Набор инструментов для хода NPC: вызовы ограничены самим персонажем и его текущей
+ * локацией (checkNpcToolScope), чтобы ход мира не менял вещи и атрибуты других персонажей
+ */
+export const getNpcTools = (npc: NpcData, enabledTools: GameTool[]): GameTool[] =>
+  enabledTools
+    .filter(tool => NPC_TOOL_NAMES.includes(tool.definition.name))
+    .map(tool => ({
+      ...tool,
+      apply: (state: GameState, args: any) => {
+        const scopeError = checkNpcToolScope(state, npc.id, tool.definition.name, args);
+        return scopeError ? { newState: state, result: scopeError } : tool.apply(state, args);
+      }
+    }));
+
+// Заменяет в аргументах строки-ID, совпадающие с ключами renamedIds (на любой глубине)
+const renameIds = (value: any, renamedIds: Map<string, string>): any => {
+  if (typeof value === 'string') return renamedIds.get(value) ?? value;
+  if (Array.isArray(value)) return value.map(item => renameIds(item, renamedIds));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renameIds(item, renamedIds)]));
+  }
+  return value;
+};
+
+/**
+ * Заново применяет последовательность вызовов к исходному состоянию
+ * (например, после удаления, перестановки или правки аргументов в плане).
+ * Вызовы, откаченные транзакцией, пропускаются и остаются в логе как есть.
+ * Инструменты create_* выдают при пересчёте новые ID: последующие аргументы с прежним
+ * createdId переписываются на новый. Вызовы NPC (npcId) выполняются с набором инструментов NPC.
+ * @returns итоговое состояние и обновлённые логи с новыми результатами
+ */
+export const replayToolCalls = (
+  initialState: GameState,
+  calls: ToolCallLog[],
+  tools: GameTool[]
+): { newState: GameState; logs: ToolCallLog[] } => {
+  let newState = initialState;
+  // Прежний createdId → ID, выданный при пересчёте
+  const renamedIds = new Map<string, string>();
+
+  const logs = calls.map(call => {
+    if (call.rolledBack) {
+      return call;
+    }
+
+    const args = renameIds(call.args, renamedIds);
+    let callTools = tools;
+    if (call.npcId) {
+      const npc = newState.npcs.find(n => n.id === call.npcId);
+      if (!npc) {
+        return { ...call, args, result: `Ошибка: NPC "${call.npcId}" не найден`, roll: undefined, createdId: undefined };
+      }
+      callTools = getNpcTools(npc, tools);
+    }
+
+    const execution = applyToolCall(newState, call.name, args, callTools);
+    newState = execution.newState;
+    if (call.createdId && execution.createdId) {
+      renamedIds.set(call.createdId, execution.createdId);
+    }
+    // Бросок пересчитывается от генератора в текущем состоянии
+    return { ...call, args, result: execution.result, roll: execution.roll, createdId: execution.createdId };
+  });
+
+  return { newState, logs };
+};
@@ -0,0 +1,45 @@
+import { describe, test, expect } from 'vitest';
+import { applyToolCall, replayToolCalls } from '../../services/toolExecution';
+import advanceTimeTool from '../advanceTime';
+import setAttributeTool from '../setAttribute';
+import { createWorldClock } from '../../utils/worldClock';
+import { GameState } from '../../types';
+import { createTestPlayer, createTestState } from '../../__tests__/fixtures';
+
+const createEveningState = (): GameState => createTestState({
+  players: [createTestPlayer({ attributes: { mood: 'мрачный' } })],
+  clock: createWorldClock(20 * 60 + 30)
+});
+
+const tools = [advanceTimeTool, setAttributeTool];
+
+describe('advance_time - часы мира', () => {
+  test('ожидание до фазы суток переходит через полночь', () => {
+    const { newState, result } = applyToolCall(createEveningState(), 'advance_time', { untilPhase: 'morning', reason: 'сон' }, tools);
+
+    expect(newState.clock).toEqual({ day: 2, hour: 5, minute: 0, phase: 'morning' });
+    expect(result).toBe('Прошло 8 ч 30 мин (до: утро) — сон: день 1, 20:30 (вечер) → день 2, 05:00 (утро)');
+
+    expect(applyToolCall(createEveningState(), 'advance_time', { hours: 1, untilPhase: 'night' }, tools).result)
+      .toBe('Ошибка: Укажи либо длительность (hours/minutes), либо untilPhase');
+  });
+
+  test('временный атрибут возвращается к прежнему значению, когда время истекает', () => {
+    const { newState, logs } = replayToolCalls(createEveningState(), [
+      { name: 'set_attribute', args: { entityType: 'player', entityId: 'p1', attributeName: 'mood', value: 'пьяно весёлый', durationMinutes: 120 }, result: '' },
+      { name: 'set_attribute', args: { entityType: 'player', entityId: 'p1', attributeName: 'mood', value: 'очень пьян', durationMinutes: 60 }, result: '' },
+      { name: 'advance_time', args: { minutes: 30 }, result: '' }
+    ], tools);
+
+    expect(logs[0].result).toBe('Характеристика "mood" для player "Tester" изменена с "мрачный" на "пьяно весёлый" на 2 ч (до: день 1, 22:30 (ночь))');
+    expect(newState.players[0].attributes?.mood).toBe('очень пьян');
+    // Повторный временный эффект заменил прежний и вернёт исходное значение
+    expect(newState.clock?.effects).toHaveLength(1);
+    expect(newState.clock?.effects?.[0]).toMatchObject({ at: 21 * 60 + 30, value: 'мрачный' });
+
+    const later = applyToolCall(newState, 'advance_time', { hours: 1 }, tools);
+    expect(later.newState.players[0].attributes?.mood).toBe('мрачный');
+    expect(later.newState.clock?.effects).toBeUndefined();
+    expect(later.result).toBe('Прошло 1 ч: день 1, 21:00 (вечер) → день 1, 22:00 (ночь). Истекли эффекты: атрибут "mood" у Tester → "мрачный"');
+  });
+});
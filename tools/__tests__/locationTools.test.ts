@@ -0,0 +1,55 @@
+import { describe, test, expect } from 'vitest';
+import { applyToolCall } from '../../services/toolExecution';
+import createLocationTool from '../createLocation';
+import connectLocationsTool from '../connectLocations';
+import disconnectLocationsTool from '../disconnectLocations';
+import movePlayerTool from '../movePlayer';
+import { GameState } from '../../types';
+import { createTestLocation, createTestState } from '../../__tests__/fixtures';
+
+const createLibraryState = (): GameState => createTestState({
+  locations: [
+    createTestLocation({ name: 'Библиотека' }),
+    createTestLocation({ id: 'loc2', name: 'Холл', connections: [{ targetLocationId: 'loc1', type: 'bidirectional' }] })
+  ]
+});
+
+const tools = [createLocationTool, connectLocationsTool, disconnectLocationsTool, movePlayerTool];
+
+describe('Инструменты графа локаций', () => {
+  test('новая локация связывается проходом, через который можно пройти, а закрытый проход блокирует move_player', () => {
+    const created = applyToolCall(createLibraryState(), 'create_location', {
+      name: 'Тайная комната', description: 'Комната за книжным шкафом'
+    }, tools);
+    const roomId = created.createdId!;
+    expect(roomId).toMatch(/^loc_/);
+    expect(created.newState.locations.find(l => l.id === roomId)?.connections).toEqual([]);
+
+    const connected = applyToolCall(created.newState, 'connect_locations', {
+      fromLocationId: 'loc1', toLocationId: roomId, direction: 'out'
+    }, tools);
+    const moved = applyToolCall(connected.newState, 'move_player', { playerId: 'p1', targetLocationId: roomId }, tools);
+    expect(moved.newState.players[0].locationId).toBe(roomId);
+
+    // Проход только в одну сторону: вернуться нельзя
+    const back = applyToolCall(moved.newState, 'move_player', { playerId: 'p1', targetLocationId: 'loc1' }, tools);
+    expect(back.result).toMatch(/^Ошибка/);
+
+    const closed = applyToolCall(connected.newState, 'disconnect_locations', { fromLocationId: roomId, toLocationId: 'loc1' }, tools);
+    expect(closed.newState.locations.find(l => l.id === 'loc1')?.connections).toEqual([]);
+    expect(applyToolCall(closed.newState, 'move_player', { playerId: 'p1', targetLocationId: roomId }, tools).result).toMatch(/^Ошибка/);
+  });
+
+  test('connect_locations заменяет встречную связь и проверяет ID', () => {
+    const { newState } = applyToolCall(createLibraryState(), 'connect_locations', {
+      fromLocationId: 'loc1', toLocationId: 'loc2', direction: 'in'
+    }, tools);
+    expect(newState.locations[0].connections).toEqual([{ targetLocationId: 'loc2', type: 'in' }]);
+    expect(newState.locations[1].connections).toEqual([]);
+
+    const missing = applyToolCall(createLibraryState(), 'connect_locations', {
+      fromLocationId: 'loc1', toLocationId: 'loc_ghost', direction: 'out'
+    }, tools);
+    expect(missing.result).toBe('Ошибка: Локация "loc_ghost" не найдена');
+  });
+});
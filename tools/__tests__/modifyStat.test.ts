@@ -0,0 +1,83 @@
+import { describe, test, expect } from 'vitest';
+import { applyToolCall } from '../../services/toolExecution';
+import modifyStatTool from '../modifyStat';
+import movePlayerTool from '../movePlayer';
+import { GameState } from '../../types';
+import { createTestLocation, createTestPlayer, createTestState } from '../../__tests__/fixtures';
+
+const createStatsState = (): GameState => createTestState({
+  world: {
+    ...createTestState().world,
+    statDefinitions: [
+      { id: 'stamina', name: 'Выносливость', min: 0, max: 50, initial: 50, thresholds: [{ atOrBelow: 10, state: 'измотан' }, { atOrBelow: 0, state: 'без сил' }] }
+    ]
+  },
+  players: [createTestPlayer({ health: 40, condition: 'alive' })]
+});
+
+const tools = [modifyStatTool, movePlayerTool];
+
+describe('modify_stat - числовые характеристики', () => {
+  test('health ограничивается диапазоном, пороги меняют condition', () => {
+    const wounded = applyToolCall(createStatsState(), 'modify_stat', { playerId: 'p1', stat: 'health', delta: -35, reason: 'удар ножом' }, tools);
+    expect(wounded.newState.players[0]).toMatchObject({ health: 5, condition: 'incapacitated' });
+    expect(wounded.result).toBe('Игрок "Tester": health 40 → 5 — удар ножом. Персонаж недееспособен');
+
+    const healed = applyToolCall(wounded.newState, 'modify_stat', { playerId: 'p1', stat: 'health', delta: 500 }, tools);
+    expect(healed.newState.players[0]).toMatchObject({ health: 100, condition: 'alive' });
+    expect(healed.result).toContain('(ограничено диапазоном 0..100)');
+
+    const capped = applyToolCall(healed.newState, 'modify_stat', { playerId: 'p1', stat: 'maxHealth', value: 60 }, tools);
+    expect(capped.newState.players[0]).toMatchObject({ health: 60, maxHealth: 60 });
+  });
+
+  test('пороги характеристики мира задают и снимают state', () => {
+    const tired = applyToolCall(createStatsState(), 'modify_stat', { playerId: 'p1', stat: 'stamina', delta: -45 }, tools);
+    expect(tired.newState.players[0]).toMatchObject({ stats: { stamina: 5 }, state: 'измотан' });
+
+    const exhausted = applyToolCall(tired.newState, 'modify_stat', { playerId: 'p1', stat: 'stamina', delta: -20 }, tools);
+    expect(exhausted.newState.players[0]).toMatchObject({ stats: { stamina: 0 }, state: 'без сил' });
+
+    const rested = applyToolCall(exhausted.newState, 'modify_stat', { playerId: 'p1', stat: 'stamina', value: 30 }, tools);
+    expect(rested.newState.players[0]).toMatchObject({ stats: { stamina: 30 }, state: 'normal' });
+    expect(rested.result).toBe('Игрок "Tester": stamina 0 → 30. Состояние "без сил" снято');
+
+    expect(applyToolCall(createStatsState(), 'modify_stat', { playerId: 'p1', stat: 'mana', delta: 1 }, tools).result)
+      .toBe('Ошибка: Характеристика "mana" не найдена. Доступные: health, maxHealth, stamina');
+  });
+
+  test('maxHealth не опускается до порога недееспособности, после снижения персонаж может идти', () => {
+    const state = createTestState({
+      locations: [
+        createTestLocation({ connections: [{ targetLocationId: 'loc2', type: 'bidirectional' }] }),
+        createTestLocation({ id: 'loc2', name: 'Tunnel', connections: [{ targetLocationId: 'loc1', type: 'bidirectional' }] })
+      ]
+    });
+
+    const rejected = applyToolCall(state, 'modify_stat', { playerId: 'p1', stat: 'maxHealth', value: 8 }, tools);
+    expect(rejected.newState.players[0]).toMatchObject({ health: 100, condition: 'alive' });
+    expect(rejected.newState.players[0].maxHealth).toBeUndefined();
+    expect(rejected.result).toBe('Ошибка: maxHealth 8 для "Tester" должен быть выше порога недееспособности (10)');
+
+    const weakened = applyToolCall(state, 'modify_stat', { playerId: 'p1', stat: 'maxHealth', value: 20 }, tools);
+    expect(weakened.newState.players[0]).toMatchObject({ health: 20, maxHealth: 20, condition: 'alive' });
+
+    const moved = applyToolCall(weakened.newState, 'move_player', { playerId: 'p1', targetLocationId: 'loc2' }, tools);
+    expect(moved.result).not.toMatch(/^Ошибка/);
+    expect(moved.newState.players[0].locationId).toBe('loc2');
+  });
+
+  test('пороги здоровья берутся из world.healthThresholds', () => {
+    const state = createTestState({
+      world: { ...createTestState().world, healthThresholds: { incapacitatedAtOrBelow: 2, deadAtOrBelow: -5 } }
+    });
+
+    const low = applyToolCall(state, 'modify_stat', { playerId: 'p1', stat: 'maxHealth', value: 8 }, tools);
+    expect(low.newState.players[0]).toMatchObject({ health: 8, maxHealth: 8, condition: 'alive' });
+
+    const downed = applyToolCall(low.newState, 'modify_stat', { playerId: 'p1', stat: 'health', value: 0 }, tools);
+    expect(downed.newState.players[0].condition).toBe('incapacitated');
+    expect(applyToolCall(low.newState, 'modify_stat', { playerId: 'p1', stat: 'maxHealth', value: 2 }, tools).result)
+      .toBe('Ошибка: maxHealth 2 для "Tester" должен быть выше порога недееспособности (2)');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, test, expect } from 'vitest';
+import { applyToolCall } from '../../services/toolExecution';
+import createPlayerTool from '../createPlayer';
+import removePlayerTool from '../removePlayer';
+import movePlayerTool from '../movePlayer';
+import { GameState } from '../../types';
+import { createTestLocation, createTestPlayer, createTestState } from '../../__tests__/fixtures';
+
+// Бар и улица связаны проходом; у игрока портфель с документами
+const createStreetState = (): GameState => createTestState({
+  locations: [
+    createTestLocation({ name: 'Бар', connections: [{ targetLocationId: 'loc2', type: 'bidirectional' }] }),
+    createTestLocation({ id: 'loc2', name: 'Улица' })
+  ],
+  players: [createTestPlayer({ inventory: ['o1'] })],
+  objects: [
+    { id: 'o1', name: 'Портфель', connectionId: 'p1', attributes: {} },
+    { id: 'o2', name: 'Документы', connectionId: 'o1', attributes: {} }
+  ]
+});
+
+const tools = [createPlayerTool, removePlayerTool, movePlayerTool];
+
+describe('Инструменты жизненного цикла персонажей', () => {
+  test('create_player добавляет персонажа, condition следует за health', () => {
+    const created = applyToolCall(createStreetState(), 'create_player', {
+      name: 'Напарник', description: 'Молчаливый', locationId: 'loc2', health: 8
+    }, tools);
+    const companion = created.newState.players.find(p => p.id === created.createdId);
+
+    expect(created.createdId).toMatch(/^char_/);
+    expect(companion).toMatchObject({ name: 'Напарник', locationId: 'loc2', health: 8, condition: 'incapacitated', inventory: [] });
+    expect(created.newState.players[0].condition).toBe('alive');
+
+    // Недееспособный персонаж не может идти сам
+    const moved = applyToolCall(created.newState, 'move_player', { playerId: created.createdId, targetLocationId: 'loc1' }, tools);
+    expect(moved.result).toMatch(/^Ошибка: Игрок "Напарник" недееспособен/);
+
+    expect(applyToolCall(createStreetState(), 'create_player', {
+      name: 'X', description: 'Y', locationId: 'loc_ghost'
+    }, tools).result).toBe('Ошибка: Локация "loc_ghost" не найдена');
+  });
+
+  test('remove_player оставляет предметы персонажа в его локации', () => {
+    const { newState, result } = applyToolCall(createStreetState(), 'remove_player', { playerId: 'p1', reason: 'уехал из города' }, tools);
+
+    expect(newState.players).toEqual([]);
+    expect(newState.objects).toEqual([
+      { id: 'o1', name: 'Портфель', connectionId: 'loc1', attributes: {} },
+      { id: 'o2', name: 'Документы', connectionId: 'o1', attributes: {} }
+    ]);
+    expect(result).toBe('Персонаж "Tester" покинул игру (уехал из города). Его предметы остались в локации "Бар": "Портфель"');
+  });
+});
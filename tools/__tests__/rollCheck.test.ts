@@ -0,0 +1,47 @@
+import { describe, test, expect } from 'vitest';
+import { applyToolCall, replayToolCalls } from '../../services/toolExecution';
+import rollCheckTool from '../rollCheck';
+import { parseDiceExpression, getRollTier } from '../../utils/dice';
+import { GameState } from '../../types';
+import { createTestState } from '../../__tests__/fixtures';
+
+const createSeededState = (): GameState => createTestState({ dice: { seed: 42, cursor: 0 } });
+
+const tools = [rollCheckTool];
+
+describe('roll_check - воспроизводимые броски', () => {
+  test('разбор выражений и уровни успеха', () => {
+    expect(parseDiceExpression('2к6 + 3')).toMatchObject({ modifier: 3, normalized: '2d6+3' });
+    expect(parseDiceExpression('d20-1d4-1').normalized).toBe('1d20-1d4-1');
+    expect(() => parseDiceExpression('2d')).toThrow('Некорректное выражение броска "2d"');
+    expect(() => parseDiceExpression('5')).toThrow('нет кубиков');
+
+    expect([25, 12, 9, 6, 0].map(total => getRollTier(total, 12)))
+      .toEqual(['critical_success', 'success', 'partial_success', 'failure', 'critical_failure']);
+  });
+
+  test('одинаковое состояние даёт одинаковые броски, курсор сдвигается', () => {
+    const first = applyToolCall(createSeededState(), 'roll_check', { expression: '2d6+3', difficulty: 10, check: 'взлом замка' }, tools);
+    const again = applyToolCall(createSeededState(), 'roll_check', { expression: '2d6+3', difficulty: 10, check: 'взлом замка' }, tools);
+
+    expect(again).toEqual(first);
+    expect(first.newState.dice).toEqual({ seed: 42, cursor: 2 });
+    expect(first.roll!.rolls).toHaveLength(2);
+    first.roll!.rolls.forEach(face => expect(face).toBeGreaterThanOrEqual(1));
+    first.roll!.rolls.forEach(face => expect(face).toBeLessThanOrEqual(6));
+    expect(first.roll!.total).toBe(first.roll!.rolls[0] + first.roll!.rolls[1] + 3);
+    expect(first.result).toMatch(/^Бросок 2d6\+3 \(взлом замка\): \[\d, \d\] \+3 = \d+ против сложности 10 — /);
+
+    // Следующий бросок продолжает последовательность, а пересчёт плана её повторяет
+    const calls = [
+      { name: 'roll_check', args: { expression: 'd20' }, result: '' },
+      { name: 'roll_check', args: { expression: 'd20' }, result: '' }
+    ];
+    const replayed = replayToolCalls(createSeededState(), calls, tools);
+    expect(replayed.newState.dice).toEqual({ seed: 42, cursor: 2 });
+    expect(replayToolCalls(createSeededState(), calls, tools).logs).toEqual(replayed.logs);
+
+    expect(applyToolCall(createSeededState(), 'roll_check', { expression: '1d1' }, tools).result)
+      .toBe('Ошибка: Число граней должно быть от 2 до 1000: "1d1"');
+  });
+});
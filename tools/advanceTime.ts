@@ -0,0 +1,85 @@
+import { GameTool, GameState, DayPhase } from '../types';
+import { Type } from "@google/genai";
+import {
+  advanceWorldClock,
+  createWorldClock,
+  formatDuration,
+  formatWorldTime,
+  getMinutesUntilPhase,
+  DAY_PHASE_LABELS,
+  MAX_ADVANCE_MINUTES
+} from '../utils/worldClock';
+
+const tool: GameTool = {
+  definition: {
+    name: "advance_time",
+    description: "Продвинуть игровое время: персонажи ждут, спят, путешествуют, долго работают. Укажи длительность (hours и/или minutes) ЛИБО untilPhase, чтобы дождаться начала фазы суток (утро 05:00, день 12:00, вечер 18:00, ночь 22:00). Время само не идёт — без этого инструмента 'подождать до ночи' не меняет мир. По истечении времени срабатывают отложенные изменения атрибутов (напр. временные эффекты set_attribute с durationMinutes).",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        hours: {
+          type: Type.INTEGER,
+          minimum: 0,
+          description: "Сколько часов проходит."
+        },
+        minutes: {
+          type: Type.INTEGER,
+          minimum: 0,
+          description: "Сколько минут проходит (в дополнение к hours)."
+        },
+        untilPhase: {
+          type: Type.STRING,
+          enum: ["morning", "day", "evening", "night"],
+          description: "Ждать до ближайшего начала фазы суток: 'morning', 'day', 'evening' или 'night'."
+        },
+        reason: {
+          type: Type.STRING,
+          description: "Что происходит за это время (для лога, напр. 'сон до утра')."
+        }
+      },
+    },
+  },
+  apply: (state: GameState, args: any) => {
+    const { hours, minutes, untilPhase, reason } = args;
+    const hasDuration = hours !== undefined || minutes !== undefined;
+
+    if (hasDuration === !!untilPhase) {
+      return {
+        newState: state,
+        result: `Ошибка: Укажи либо длительность (hours/minutes), либо untilPhase`
+      };
+    }
+
+    const clock = state.clock ?? createWorldClock();
+    const delta = untilPhase
+      ? getMinutesUntilPhase(clock, untilPhase as DayPhase)
+      : (hours ?? 0) * 60 + (minutes ?? 0);
+
+    if (delta <= 0) {
+      return {
+        newState: state,
+        result: `Ошибка: Время должно продвинуться хотя бы на минуту`
+      };
+    }
+    if (delta > MAX_ADVANCE_MINUTES) {
+      return {
+        newState: state,
+        result: `Ошибка: За один вызов время продвигается не больше чем на ${formatDuration(MAX_ADVANCE_MINUTES)}`
+      };
+    }
+
+    const { newState, fired } = advanceWorldClock(state, delta);
+
+    let result = `Прошло ${formatDuration(delta)}${untilPhase ? ` (до: ${DAY_PHASE_LABELS[untilPhase as DayPhase]})` : ''}${reason ? ` — ${reason}` : ''}: ${formatWorldTime(clock)} → ${formatWorldTime(newState.clock!)}`;
+    if (fired.length > 0) {
+      result += `. Истекли эффекты: ${fired.map(f => f.description).join('; ')}`;
+    }
+
+    return {
+      newState,
+      result
+    };
+  }
+};
+
+export default tool;
@@ -0,0 +1,88 @@
+import { GameTool, GameState } from '../types';
+import { Type } from "@google/genai";
+import { cloneState } from '../utils/gameUtils';
+
+const tool: GameTool = {
+  definition: {
+    name: "connect_locations",
+    description: "Связать две локации проходом (открылась дверь, найден тайный ход, расчищен завал). Если связь между ними уже есть, её направление заменяется. Для локаций, созданных в этом же ответе, можно использовать ссылки $N.createdId.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        fromLocationId: {
+          type: Type.STRING,
+          description: "ID локации, от которой задаётся связь (формат: loc_xxx или $N.createdId)."
+        },
+        toLocationId: {
+          type: Type.STRING,
+          description: "ID второй локации (формат: loc_xxx или $N.createdId)."
+        },
+        direction: {
+          type: Type.STRING,
+          enum: ["in", "out", "bidirectional"],
+          description: "Направление прохода: 'out' — из fromLocationId можно пройти в toLocationId, 'in' — из toLocationId можно пройти в fromLocationId, 'bidirectional' — в обе стороны."
+        }
+      },
+      required: ["fromLocationId", "toLocationId", "direction"],
+    },
+  },
+  apply: (state: GameState, args: any) => {
+    const { fromLocationId, toLocationId, direction } = args;
+
+    // Валидация пустых значений
+    if (!fromLocationId || !toLocationId || !direction) {
+      return {
+        newState: state,
+        result: `Ошибка: fromLocationId, toLocationId и direction обязательны`
+      };
+    }
+
+    if (fromLocationId === toLocationId) {
+      return {
+        newState: state,
+        result: `Ошибка: Локация не может быть связана сама с собой`
+      };
+    }
+
+    const clonedState = cloneState(state);
+    const fromLocation = clonedState.locations.find(l => l.id === fromLocationId);
+    const toLocation = clonedState.locations.find(l => l.id === toLocationId);
+
+    if (!fromLocation) {
+      return {
+        newState: state,
+        result: `Ошибка: Локация "${fromLocationId}" не найдена`
+      };
+    }
+
+    if (!toLocation) {
+      return {
+        newState: state,
+        result: `Ошибка: Локация "${toLocationId}" не найдена`
+      };
+    }
+
+    // Связь хранится у одной из локаций: встречную связь toLocation → fromLocation
+    // убираем, чтобы направление определялось только новой связью
+    const replaced = fromLocation.connections.some(c => c.targetLocationId === toLocationId)
+      || toLocation.connections.some(c => c.targetLocationId === fromLocationId);
+    toLocation.connections = toLocation.connections.filter(c => c.targetLocationId !== fromLocationId);
+    fromLocation.connections = [
+      ...fromLocation.connections.filter(c => c.targetLocationId !== toLocationId),
+      { targetLocationId: toLocationId, type: direction }
+    ];
+
+    const directionInfo = direction === 'bidirectional'
+      ? 'в обе стороны'
+      : direction === 'out'
+        ? `из "${fromLocation.name}" в "${toLocation.name}"`
+        : `из "${toLocation.name}" в "${fromLocation.name}"`;
+
+    return {
+      newState: clonedState,
+      result: `${replaced ? 'Связь изменена' : 'Создана связь'} между локациями "${fromLocation.name}" и "${toLocation.name}": проход ${directionInfo}`
+    };
+  }
+};
+
+export default tool;
@@ -0,0 +1,97 @@
+import { GameTool, GameState, LocationData } from '../types';
+import { Type } from "@google/genai";
+import { cloneState, createEntityId } from '../utils/gameUtils';
+
+const tool: GameTool = {
+  definition: {
+    name: "create_location",
+    description: "Создать новую локацию в мире игры. Используй, когда в нарративе открывается новое место (комната за книжным шкафом, подвал, переулок за углом). Можно сразу связать её с существующей локацией. Инструмент возвращает скрытый идентификатор createdId, который можно использовать в этом же ответе модели в аргументах других инструментов через ссылки вида $N.createdId (где N — индекс вызова инструмента в общем списке вызовов этого ответа, начиная с 0), например чтобы переместить туда игрока или объект.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: {
+          type: Type.STRING,
+          description: "Название локации (напр. 'Тайная комната', 'Подвал клуба')."
+        },
+        description: {
+          type: Type.STRING,
+          description: "Описание локации: как она выглядит, чем пахнет, что в ней постоянно."
+        },
+        currentSituation: {
+          type: Type.STRING,
+          description: "Что происходит в локации сейчас (напр. 'темно и тихо, капает вода')."
+        },
+        connectToLocationId: {
+          type: Type.STRING,
+          description: "ID существующей локации, с которой связать новую (формат: loc_xxx). Если не указан, локация создаётся без связей — их можно добавить через connect_locations."
+        },
+        connectionType: {
+          type: Type.STRING,
+          enum: ["in", "out", "bidirectional"],
+          description: "Направление связи от новой локации к connectToLocationId: 'out' — из новой можно пройти туда, 'in' — оттуда можно пройти в новую, 'bidirectional' — в обе стороны (по умолчанию)."
+        }
+      },
+      required: ["name", "description"],
+    },
+  },
+  apply: (state: GameState, args: any) => {
+    const { name, description, currentSituation, connectToLocationId, connectionType } = args;
+
+    // Валидация обязательных полей
+    if (!name || !description) {
+      return {
+        newState: state,
+        result: `Ошибка: name и description обязательны для создания локации`
+      };
+    }
+
+    const clonedState = cloneState(state);
+
+    const connectedLocation = connectToLocationId
+      ? clonedState.locations.find(l => l.id === connectToLocationId)
+      : undefined;
+    if (connectToLocationId && !connectedLocation) {
+      return {
+        newState: state,
+        result: `Ошибка: Локация "${connectToLocationId}" для связи не найдена`
+      };
+    }
+
+    // Генерация уникального ID
+    const newId = createEntityId('loc');
+
+    // Проверка на дубликат ID (маловероятно, но для надёжности)
+    if (clonedState.locations.some(l => l.id === newId)) {
+      return {
+        newState: state,
+        result: `Ошибка: Не удалось сгенерировать уникальный ID для локации`
+      };
+    }
+
+    const newLocation: LocationData = {
+      id: newId,
+      name: name.trim(),
+      description,
+      currentSituation: currentSituation || '',
+      state: 'normal',
+      connections: connectedLocation
+        ? [{ targetLocationId: connectedLocation.id, type: connectionType || 'bidirectional' }]
+        : [],
+      attributes: {}
+    };
+
+    clonedState.locations.push(newLocation);
+
+    const connectionInfo = connectedLocation
+      ? `, связь с "${connectedLocation.name}" (${newLocation.connections[0].type})`
+      : ', без связей';
+
+    return {
+      newState: clonedState,
+      result: `Создана новая локация "${name}" (${newId})${connectionInfo}.`,
+      createdId: newId
+    };
+  }
+};
+
+export default tool;
@@ -1,6 +1,6 @@
 import { GameTool, GameState } from '../types';
 import { Type } from "@google/genai";
-import { cloneState } from '../utils/gameUtils';
+import { cloneState, createEntityId } from '../utils/gameUtils';
 
 const tool: GameTool = {
   definition: {
@@ -15,7 +15,7 @@ const tool: GameTool = {
         },
         connectionId: { 
           type: Type.STRING, 
-          description: "ID владельца/контейнера: ID игрока (объект у него), ID локации (лежит там), или ID другого объекта (внутри контейнера)." 
+          description: "ID владельца/контейнера: ID игрока или NPC (объект у него), ID локации (лежит там), или ID другого объекта (внутри контейнера)." 
         },
         attributes: { 
           type: Type.STRING,
@@ -38,22 +38,21 @@ const tool: GameTool = {
     
     const clonedState = cloneState(state);
     
-    // Проверка существования connectionId (должен быть игрок, локация или объект)
+    // Проверка существования connectionId (должен быть игрок, NPC, локация или объект)
     const targetPlayer = clonedState.players.find(p => p.id === connectionId);
+    const targetNpc = clonedState.npcs.find(n => n.id === connectionId);
     const targetLocation = clonedState.locations.find(l => l.id === connectionId);
     const targetObject = clonedState.objects.find(o => o.id === connectionId);
     
-    if (!targetPlayer && !targetLocation && !targetObject) {
+    if (!targetPlayer && !targetNpc && !targetLocation && !targetObject) {
       return { 
         newState: state, 
-        result: `Ошибка: Цель "${connectionId}" не найдена (не игрок, не локация, не объект)` 
+        result: `Ошибка: Цель "${connectionId}" не найдена (не игрок, не NPC, не локация, не объект)` 
       };
     }
     
     // Генерация уникального ID
-    const timestamp = Date.now();
-    const randomSuffix = Math.random().toString(36).substring(2, 6);
-    const newId = `obj_${timestamp}_${randomSuffix}`;
+    const newId = createEntityId('obj');
     
     // Проверка на дубликат ID (маловероятно, но для надёжности)
     if (clonedState.objects.some(o => o.id === newId)) {
@@ -149,6 +148,8 @@ const tool: GameTool = {
     let locationInfo = "";
     if (targetPlayer) {
       locationInfo = `у игрока "${targetPlayer.name}"`;
+    } else if (targetNpc) {
+      locationInfo = `у NPC "${targetNpc.name}"`;
     } else if (targetLocation) {
       locationInfo = `в локации "${targetLocation.name}"`;
     } else if (targetObject) {
@@ -0,0 +1,88 @@
+import { GameTool, GameState, PlayerData } from '../types';
+import { Type } from "@google/genai";
+import { cloneState, getHealthThresholds, getPlayerCondition, createEntityId } from '../utils/gameUtils';
+
+const tool: GameTool = {
+  definition: {
+    name: "create_player",
+    description: "Добавить в игру нового персонажа под управлением игроков (к группе присоединился спутник, появился новый герой). Для неигровых персонажей этот инструмент не используется. Инструмент возвращает скрытый идентификатор createdId, который можно использовать в этом же ответе модели через ссылки вида $N.createdId (где N — индекс вызова инструмента в общем списке вызовов этого ответа, начиная с 0), например чтобы передать персонажу объект через move_object.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: {
+          type: Type.STRING,
+          description: "Имя персонажа."
+        },
+        description: {
+          type: Type.STRING,
+          description: "Описание внешности и характера персонажа."
+        },
+        locationId: {
+          type: Type.STRING,
+          description: "ID локации, где появляется персонаж (формат: loc_xxx или $N.createdId)."
+        },
+        health: {
+          type: Type.INTEGER,
+          minimum: 1,
+          maximum: 100,
+          description: "Начальное здоровье от 1 до 100 (по умолчанию 100)."
+        }
+      },
+      required: ["name", "description", "locationId"],
+    },
+  },
+  apply: (state: GameState, args: any) => {
+    const { name, description, locationId, health } = args;
+
+    // Валидация обязательных полей
+    if (!name || !description || !locationId) {
+      return {
+        newState: state,
+        result: `Ошибка: name, description и locationId обязательны для создания персонажа`
+      };
+    }
+
+    const clonedState = cloneState(state);
+
+    const location = clonedState.locations.find(l => l.id === locationId);
+    if (!location) {
+      return {
+        newState: state,
+        result: `Ошибка: Локация "${locationId}" не найдена`
+      };
+    }
+
+    // Генерация уникального ID
+    const newId = createEntityId('char');
+
+    if (clonedState.players.some(p => p.id === newId)) {
+      return {
+        newState: state,
+        result: `Ошибка: Не удалось сгенерировать уникальный ID для персонажа`
+      };
+    }
+
+    const initialHealth = health ?? 100;
+    const newPlayer: PlayerData = {
+      id: newId,
+      name: name.trim(),
+      description,
+      inventory: [],
+      health: initialHealth,
+      condition: getPlayerCondition(initialHealth, getHealthThresholds(clonedState.world)),
+      state: 'normal',
+      locationId,
+      attributes: {}
+    };
+
+    clonedState.players.push(newPlayer);
+
+    return {
+      newState: clonedState,
+      result: `Создан новый персонаж "${newPlayer.name}" (${newId}) в локации "${location.name}", здоровье ${initialHealth}.`,
+      createdId: newId
+    };
+  }
+};
+
+export default tool;
@@ -1,18 +1,19 @@
 import { GameTool, GameState } from '../types';
 import { Type } from "@google/genai";
 import { cloneState } from '../utils/gameUtils';
+import { cancelAttributeEffect } from '../utils/worldClock';
 
 const tool: GameTool = {
   definition: {
     name: "delete_attribute",
-    description: "Удалить характеристику у игрока, объекта или локации. Используй этот инструмент, когда характеристика больше не актуальна или должна быть полностью удалена (например, эффект закончился, состояние прошло).",
+    description: "Удалить характеристику у игрока, NPC, объекта или локации. Используй этот инструмент, когда характеристика больше не актуальна или должна быть полностью удалена (например, эффект закончился, состояние прошло).",
     parameters: {
       type: Type.OBJECT,
       properties: {
         entityType: {
           type: Type.STRING,
-          enum: ["player", "object", "location"],
-          description: "Тип сущности: 'player' для игрока, 'object' для объекта, 'location' для локации."
+          enum: ["player", "npc", "object", "location"],
+          description: "Тип сущности: 'player' для игрока, 'npc' для неигрового персонажа, 'object' для объекта, 'location' для локации."
         },
         entityId: {
           type: Type.STRING,
@@ -37,10 +38,10 @@ const tool: GameTool = {
       };
     }
 
-    if (!["player", "object", "location"].includes(entityType)) {
+    if (!["player", "npc", "object", "location"].includes(entityType)) {
       return {
         newState: state,
-        result: `Ошибка: entityType должен быть 'player', 'object' или 'location'`
+        result: `Ошибка: entityType должен быть 'player', 'npc', 'object' или 'location'`
       };
     }
 
@@ -53,6 +54,9 @@ const tool: GameTool = {
     if (entityType === "player") {
       entity = clonedState.players.find(p => p.id === entityId);
       entityName = entity?.name || entityId;
+    } else if (entityType === "npc") {
+      entity = clonedState.npcs.find(n => n.id === entityId);
+      entityName = entity?.name || entityId;
     } else if (entityType === "object") {
       entity = clonedState.objects.find(o => o.id === entityId);
       entityName = entity?.name || entityId;
@@ -83,7 +87,8 @@ const tool: GameTool = {
     delete entity.attributes[attributeName];
 
     return {
-      newState: clonedState,
+      // Запланированный откат удалённого атрибута больше не нужен
+      newState: cancelAttributeEffect(clonedState, entityType, entityId, attributeName),
       result: `Характеристика "${attributeName}" удалена у ${entityType} "${entityName}" (было: "${previousValue}")`
     };
   }
@@ -1,6 +1,6 @@
 import { GameTool, GameState } from '../types';
 import { Type } from "@google/genai";
-import { cloneState, getAllDescendants, findRootLocationOrPlayer } from '../utils/gameUtils';
+import { cloneState, getAllDescendants, findRootLocationOrPlayer, reparentDirectChildren } from '../utils/gameUtils';
 
 const tool: GameTool = {
   definition: {
@@ -72,24 +72,15 @@ const tool: GameTool = {
       targetConnectionId = rootLocationOrPlayer || undefined;
     }
     
-    // Находим только ПРЯМЫХ потомков (не рекурсивно!)
-    // Это объекты, у которых connectionId === objectId
-    const directChildren = clonedState.objects.filter(o => o.connectionId === objectId);
-    
-    // Перемещаем только прямых потомков к найденной цели
+    // Перемещаем только ПРЯМЫХ потомков к найденной цели
     // Вложенные потомки остаются на своих местах (их connectionId указывает на прямых потомков)
-    for (const directChild of directChildren) {
-      const childIndex = clonedState.objects.findIndex(o => o.id === directChild.id);
-      if (childIndex !== -1) {
-        clonedState.objects[childIndex].connectionId = targetConnectionId;
-      }
-    }
+    clonedState.objects = reparentDirectChildren(clonedState.objects, objectId, targetConnectionId);
     
     // Для информативного сообщения находим всех потомков рекурсивно
     const allDescendants = getAllDescendants(objectId, clonedState.objects);
     
     // Удалить объект из массива
-    clonedState.objects.splice(objectIndex, 1);
+    clonedState.objects = clonedState.objects.filter(o => o.id !== objectId);
     
     // Формируем информативное сообщение
     let result = `Объект "${objectName}" удалён`;
@@ -0,0 +1,73 @@
+import { GameTool, GameState } from '../types';
+import { Type } from "@google/genai";
+import { cloneState } from '../utils/gameUtils';
+
+const tool: GameTool = {
+  definition: {
+    name: "disconnect_locations",
+    description: "Убрать проход между двумя локациями (дверь заперта, мост обрушился, ход завален). Удаляются связи в обоих направлениях — игроки больше не смогут перемещаться между этими локациями через move_player.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        fromLocationId: {
+          type: Type.STRING,
+          description: "ID первой локации (формат: loc_xxx)."
+        },
+        toLocationId: {
+          type: Type.STRING,
+          description: "ID второй локации (формат: loc_xxx)."
+        }
+      },
+      required: ["fromLocationId", "toLocationId"],
+    },
+  },
+  apply: (state: GameState, args: any) => {
+    const { fromLocationId, toLocationId } = args;
+
+    // Валидация пустых значений
+    if (!fromLocationId || !toLocationId) {
+      return {
+        newState: state,
+        result: `Ошибка: fromLocationId и toLocationId обязательны`
+      };
+    }
+
+    const clonedState = cloneState(state);
+    const fromLocation = clonedState.locations.find(l => l.id === fromLocationId);
+    const toLocation = clonedState.locations.find(l => l.id === toLocationId);
+
+    if (!fromLocation) {
+      return {
+        newState: state,
+        result: `Ошибка: Локация "${fromLocationId}" не найдена`
+      };
+    }
+
+    if (!toLocation) {
+      return {
+        newState: state,
+        result: `Ошибка: Локация "${toLocationId}" не найдена`
+      };
+    }
+
+    const hasConnection = fromLocation.connections.some(c => c.targetLocationId === toLocationId)
+      || toLocation.connections.some(c => c.targetLocationId === fromLocationId);
+
+    if (!hasConnection) {
+      return {
+        newState: state,
+        result: `Ошибка: Между локациями "${fromLocation.name}" и "${toLocation.name}" нет связи`
+      };
+    }
+
+    fromLocation.connections = fromLocation.connections.filter(c => c.targetLocationId !== toLocationId);
+    toLocation.connections = toLocation.connections.filter(c => c.targetLocationId !== fromLocationId);
+
+    return {
+      newState: clonedState,
+      result: `Проход между локациями "${fromLocation.name}" и "${toLocation.name}" закрыт`
+    };
+  }
+};
+
+export default tool;
@@ -1,53 +1,86 @@
-import { GameTool } from '../types';
-
-// --- Manual Fallback List ---
-// Используется, если среда не поддерживает автоматическое сканирование (require.context)
-import moveObject from './moveObject';
-import movePlayer from './movePlayer';
-import setAttribute from './setAttribute';
-import deleteAttribute from './deleteAttribute';
-import createObject from './createObject';
-import deleteObject from './deleteObject';
-
-let tools: GameTool[] = [
-  moveObject,
-  movePlayer,
-  setAttribute,
-  deleteAttribute,
-  createObject,
-  deleteObject
-];
-
-// --- Auto-Loader Mechanism ---
-// Попытка использовать Webpack require.context для автоматического сканирования папки.
-// Если вы добавите новый файл .ts в эту папку, он будет автоматически зарегистрирован, 
-// если ваш сборщик поддерживает эту функцию.
-
-try {
-  // @ts-ignore: require.context is a webpack macro
-  if (typeof require !== 'undefined' && require.context) {
-    // @ts-ignore
-    const context = require.context('./', false, /^\.\/(?!index).*\.ts$/);
-    
-    const autoLoadedTools: GameTool[] = [];
-    
-    context.keys().forEach((key: string) => {
-      // Import the module
-      const module = context(key);
-      // Check if it has a default export matching our interface
-      if (module.default && module.default.definition && module.default.apply) {
-        autoLoadedTools.push(module.default);
-      }
-    });
-
-    if (autoLoadedTools.length > 0) {
-      console.log(`[Tools Registry] Auto-loaded ${autoLoadedTools.length} tools via require.context.`);
-      tools = autoLoadedTools;
+/// <reference types="vite/client" />
+import { DeclarativeToolFile, GameTool } from '../types';
+import { buildToolRegistry } from '../utils/toolRegistry';
+import { compileDeclarativeTool, fetchDeclarativeToolFiles } from '../utils/declarativeTools';
+
+// --- Auto-Discovery ---
+// Все модули tools/*.ts с default-экспортом GameTool регистрируются автоматически:
+// чтобы добавить инструмент, достаточно создать файл в этой папке.
+const builtinModules = import.meta.glob<{ default?: unknown }>(['./*.ts', '!./index.ts'], { eager: true });
+
+// --- Store ---
+// Хранилище переживает горячую замену модуля (import.meta.hot.data): App подписан
+// на хранилище первой версии модуля, а новые версии только обновляют в нём список.
+interface ToolStore {
+  tools: GameTool[];
+  errors: string[];
+  declarativeFiles: DeclarativeToolFile[];
+  listeners: Set<() => void>;
+}
+
+const store: ToolStore = import.meta.hot?.data.toolStore ?? { tools: [], errors: [], declarativeFiles: [], listeners: new Set() };
+
+// Встроенные и декларативные инструменты в одном реестре. Ключи custom-tools/...
+// сортируются после ./*.ts, поэтому при совпадении имени побеждает встроенный
+const rebuildRegistry = () => {
+  const modules: Record<string, { default?: unknown }> = { ...builtinModules };
+  const compileErrors: string[] = [];
+
+  store.declarativeFiles.forEach(({ file, definition, error }) => {
+    const key = `custom-tools/${file}`;
+    try {
+      if (error) throw new Error(error);
+      modules[key] = { default: compileDeclarativeTool(definition!, key) };
+    } catch (e: any) {
+      compileErrors.push(`${key}: ${e.message}`);
     }
+  });
+
+  const registry = buildToolRegistry(modules);
+  store.tools = registry.tools;
+  store.errors = [...compileErrors, ...registry.errors];
+  store.errors.forEach(error => console.error(`[Tools Registry] ❌ ${error}`));
+  console.log(`[Tools Registry] Loaded ${store.tools.length} tools: ${store.tools.map(t => t.definition.name).join(', ')}`);
+};
+
+rebuildRegistry();
+
+export const getTools = (): GameTool[] => store.tools;
+
+// Ошибки реестра (некорректная форма модуля, дубликат имени, ошибка в JSON-описании) для показа в UI
+export const getToolRegistryErrors = (): string[] => store.errors;
+
+export const subscribeToTools = (listener: () => void) => {
+  store.listeners.add(listener);
+  return () => {
+    store.listeners.delete(listener);
+  };
+};
+
+/**
+ * Загружает декларативные инструменты из custom-tools/ (через /api/custom-tools)
+ * и пересобирает реестр. При недоступном API список встроенных не меняется.
+ */
+export const loadDeclarativeTools = async () => {
+  try {
+    store.declarativeFiles = await fetchDeclarativeToolFiles();
+  } catch (e: any) {
+    console.warn('[Tools Registry] Declarative tools not loaded:', e.message);
+    return;
   }
-} catch (e) {
-  // Игнорируем ошибки, если require.context недоступен (например, в Vite или чистом ES)
-  console.debug("[Tools Registry] Auto-loading skipped (require.context not available). Using manual list.");
-}
+  rebuildRegistry();
+  store.listeners.forEach(listener => listener());
+};
 
-export const ALL_TOOLS = tools;
+// --- HMR ---
+// Правка файла инструмента доходит сюда (модуль импортирует все инструменты) и
+// останавливается: перезагружается только реестр, состояние игры в App остаётся.
+// Изменения в custom-tools/*.json плагин сообщает событием custom-tools:changed.
+if (import.meta.hot) {
+  import.meta.hot.data.toolStore = store;
+  import.meta.hot.accept();
+  import.meta.hot.on('custom-tools:changed', () => {
+    loadDeclarativeTools();
+  });
+  store.listeners.forEach(listener => listener());
+}
@@ -0,0 +1,157 @@
+import { GameTool, GameState, PlayerCondition } from '../types';
+import { Type } from "@google/genai";
+import { cloneState, clampStat, getHealthThresholds, getPlayerCondition, getStatThresholdState, DEFAULT_MAX_HEALTH } from '../utils/gameUtils';
+
+const CONDITION_LABELS: Record<PlayerCondition, string> = {
+  alive: 'жив',
+  incapacitated: 'недееспособен',
+  dead: 'мёртв'
+};
+
+const tool: GameTool = {
+  definition: {
+    name: "modify_stat",
+    description: "Изменить числовую характеристику персонажа: health (здоровье), maxHealth (максимум здоровья) или характеристику мира из world.statDefinitions (по её id). Используй для урона, лечения, усталости и т.п. вместо текстовых атрибутов. Значение ограничивается допустимым диапазоном; при пересечении порогов меняется состояние персонажа (пороги здоровья задаёт world.healthThresholds, по умолчанию health 10 и ниже — недееспособен, 0 — мёртв; maxHealth должен быть выше порога недееспособности; пороги характеристик мира задают state).",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        playerId: {
+          type: Type.STRING,
+          description: "ID персонажа из состояния мира (формат: char_xxx). Не выдумывай ID - используй только существующие."
+        },
+        stat: {
+          type: Type.STRING,
+          description: "Характеристика: 'health', 'maxHealth' или id из world.statDefinitions."
+        },
+        delta: {
+          type: Type.NUMBER,
+          description: "Изменение относительно текущего значения (отрицательное — урон/расход, положительное — восстановление). Укажи либо delta, либо value."
+        },
+        value: {
+          type: Type.NUMBER,
+          description: "Новое абсолютное значение. Укажи либо delta, либо value."
+        },
+        reason: {
+          type: Type.STRING,
+          description: "Причина изменения для лога (напр. 'удар ножом')."
+        }
+      },
+      required: ["playerId", "stat"],
+    },
+  },
+  apply: (state: GameState, args: any) => {
+    const { playerId, stat, delta, value, reason } = args;
+
+    if (!playerId || !stat) {
+      return {
+        newState: state,
+        result: `Ошибка: playerId и stat обязательны для изменения характеристики`
+      };
+    }
+
+    const hasDelta = delta !== undefined && delta !== null;
+    const hasValue = value !== undefined && value !== null;
+    if (hasDelta === hasValue) {
+      return {
+        newState: state,
+        result: `Ошибка: Укажи ровно одно из delta или value для характеристики "${stat}"`
+      };
+    }
+
+    const clonedState = cloneState(state);
+    const player = clonedState.players.find(p => p.id === playerId);
+    if (!player) {
+      return {
+        newState: state,
+        result: `Ошибка: Игрок "${playerId}" не найден`
+      };
+    }
+
+    const maxHealth = player.maxHealth ?? DEFAULT_MAX_HEALTH;
+    const healthThresholds = getHealthThresholds(clonedState.world);
+    const definition = (clonedState.world.statDefinitions ?? []).find(d => d.id === stat);
+    let oldValue: number;
+    let min: number;
+    let max: number;
+
+    if (stat === 'health') {
+      oldValue = player.health;
+      min = 0;
+      max = maxHealth;
+    } else if (stat === 'maxHealth') {
+      oldValue = maxHealth;
+      min = 1;
+      max = Infinity;
+    } else if (definition) {
+      oldValue = player.stats?.[stat] ?? definition.initial;
+      min = definition.min;
+      max = definition.max;
+    } else {
+      const available = ['health', 'maxHealth', ...(clonedState.world.statDefinitions ?? []).map(d => d.id)];
+      return {
+        newState: state,
+        result: `Ошибка: Характеристика "${stat}" не найдена. Доступные: ${available.join(', ')}`
+      };
+    }
+
+    const requested = hasDelta ? oldValue + delta : value;
+
+    // Максимум на пороге недееспособности или ниже сделал бы персонажа недееспособным даже при полном здоровье
+    if (stat === 'maxHealth' && requested <= healthThresholds.incapacitatedAtOrBelow) {
+      return {
+        newState: state,
+        result: `Ошибка: maxHealth ${requested} для "${player.name}" должен быть выше порога недееспособности (${healthThresholds.incapacitatedAtOrBelow})`
+      };
+    }
+
+    const newValue = clampStat(requested, min, max);
+
+    let result = `Игрок "${player.name}": ${stat} ${oldValue} → ${newValue}`;
+    if (newValue !== requested) {
+      result += ` (ограничено диапазоном ${min}..${max === Infinity ? '∞' : max})`;
+    }
+    if (reason) {
+      result += ` — ${reason}`;
+    }
+
+    if (stat === 'health' || stat === 'maxHealth') {
+      const oldCondition = getPlayerCondition(player.health, healthThresholds);
+      if (stat === 'health') {
+        player.health = newValue;
+      } else {
+        player.maxHealth = newValue;
+        // Снижение максимума срезает текущее здоровье
+        if (player.health > newValue) {
+          result += `. health ${player.health} → ${newValue}`;
+          player.health = newValue;
+        }
+      }
+      const condition = getPlayerCondition(player.health, healthThresholds);
+      if (condition !== oldCondition) {
+        result += `. Персонаж ${CONDITION_LABELS[condition]}`;
+      }
+      player.condition = condition;
+    } else {
+      player.stats = { ...(player.stats || {}), [stat]: newValue };
+      const oldThresholdState = getStatThresholdState(definition!, oldValue);
+      const newThresholdState = getStatThresholdState(definition!, newValue);
+      if (newThresholdState !== oldThresholdState) {
+        if (newThresholdState) {
+          player.state = newThresholdState;
+          result += `. Состояние: "${newThresholdState}"`;
+        } else if (player.state === oldThresholdState) {
+          // Значение поднялось выше всех порогов — снимаем состояние, которое задала эта характеристика
+          player.state = 'normal';
+          result += `. Состояние "${oldThresholdState}" снято`;
+        }
+      }
+    }
+
+    return {
+      newState: clonedState,
+      result
+    };
+  }
+};
+
+export default tool;
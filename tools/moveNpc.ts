@@ -0,0 +1,78 @@
+import { GameTool, GameState } from '../types';
+import { Type } from "@google/genai";
+import { cloneState, hasPassage } from '../utils/gameUtils';
+
+const tool: GameTool = {
+  definition: {
+    name: "move_npc",
+    description: "Переместить неигрового персонажа (NPC) из его локации в соседнюю. Это единственный способ перемещения NPC. Перемещение возможно только по связи между локациями в подходящем направлении (out, in или bidirectional); через несколько локаций — несколькими вызовами, по шагу за вызов.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        npcId: { type: Type.STRING, description: "ID персонажа из состояния мира (формат: npc_xxx). Не выдумывай ID - используй только существующие." },
+        targetLocationId: { type: Type.STRING, description: "ID целевой локации (формат: loc_xxx)." },
+      },
+      required: ["npcId", "targetLocationId"],
+    },
+  },
+  apply: (state: GameState, args: any) => {
+    const newState = cloneState(state);
+    const { npcId, targetLocationId } = args;
+
+    // Проверка на пустые значения
+    if (!npcId || !targetLocationId) {
+      return {
+        newState: state,
+        result: `Ошибка: npcId и targetLocationId не могут быть пустыми`
+      };
+    }
+
+    const npc = newState.npcs.find(n => n.id === npcId);
+    if (!npc) {
+      return {
+        newState: state,
+        result: `Ошибка: NPC "${npcId}" не найден`
+      };
+    }
+
+    if (npc.locationId === targetLocationId) {
+      return {
+        newState: state,
+        result: `NPC "${npc.name}" уже находится в локации "${targetLocationId}"`
+      };
+    }
+
+    const currentLocation = newState.locations.find(l => l.id === npc.locationId);
+    const targetLocation = newState.locations.find(l => l.id === targetLocationId);
+
+    if (!currentLocation) {
+      return {
+        newState: state,
+        result: `Ошибка: Текущая локация NPC "${npc.locationId}" не найдена`
+      };
+    }
+
+    if (!targetLocation) {
+      return {
+        newState: state,
+        result: `Ошибка: Целевая локация "${targetLocationId}" не найдена`
+      };
+    }
+
+    if (!hasPassage(currentLocation, targetLocation)) {
+      return {
+        newState: state,
+        result: `Ошибка: Невозможно переместить NPC "${npc.name}" из локации "${currentLocation.name}" в локацию "${targetLocation.name}" - нет подходящей связи между локациями`
+      };
+    }
+
+    npc.locationId = targetLocationId;
+
+    return {
+      newState,
+      result: `NPC "${npc.name}" перемещён из локации "${currentLocation.name}" в локацию "${targetLocation.name}"`
+    };
+  }
+};
+
+export default tool;
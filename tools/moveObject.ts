@@ -5,7 +5,7 @@ import { cloneState } from '../utils/gameUtils';
 const tool: GameTool = {
   definition: {
     name: "move_object",
-    description: "Переместить объект: передать игроку, поместить в локацию или внутрь другого объекта. Может работать как с реальными ID объектов из состояния мира, так и с ID, созданными предыдущими вызовами create_object в этом же ответе модели через ссылки вида $N.createdId (где N — индекс вызова create_object в общем списке вызовов этого ответа, начиная с 0).",
+    description: "Переместить объект: передать игроку или NPC, поместить в локацию или внутрь другого объекта. Может работать как с реальными ID объектов из состояния мира, так и с ID, созданными предыдущими вызовами create_object в этом же ответе модели через ссылки вида $N.createdId (где N — индекс вызова create_object в общем списке вызовов этого ответа, начиная с 0).",
     parameters: {
       type: Type.OBJECT,
       properties: {
@@ -13,7 +13,7 @@ const tool: GameTool = {
           type: Type.STRING, 
           description: "Реальный ID объекта из состояния мира (формат: obj_timestamp_suffix) ИЛИ ссылка на результат предыдущего вызова create_object в этом же ответе в формате $N.createdId (где N — индекс вызова create_object в общем списке вызовов этого ответа, начиная с 0). Например: если create_object был вторым вызовом (после move_player), используй $1.createdId. Не выдумывай ID вручную — либо используй реальные ID из GameState, либо ссылки $N.createdId." 
         },
-        targetId: { type: Type.STRING, description: "ID нового владельца/контейнера (Player ID, Location ID или Object ID)." },
+        targetId: { type: Type.STRING, description: "ID нового владельца/контейнера (Player ID, NPC ID, Location ID или Object ID)." },
       },
       required: ["objectId", "targetId"],
     },
@@ -50,12 +50,13 @@ const tool: GameTool = {
     // Определить тип цели и проверить её существование
     const targetLocation = newState.locations.find(l => l.id === targetId);
     const targetPlayer = newState.players.find(p => p.id === targetId);
+    const targetNpc = newState.npcs.find(n => n.id === targetId);
     const targetObject = newState.objects.find(o => o.id === targetId);
 
-    if (!targetLocation && !targetPlayer && !targetObject) {
+    if (!targetLocation && !targetPlayer && !targetNpc && !targetObject) {
       return { 
         newState: state, 
-        result: `Ошибка: Цель "${targetId}" не найдена (не локация, не игрок, не объект)` 
+        result: `Ошибка: Цель "${targetId}" не найдена (не локация, не игрок, не NPC, не объект)` 
       };
     }
 
@@ -88,6 +89,8 @@ const tool: GameTool = {
     let result = "";
     if (targetPlayer) {
       result = `Объект "${obj.name}" передан игроку "${targetPlayer.name}"`;
+    } else if (targetNpc) {
+      result = `Объект "${obj.name}" передан NPC "${targetNpc.name}"`;
     } else if (targetLocation) {
       result = `Объект "${obj.name}" перемещён в локацию "${targetLocation.name}"`;
     } else if (targetObject) {
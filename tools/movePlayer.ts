@@ -1,6 +1,6 @@
 import { GameTool, GameState } from '../types';
 import { Type } from "@google/genai";
-import { cloneState } from '../utils/gameUtils';
+import { cloneState, getHealthThresholds, getPlayerCondition, hasPassage } from '../utils/gameUtils';
 
 const tool: GameTool = {
   definition: {
@@ -36,6 +36,15 @@ const tool: GameTool = {
       };
     }
 
+    // Мёртвый или недееспособный персонаж сам не перемещается
+    const condition = getPlayerCondition(player.health, getHealthThresholds(newState.world));
+    if (condition !== 'alive') {
+      return {
+        newState: state,
+        result: `Ошибка: Игрок "${player.name}" ${condition === 'dead' ? 'мёртв' : 'недееспособен'} (здоровье ${player.health}) и не может перемещаться`
+      };
+    }
+
     // Проверка на перемещение в ту же локацию
     if (player.locationId === targetLocationId) {
       return { 
@@ -62,20 +71,8 @@ const tool: GameTool = {
       };
     }
 
-    // Проверка связей между локациями
-    // Проверяем связи текущей локации (out или bidirectional)
-    const connectionFromCurrent = currentLocation.connections.find(
-      conn => conn.targetLocationId === targetLocationId && 
-      (conn.type === 'out' || conn.type === 'bidirectional')
-    );
-
-    // Проверяем связи целевой локации (in или bidirectional)
-    const connectionFromTarget = targetLocation.connections.find(
-      conn => conn.targetLocationId === currentLocation.id && 
-      (conn.type === 'in' || conn.type === 'bidirectional')
-    );
-
-    if (!connectionFromCurrent && !connectionFromTarget) {
+    // Проверка связей между локациями (out/bidirectional из текущей или in/bidirectional из целевой)
+    if (!hasPassage(currentLocation, targetLocation)) {
       return { 
         newState: state, 
         result: `Ошибка: Невозможно переместить игрока "${player.name}" из локации "${currentLocation.name}" в локацию "${targetLocation.name}" - нет подходящей связи между локациями` 
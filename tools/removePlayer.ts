@@ -0,0 +1,64 @@
+import { GameTool, GameState } from '../types';
+import { Type } from "@google/genai";
+import { cloneState, reparentDirectChildren } from '../utils/gameUtils';
+
+const tool: GameTool = {
+  definition: {
+    name: "remove_player",
+    description: "Убрать персонажа из игры (спутник ушёл, тело персонажа унесли, герой окончательно покинул историю). Смерть сама по себе не требует удаления: при health 0 персонаж остаётся в мире с состоянием 'dead'. Все предметы персонажа остаются в локации, где он был.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        playerId: {
+          type: Type.STRING,
+          description: "ID персонажа из состояния мира (формат: char_xxx). Не выдумывай ID - используй только существующие."
+        },
+        reason: {
+          type: Type.STRING,
+          description: "Почему персонаж покидает игру (для лога, напр. 'ушёл своей дорогой')."
+        }
+      },
+      required: ["playerId"],
+    },
+  },
+  apply: (state: GameState, args: any) => {
+    const { playerId, reason } = args;
+
+    if (!playerId) {
+      return {
+        newState: state,
+        result: `Ошибка: playerId обязателен для удаления персонажа`
+      };
+    }
+
+    const clonedState = cloneState(state);
+    const player = clonedState.players.find(p => p.id === playerId);
+    if (!player) {
+      return {
+        newState: state,
+        result: `Ошибка: Игрок "${playerId}" не найден`
+      };
+    }
+
+    // Предметы персонажа (прямые потомки) остаются в его локации, содержимое контейнеров — в контейнерах
+    const location = clonedState.locations.find(l => l.id === player.locationId);
+    const droppedObjects = clonedState.objects.filter(o => o.connectionId === playerId);
+    clonedState.objects = reparentDirectChildren(clonedState.objects, playerId, location?.id);
+    clonedState.players = clonedState.players.filter(p => p.id !== playerId);
+
+    let result = `Персонаж "${player.name}" покинул игру${reason ? ` (${reason})` : ''}`;
+    if (droppedObjects.length > 0) {
+      const names = droppedObjects.map(o => `"${o.name}"`).join(', ');
+      result += location
+        ? `. Его предметы остались в локации "${location.name}": ${names}`
+        : `. Его предметы остались без связи: ${names}`;
+    }
+
+    return {
+      newState: clonedState,
+      result
+    };
+  }
+};
+
+export default tool;
@@ -0,0 +1,63 @@
+import { GameTool, GameState } from '../types';
+import { Type } from "@google/genai";
+import { createDiceState, rollDice, ROLL_TIER_LABELS, ROLL_TIER_OUTCOMES } from '../utils/dice';
+
+const tool: GameTool = {
+  definition: {
+    name: "roll_check",
+    description: "Бросить кубики для проверки рискованного действия (взлом, драка, убеждение, прыжок через пропасть). Итог сравнивается со сложностью и даёт уровень успеха: КРИТИЧЕСКИЙ УСПЕХ, УСПЕХ, ЧАСТИЧНЫЙ УСПЕХ, НЕУДАЧА или КРИТИЧЕСКАЯ НЕУДАЧА. Уровень успеха ОБЯЗАТЕЛЕН: последующие изменения мира должны ему соответствовать. Без сложности — просто бросок (напр. урон для modify_stat). Вызывай проверку ДО инструментов, которые применяют её исход.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        expression: {
+          type: Type.STRING,
+          description: "Выражение броска: 'd20', '2d6+3', '1d20-1', '1d8+1d4'."
+        },
+        difficulty: {
+          type: Type.INTEGER,
+          description: "Сложность: итог не ниже неё — успех. Ориентиры для d20: 5 легко, 10 обычно, 15 трудно, 20 очень трудно."
+        },
+        check: {
+          type: Type.STRING,
+          description: "Что проверяется (для лога, напр. 'взлом замка')."
+        }
+      },
+      required: ["expression"],
+    },
+  },
+  apply: (state: GameState, args: any) => {
+    const { expression, difficulty, check } = args;
+
+    if (!expression) {
+      return {
+        newState: state,
+        result: `Ошибка: expression обязателен для броска`
+      };
+    }
+
+    let rolled;
+    try {
+      rolled = rollDice(state.dice ?? createDiceState(), expression, difficulty);
+    } catch (e: any) {
+      return {
+        newState: state,
+        result: `Ошибка: ${e.message}`
+      };
+    }
+
+    const { roll } = rolled;
+    const modifierText = roll.modifier > 0 ? ` +${roll.modifier}` : roll.modifier < 0 ? ` ${roll.modifier}` : '';
+    let result = `Бросок ${roll.expression}${check ? ` (${check})` : ''}: [${roll.rolls.join(', ')}]${modifierText} = ${roll.total}`;
+    if (roll.tier) {
+      result += ` против сложности ${roll.difficulty} — ${ROLL_TIER_LABELS[roll.tier]} (${ROLL_TIER_OUTCOMES[roll.tier]})`;
+    }
+
+    return {
+      newState: { ...state, dice: rolled.dice },
+      result,
+      roll
+    };
+  }
+};
+
+export default tool;
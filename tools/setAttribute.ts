@@ -1,18 +1,27 @@
 import { GameTool, GameState } from '../types';
 import { Type } from "@google/genai";
 import { cloneState } from '../utils/gameUtils';
+import {
+  cancelAttributeEffect,
+  createWorldClock,
+  findPendingAttributeEffect,
+  formatDuration,
+  formatWorldTime,
+  scheduleAttributeEffect,
+  toWorldMinutes
+} from '../utils/worldClock';
 
 const tool: GameTool = {
   definition: {
     name: "set_attribute",
-    description: "Установить нарративное описание характеристики для игрока, объекта или локации. Характеристика будет создана автоматически, если её нет. Используй богатые, детальные описания вместо цифр (например, 'умирает от жажды' вместо 'health: 10%', 'почти сломан' вместо 'durability: 20%'). ВАЖНО: НЕ используй этот инструмент для изменения locationId игрока - для перемещения игроков используй инструмент move_player.",
+    description: "Установить нарративное описание характеристики для игрока, NPC, объекта или локации. Характеристика будет создана автоматически, если её нет. Используй богатые, детальные описания вместо цифр (например, 'умирает от жажды' вместо 'health: 10%', 'почти сломан' вместо 'durability: 20%'). ВАЖНО: НЕ используй этот инструмент для изменения locationId игрока или NPC - для перемещения используй инструменты move_player и move_npc.",
     parameters: {
       type: Type.OBJECT,
       properties: {
         entityType: {
           type: Type.STRING,
-          enum: ["player", "object", "location"],
-          description: "Тип сущности: 'player' для игрока, 'object' для объекта, 'location' для локации."
+          enum: ["player", "npc", "object", "location"],
+          description: "Тип сущности: 'player' для игрока, 'npc' для неигрового персонажа, 'object' для объекта, 'location' для локации."
         },
         entityId: {
           type: Type.STRING,
@@ -25,13 +34,18 @@ const tool: GameTool = {
         value: {
           type: Type.STRING,
           description: "Текстовое описание характеристики. Должно быть детальным и нарративным (например, 'сильно ранен, но может продолжать бой', 'почти сломан, но еще работает', 'опасная атмосфера, чувствуется угроза')."
+        },
+        durationMinutes: {
+          type: Type.INTEGER,
+          minimum: 1,
+          description: "Необязательно: сколько игровых минут действует значение (опьянение, действие зелья, туман до утра). Когда время дойдёт (advance_time), атрибут вернётся к прежнему значению или исчезнет, если его не было."
         }
       },
       required: ["entityType", "entityId", "attributeName", "value"],
     },
   },
   apply: (state: GameState, args: any) => {
-    const { entityType, entityId, attributeName, value } = args;
+    const { entityType, entityId, attributeName, value, durationMinutes } = args;
     
     // Валидация входных данных
     if (!entityType || !entityId || !attributeName || value === undefined || value === null || value === '') {
@@ -41,10 +55,10 @@ const tool: GameTool = {
       };
     }
 
-    if (!["player", "object", "location"].includes(entityType)) {
+    if (!["player", "npc", "object", "location"].includes(entityType)) {
       return {
         newState: state,
-        result: `Ошибка: entityType должен быть 'player', 'object' или 'location'`
+        result: `Ошибка: entityType должен быть 'player', 'npc', 'object' или 'location'`
       };
     }
 
@@ -57,6 +71,9 @@ const tool: GameTool = {
     if (entityType === "player") {
       entity = clonedState.players.find(p => p.id === entityId);
       entityName = entity?.name || entityId;
+    } else if (entityType === "npc") {
+      entity = clonedState.npcs.find(n => n.id === entityId);
+      entityName = entity?.name || entityId;
     } else if (entityType === "object") {
       entity = clonedState.objects.find(o => o.id === entityId);
       entityName = entity?.name || entityId;
@@ -81,6 +98,13 @@ const tool: GameTool = {
       };
     }
 
+    if (entityType === "npc" && attributeName === "locationId") {
+      return {
+        newState: state,
+        result: `ОШИБКА: Нельзя изменять locationId NPC через set_attribute! Для перемещения NPC используй инструмент move_npc.`
+      };
+    }
+
     // Создать attributes, если его нет
     if (!entity.attributes) {
       entity.attributes = {};
@@ -90,16 +114,34 @@ const tool: GameTool = {
     const previousValue = entity.attributes[attributeName];
     entity.attributes[attributeName] = value;
 
+    // Новое значение отменяет запланированный откат атрибута. Временное значение планирует
+    // свой откат — к значению, которое было до первого из подряд идущих временных эффектов
+    const pendingEffect = findPendingAttributeEffect(clonedState, entityType, entityId, attributeName);
+    let newState = cancelAttributeEffect(clonedState, entityType, entityId, attributeName);
+    let durationText = '';
+    if (durationMinutes) {
+      const at = toWorldMinutes(newState.clock ?? createWorldClock()) + durationMinutes;
+      newState = scheduleAttributeEffect(newState, {
+        at,
+        entityType,
+        entityId,
+        attributeName,
+        value: pendingEffect ? pendingEffect.value : (previousValue ?? null),
+        source: 'set_attribute'
+      });
+      durationText = ` на ${formatDuration(durationMinutes)} (до: ${formatWorldTime(createWorldClock(at))})`;
+    }
+
     // Формируем результат
     if (previousValue !== undefined) {
       return {
-        newState: clonedState,
-        result: `Характеристика "${attributeName}" для ${entityType} "${entityName}" изменена с "${previousValue}" на "${value}"`
+        newState,
+        result: `Характеристика "${attributeName}" для ${entityType} "${entityName}" изменена с "${previousValue}" на "${value}"${durationText}`
       };
     } else {
       return {
-        newState: clonedState,
-        result: `Характеристика "${attributeName}" для ${entityType} "${entityName}" создана: "${value}"`
+        newState,
+        result: `Характеристика "${attributeName}" для ${entityType} "${entityName}" создана: "${value}"${durationText}`
       };
     }
   }
@@ -13,9 +13,33 @@ export interface GeminiApiResponse {
   };
 }
 
+// Порог характеристики: при значении <= atOrBelow персонаж получает state (напр. 'без сознания' при 0)
+export interface StatThreshold {
+  atOrBelow: number;
+  state: string;
+}
+
+// Числовая характеристика, заданная дизайнером мира (выносливость, рассудок...)
+export interface StatDefinition {
+  id: string; // ключ в PlayerData.stats
+  name: string;
+  min: number;
+  max: number;
+  initial: number; // значение, пока у персонажа нет записи в stats
+  thresholds?: StatThreshold[];
+}
+
+// Пороги здоровья персонажей, заданные дизайнером мира (по умолчанию DEFAULT_HEALTH_THRESHOLDS)
+export interface HealthThresholds {
+  incapacitatedAtOrBelow: number; // недееспособен: без сознания, не может действовать
+  deadAtOrBelow: number;
+}
+
 export interface WorldData {
   worldDescription: string;
   gameGenre: string;
+  statDefinitions?: StatDefinition[];
+  healthThresholds?: HealthThresholds;
 }
 
 export interface LocationData {
@@ -31,12 +55,18 @@ export interface LocationData {
   attributes?: Record<string, string>;
 }
 
+// Дееспособность персонажа — производное от health (см. getPlayerCondition)
+export type PlayerCondition = 'alive' | 'incapacitated' | 'dead';
+
 export interface PlayerData {
   id: string;
   name: string;
   description: string;
   inventory: string[]; // Array of Object IDs
   health: number;
+  maxHealth?: number; // верхняя граница health (по умолчанию DEFAULT_MAX_HEALTH)
+  stats?: Record<string, number>; // значения характеристик из world.statDefinitions
+  condition?: PlayerCondition; // пересобирается по health после каждого изменения (syncPlayerConditions)
   state: string; // e.g., "drunk", "tired"
   locationId: string; // Explicit location tracking
   attributes?: Record<string, string>;
@@ -51,11 +81,68 @@ export interface ObjectData {
   attributes?: Record<string, string>;
 }
 
+// Неигровой персонаж: действует сам в фазе "ход мира" (AISettings.npcWorldTick)
+export interface NpcData {
+  id: string;
+  name: string;
+  description: string;
+  locationId: string;
+  goals: string; // чего добивается персонаж
+  disposition: string; // отношение к игрокам (напр. "дружелюбен", "подозрителен")
+  schedule?: string; // распорядок (напр. "днём в баре, ночью дома")
+  state: string; // e.g., "normal", "asleep"
+  attributes?: Record<string, string>;
+}
+
 export interface GameState {
   world: WorldData;
   locations: LocationData[];
   players: PlayerData[];
+  npcs: NpcData[];
   objects: ObjectData[];
+  dice?: DiceState; // генератор бросков сессии (roll_check)
+  clock?: WorldClock; // игровое время (advance_time)
+}
+
+export type DayPhase = 'morning' | 'day' | 'evening' | 'night';
+
+export type AttributeEntityType = 'player' | 'npc' | 'object' | 'location';
+
+// Отложенное изменение атрибута: срабатывает, когда часы мира доходят до at (utils/worldClock.ts)
+export interface TimedAttributeEffect {
+  id: string;
+  at: number; // минута мира (см. toWorldMinutes)
+  entityType: AttributeEntityType;
+  entityId: string;
+  attributeName: string;
+  value: string | null; // null — удалить атрибут
+  source?: string; // кто запланировал (для лога), напр. "set_attribute"
+}
+
+export interface WorldClock {
+  day: number; // с 1
+  hour: number; // 0..23
+  minute: number; // 0..59
+  phase: DayPhase; // производное от hour (getDayPhase), пересобирается при каждом изменении времени
+  effects?: TimedAttributeEffect[]; // ещё не сработавшие, по возрастанию at
+}
+
+// Генератор бросков: значение номер cursor зависит только от seed и cursor,
+// поэтому повтор хода от того же состояния даёт те же броски (utils/dice.ts)
+export interface DiceState {
+  seed: number;
+  cursor: number; // сколько значений уже выдано
+}
+
+export type RollTier = 'critical_success' | 'success' | 'partial_success' | 'failure' | 'critical_failure';
+
+export interface DiceRoll {
+  expression: string; // нормализованное выражение, напр. "2d6+3"
+  rolls: number[]; // выпавшие грани по порядку
+  modifier: number;
+  total: number;
+  difficulty?: number;
+  tier?: RollTier; // только при заданной сложности
 }
 
 export interface ToolCallLog {
@@ -63,6 +150,10 @@ export interface ToolCallLog {
   args: any;
   result: string;
   iteration?: number;
+  rolledBack?: boolean; // Вызов из пакета, откаченного целиком (транзакционный режим)
+  npcId?: string; // Вызов из хода мира: действие этого NPC, а не ответ на действие игрока
+  roll?: DiceRoll; // Бросок, сделанный этим вызовом (roll_check)
+  createdId?: string; // ID сущности, созданной этим вызовом (create_*)
 }
 
 export interface SimulationResult {
@@ -82,12 +173,57 @@ export interface SimulationResult {
   costInfo?: CostInfo;
   simulationDebugInfo?: any;
   narrativeDebugInfo?: any;
+  cancelled?: boolean; // Ход отменён пользователем: newState совпадает с исходным
+  planOnly?: boolean; // Только план: инструменты применены к копии состояния, нарратив не генерировался
+}
+
+// Результат отдельной генерации нарратива (generateNarrative)
+export interface NarrativeResult {
+  narrative: string;
+  narrativeThinking?: string;
+  narrativeMarkedPromptLog?: string;
+  tokenUsage: TokenUsage | null;
+  costInfo?: CostInfo;
+  narrativeDebugInfo?: any;
 }
 
 // Modular Tool Definition
 export interface GameTool {
   definition: FunctionDeclaration;
-  apply: (state: GameState, args: any) => { newState: GameState; result: string; createdId?: string };
+  apply: (state: GameState, args: any) => { newState: GameState; result: string; createdId?: string; roll?: DiceRoll };
+  sourceFile?: string; // файл декларативного инструмента (custom-tools/*.json); у встроенных не задан
+}
+
+// Декларативные инструменты (custom-tools/*.json): параметры и последовательность
+// примитивных эффектов. Строковые поля эффектов — шаблоны с {{параметр}} и {{$N.createdId}}
+export type DeclarativeToolEffectType = 'set_attribute' | 'move_object' | 'create_object' | 'delete_object';
+
+export interface DeclarativeToolParameter {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  description: string;
+  enum?: string[];
+  required?: boolean;
+}
+
+export interface DeclarativeToolEffect {
+  type: DeclarativeToolEffectType;
+  // Аргументы встроенного инструмента с тем же именем (entityId, value, objectId, ...)
+  [field: string]: unknown;
+}
+
+export interface DeclarativeToolDefinition {
+  name: string;
+  description: string;
+  parameters?: Record<string, DeclarativeToolParameter>;
+  effects: DeclarativeToolEffect[];
+  result?: string; // шаблон итогового сообщения; по умолчанию — результаты эффектов
+}
+
+// Файл из custom-tools/, как его отдаёт /api/custom-tools (error — файл не разобран как JSON)
+export interface DeclarativeToolFile {
+  file: string;
+  definition?: DeclarativeToolDefinition;
+  error?: string;
 }
 
 // AI Settings
@@ -105,6 +241,11 @@ export interface AISettings {
   narrativeModelId?: string;
   narrativeTemperature?: number;
   narrativeThinkingBudget?: number;
+  providerId?: 'gemini' | 'openai-compatible'; // провайдер LLM (по умолчанию gemini)
+  providerBaseUrl?: string; // базовый URL OpenAI-совместимого API, напр. http://localhost:11434/v1 (Ollama)
+  providerApiKey?: string; // ключ для OpenAI-совместимого API (локальным серверам обычно не нужен)
+  transactionalToolBatches?: boolean; // если включено — вызовы из одного ответа модели применяются атомарно (ошибка любого откатывает весь пакет)
+  npcWorldTick?: boolean; // если включено — после действий игрока NPC рядом с игроками делают свой ход (отдельный запрос на каждого)
 }
 
 export const DEFAULT_AI_SETTINGS: AISettings = {
@@ -119,6 +260,9 @@ export const DEFAULT_AI_SETTINGS: AISettings = {
   narrativeTemperature: 0.8,
 };
 
+// Базовый URL по умолчанию для OpenAI-совместимого провайдера (Ollama)
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
 // Available Models
 export interface ModelInfo {
   id: string;
@@ -154,4 +298,87 @@ export interface TurnHistory {
   userPrompt: string;
   narrative: string;
   toolLogs: ToolCallLog[];
+  tokenUsage?: SimulationResult['tokenUsage'];
+  costInfo?: CostInfo;
+  dice?: TurnDiceRecord;
+}
+
+// Броски хода: генератор в начале хода и все неоткаченные броски по порядку
+export interface TurnDiceRecord {
+  seed: number;
+  startCursor: number;
+  rolls: DiceRoll[];
+}
+
+// Turn Timeline (undo/redo по закоммиченным ходам)
+export interface TimelineSnapshot {
+  state: GameState;
+  history: TurnHistory[];
+}
+
+export interface TurnTimeline {
+  // Линейная цепочка снимков: каждый следующий — результат очередного коммита
+  snapshots: TimelineSnapshot[];
+  // Индекс текущего снимка (-1 — коммитов ещё не было)
+  cursor: number;
+}
+
+// Ветка мира: альтернативная линия ходов со своим состоянием, историей и лентой undo/redo
+export interface TimelineBranch {
+  id: string;
+  name: string;
+  state: GameState;
+  history: TurnHistory[];
+  timeline: TurnTimeline;
+  // Откуда ответвлена (ветка и номер хода)
+  parent?: { branchId: string; turn: number };
+}
+
+// Save Slots (/api/saves): полная сессия, сохранённая на сервере
+export interface SavedSession {
+  state: GameState;
+  history: TurnHistory[];
+  // Настройки и инструменты есть только в слотах сохранений (не в резервной копии localStorage)
+  aiSettings?: AISettings;
+  enabledTools?: string[];
+}
+
+// Версионированная обёртка сохранения (utils/saveFormat.ts)
+export interface SaveEnvelope {
+  formatVersion: number;
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+  appVersion: string; // версия приложения, записавшего сохранение
+  session: SavedSession;
+}
+
+export interface SaveSlot extends SaveEnvelope {
+  id: string;
+  name: string;
+}
+
+// Элемент списка слотов (без содержимого сессии)
+export interface SaveSlotInfo extends Omit<SaveSlot, 'session'> {
+  turnCount: number;
+}
+
+// State Validation (utils/stateValidation.ts): нарушения целостности GameState
+export type StateIssueSeverity = 'error' | 'warning';
+
+export type StateIssueCode =
+  | 'duplicate_id'
+  | 'dangling_object_connection'
+  | 'dangling_player_location'
+  | 'dangling_npc_location'
+  | 'dangling_location_connection'
+  | 'inventory_mismatch'
+  | 'containment_cycle';
+
+export interface StateIssue {
+  code: StateIssueCode;
+  severity: StateIssueSeverity;
+  entityId: string;
+  path: string; // путь к полю, напр. "objects[obj_key].connectionId"
+  message: string;
+  repair?: string; // описание автоисправления (нет — только ручное исправление)
 }
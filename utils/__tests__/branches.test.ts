@@ -0,0 +1,35 @@
+import { describe, test, expect } from 'vitest';
+import { MAIN_BRANCH_NAME, createBranch, forkBranch, syncBranch } from '../branches';
+import { createTimeline, commitToTimeline, canRedo } from '../timeline';
+import { TimelineSnapshot } from '../../types';
+import { createTestState } from '../../__tests__/fixtures';
+
+const snapshot = (n: number, worldDescription = `после ${n}`): TimelineSnapshot => ({
+  state: createTestState({ world: { worldDescription, gameGenre: 'Fantasy' } }),
+  history: Array.from({ length: n }, (_, i) => ({ turn: i + 1, userPrompt: `ход ${i + 1}`, narrative: '', toolLogs: [] }))
+});
+
+describe('branches - ветки мира', () => {
+  test('ответвляет ветку от хода и не затрагивает исходную', () => {
+    let timeline = commitToTimeline(createTimeline(), snapshot(0), snapshot(1));
+    timeline = commitToTimeline(timeline, snapshot(1), snapshot(2));
+
+    const main = syncBranch(
+      [createBranch(MAIN_BRANCH_NAME, snapshot(0), createTimeline())],
+      '',
+      { ...snapshot(2), timeline }
+    )[0];
+    // syncBranch обновляет только ветку с указанным id
+    expect(main.history).toHaveLength(0);
+
+    const synced = syncBranch([main], main.id, { ...snapshot(2), timeline })[0];
+    const fork = forkBranch(synced, 1, 'Сундук открыт');
+
+    expect(fork.parent).toEqual({ branchId: synced.id, turn: 1 });
+    expect(fork.state.world.worldDescription).toBe('после 1');
+    expect(fork.history.map(t => t.turn)).toEqual([1]);
+    expect(canRedo(fork.timeline)).toBe(false);
+    expect(synced.timeline.snapshots).toHaveLength(3);
+    expect(synced.history).toHaveLength(2);
+  });
+});
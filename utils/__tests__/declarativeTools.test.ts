@@ -0,0 +1,113 @@
+import { describe, test, expect } from 'vitest';
+import { compileDeclarativeTool } from '../declarativeTools';
+import { applyToolCall } from '../../services/toolExecution';
+import createObjectTool from '../../tools/createObject';
+import setAttributeTool from '../../tools/setAttribute';
+import { DeclarativeToolDefinition, GameState } from '../../types';
+import { createTestState } from '../../__tests__/fixtures';
+
+const createTerminalState = (): GameState => createTestState({
+  objects: [{ id: 'term1', name: 'Terminal', connectionId: 'loc1', attributes: { state: 'locked' } }]
+});
+
+const hackTerminal: DeclarativeToolDefinition = {
+  name: 'hack_terminal',
+  description: 'Взломать терминал и получить файл с данными',
+  parameters: {
+    terminalId: { type: 'string', description: 'ID терминала', required: true },
+    playerId: { type: 'string', description: 'ID хакера', required: true },
+    method: { type: 'string', description: 'Способ взлома', enum: ['brute', 'exploit'] }
+  },
+  effects: [
+    { type: 'set_attribute', entityType: 'object', entityId: '{{terminalId}}', attributeName: 'state', value: 'взломан ({{method}})' },
+    { type: 'create_object', name: 'Файл с данными', connectionId: '{{playerId}}', attributes: { source: 'терминал {{terminalId}}' } },
+    { type: 'set_attribute', entityType: 'object', entityId: '{{$1.createdId}}', attributeName: 'condition', value: 'зашифрован' }
+  ],
+  result: 'Терминал {{terminalId}} взломан, файл {{$1.createdId}} у игрока'
+};
+
+describe('compileDeclarativeTool - инструменты из JSON', () => {
+  test('применяет эффекты по шаблонам и проверяет аргументы по объявленным параметрам', () => {
+    const tool = compileDeclarativeTool(hackTerminal, 'custom-tools/hack_terminal.json');
+    const { newState, result, createdId } = applyToolCall(createTerminalState(), 'hack_terminal', {
+      terminalId: 'term1', playerId: 'p1', method: 'exploit'
+    }, [tool]);
+
+    const file = newState.objects.find(o => o.id === createdId)!;
+    expect(newState.objects[0].attributes?.state).toBe('взломан (exploit)');
+    expect(file.connectionId).toBe('p1');
+    expect(file.attributes).toMatchObject({ source: 'терминал term1', condition: 'зашифрован' });
+    expect(newState.players[0].inventory).toEqual([createdId]);
+    expect(result).toBe(`Терминал term1 взломан, файл ${createdId} у игрока`);
+
+    const invalid = applyToolCall(createTerminalState(), 'hack_terminal', { terminalId: 'term1', playerId: 'p1', method: 'magic' }, [tool]);
+    expect(invalid.result).toMatch(/^Ошибка валидации аргументов hack_terminal: method/);
+  });
+
+  test('ошибка эффекта отменяет все изменения вызова', () => {
+    const tool = compileDeclarativeTool(hackTerminal);
+    const state = createTerminalState();
+
+    const { newState, result } = tool.apply(state, { terminalId: 'term1', playerId: 'ghost' });
+
+    expect(newState).toBe(state);
+    expect(result).toMatch(/^Ошибка: эффект 1 \(create_object\) не выполнен/);
+  });
+
+  test('аргументы эффектов проверяются так же, как аргументы вызова модели', () => {
+    const tool = compileDeclarativeTool(hackTerminal);
+    const declarative = tool.apply(createTerminalState(), { terminalId: 'term1', playerId: 'p1' });
+    // Модель передаёт attributes JSON-строкой по схеме create_object
+    const direct = applyToolCall(createTerminalState(), 'create_object', {
+      name: 'Файл с данными', connectionId: 'p1', attributes: JSON.stringify({ source: 'терминал term1' })
+    }, [createObjectTool]);
+
+    const declarativeFile = declarative.newState.objects.find(o => o.id === declarative.createdId)!;
+    const directFile = direct.newState.objects.find(o => o.id === direct.createdId)!;
+    // condition файлу декларативного инструмента задаёт следующий эффект
+    expect({ ...declarativeFile.attributes, condition: undefined }).toEqual({ ...directFile.attributes, condition: undefined });
+
+    // Значение из шаблона, не подходящее под схему, отклоняется валидацией в обоих путях
+    const templated = compileDeclarativeTool({
+      name: 'mark_entity',
+      description: 'Пометить сущность',
+      parameters: { kind: { type: 'string', description: 'Тип сущности', required: true } },
+      effects: [{ type: 'set_attribute', entityType: '{{kind}}', entityId: 'term1', attributeName: 'mark', value: 'да' }]
+    }).apply(createTerminalState(), { kind: 'planet' });
+    const directTemplated = applyToolCall(createTerminalState(), 'set_attribute', {
+      entityType: 'planet', entityId: 'term1', attributeName: 'mark', value: 'да'
+    }, [setAttributeTool]);
+    expect(templated.result).toBe(`Ошибка: эффект 0 (set_attribute) не выполнен, изменения отменены. ${directTemplated.result}`);
+    expect(directTemplated.result).toMatch(/^Ошибка валидации аргументов set_attribute: entityType/);
+  });
+
+  test('поля эффектов без шаблонов проверяются по схеме при загрузке', () => {
+    expect(() => compileDeclarativeTool({
+      name: 'set_level',
+      description: 'Уровень',
+      parameters: { objectId: { type: 'string', description: 'ID объекта', required: true } },
+      effects: [
+        { type: 'set_attribute', entityType: 'object', entityId: '{{objectId}}', attributeName: 'level', value: 5 as any },
+        { type: 'create_object', name: 'Жетон', connectionId: '{{objectId}}', attributes: { level: '5' } }
+      ]
+    })).toThrow(
+      /^Некорректный декларативный инструмент "set_level": эффект 0 \(set_attribute\): value: ожидается строка, получено: number 5$/
+    );
+  });
+
+  test('сообщает о всех проблемах описания', () => {
+    expect(() => compileDeclarativeTool({
+      name: 'pay bribe',
+      description: 'Дать взятку',
+      parameters: { amount: { type: 'number', description: 'Сумма' } },
+      effects: [
+        { type: 'set_attribute', entityType: 'player', entityId: '{{guardId}}', attributeName: 'mood', value: '{{amount}}', extra: 1 },
+        { type: 'teleport' } as any
+      ]
+    })).toThrow(
+      'Некорректный декларативный инструмент "pay bribe": name должен состоять из латиницы, цифр, "_" и "-" (до 64 символов); ' +
+      'эффект 0 (set_attribute): неизвестные поля extra; эффект 0: {{guardId}} — неизвестный параметр; ' +
+      'эффект 1: type должен быть одним из set_attribute, move_object, create_object, delete_object'
+    );
+  });
+});
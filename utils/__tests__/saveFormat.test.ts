@@ -0,0 +1,207 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { migrateSave, createSaveEnvelope, getSaveFormatVersion, parseSessionBackup, CURRENT_SAVE_FORMAT_VERSION, SAVE_MIGRATIONS } from '../saveFormat';
+import { INITIAL_STATE } from '../../constants';
+import { INITIAL_DICE } from '../../data/dice';
+import { INITIAL_CLOCK } from '../../data/clock';
+import { SavedSession, TurnHistory } from '../../types';
+import { createTestDevServer } from '../../__tests__/devServer';
+import { createTestState } from '../../__tests__/fixtures';
+
+// Состояние в виде, как его записывали старые сборки: у игроков нет inventory/health/state,
+// у локаций нет state, у сущностей нет attributes
+const legacyState = () => ({
+  world: { worldDescription: 'Test World', gameGenre: 'Fantasy' },
+  locations: [{ id: 'loc1', name: 'Cave', description: 'Dark', currentSituation: 'Quiet', connections: [] }],
+  players: [{ id: 'p1', name: 'Tester', description: 'Hero', locationId: 'loc1' }],
+  objects: [{ id: 'o1', name: 'Torch', connectionId: 'p1' }]
+});
+
+const turn = { turn: 1, userPrompt: 'осмотреться', narrative: 'Темно.', toolLogs: [] };
+
+describe('saveFormat - миграции сохранений', () => {
+  test('v0 → v1: голый GameState оборачивается в envelope, недостающие поля заполняются', () => {
+    const save = migrateSave(legacyState());
+
+    expect(save.formatVersion).toBe(CURRENT_SAVE_FORMAT_VERSION);
+    expect(save.appVersion).toBe('unknown');
+    expect(save.createdAt).toEqual(expect.any(String));
+    expect(save.session.history).toEqual([]);
+    expect(save.session.state.players[0]).toMatchObject({ health: 100, state: 'normal', attributes: {} });
+    expect(save.session.state.locations[0]).toMatchObject({ state: 'normal', attributes: {} });
+    expect(save.session.state.objects[0].attributes).toEqual({});
+  });
+
+  test('v0 → v1: { state, history } и слот без версии сохраняют историю и метаданные', () => {
+    const backup = migrateSave({ state: legacyState(), history: [turn] });
+    expect(backup.session.history).toEqual([turn]);
+
+    const slot = migrateSave({
+      id: 'save_1',
+      name: 'Старый слот',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-02T00:00:00.000Z',
+      session: { state: legacyState(), history: [turn], aiSettings: { modelId: 'm' }, enabledTools: ['move_object'] }
+    });
+    expect(slot).toMatchObject({ id: 'save_1', name: 'Старый слот', createdAt: '2025-01-01T00:00:00.000Z', formatVersion: CURRENT_SAVE_FORMAT_VERSION });
+    expect(slot.session.enabledTools).toEqual(['move_object']);
+    expect(slot.session.state.players[0].health).toBe(100);
+  });
+
+  test('v0 → v1 идемпотентна и не трогает существующие значения', () => {
+    const once = SAVE_MIGRATIONS[0]({ state: { ...legacyState(), players: [{ ...legacyState().players[0], health: 40, state: 'ранен' }] }, history: [] });
+    const twice = SAVE_MIGRATIONS[0](once);
+
+    expect(twice.session.state).toEqual(once.session.state);
+    expect(once.session.state.players[0]).toMatchObject({ health: 40, state: 'ранен' });
+  });
+
+  test('v1 → v2: inventory пересобирается по объектам, связанным с игроком', () => {
+    const v1 = SAVE_MIGRATIONS[0](legacyState());
+    expect(v1.session.state.players[0].inventory).toEqual([]);
+    v1.session.state.players[0].inventory = ['o_lost'];
+
+    const v2 = SAVE_MIGRATIONS[1](v1);
+    expect(v2.session.state.players[0].inventory).toEqual(['o1']);
+    expect(SAVE_MIGRATIONS[1](v2).session.state).toBe(v2.session.state);
+  });
+
+  test('v2 → v3: заводится пустая коллекция NPC, существующие NPC сохраняются', () => {
+    const v2 = SAVE_MIGRATIONS[1](SAVE_MIGRATIONS[0](legacyState()));
+    delete v2.session.state.npcs;
+
+    const v3 = SAVE_MIGRATIONS[2](v2);
+    expect(v3.session.state.npcs).toEqual([]);
+
+    const npc = { id: 'npc_1', name: 'Трактирщик', description: '', locationId: 'loc1', goals: '', disposition: '', state: 'normal', attributes: {} };
+    v3.session.state.npcs = [npc];
+    expect(SAVE_MIGRATIONS[2](v3).session.state.npcs).toEqual([npc]);
+  });
+
+  test('v3 → v4: condition игроков выводится из health', () => {
+    const v3 = SAVE_MIGRATIONS[2](SAVE_MIGRATIONS[1](SAVE_MIGRATIONS[0](legacyState())));
+    v3.session.state.players.push({ ...v3.session.state.players[0], id: 'p2', health: 5 });
+
+    const v4 = SAVE_MIGRATIONS[3](v3);
+    expect(v4.session.state.players.map((p: any) => p.condition)).toEqual(['alive', 'incapacitated']);
+    expect(SAVE_MIGRATIONS[3](v4).session.state).toBe(v4.session.state);
+  });
+
+  test('v4 → v5: заводится генератор бросков, существующий сохраняется', () => {
+    const v4 = SAVE_MIGRATIONS[3](SAVE_MIGRATIONS[2](SAVE_MIGRATIONS[1](SAVE_MIGRATIONS[0](legacyState()))));
+
+    const v5 = SAVE_MIGRATIONS[4](v4);
+    expect(v5.session.state.dice).toMatchObject({ cursor: 0 });
+    expect(Number.isInteger(v5.session.state.dice.seed)).toBe(true);
+    expect(SAVE_MIGRATIONS[4](v5).session.state.dice).toBe(v5.session.state.dice);
+  });
+
+  test('v5 → v6: часы мира стартуют утром первого дня, существующие сохраняются', () => {
+    const v5 = { formatVersion: 5, session: { state: legacyState(), history: [] } };
+
+    const v6 = SAVE_MIGRATIONS[5](v5);
+    expect(v6.session.state.clock).toEqual({ day: 1, hour: 8, minute: 0, phase: 'morning' });
+    expect(SAVE_MIGRATIONS[5](v6).session.state.clock).toBe(v6.session.state.clock);
+  });
+
+  test('стартовое состояние берёт генератор бросков и часы из data/*.ts', () => {
+    expect(INITIAL_STATE.dice).toEqual(INITIAL_DICE);
+    expect(INITIAL_STATE.clock).toEqual(INITIAL_CLOCK);
+  });
+
+  test('текущая версия не мигрирует, более новая — отклоняется', () => {
+    const envelope = createSaveEnvelope({ state: migrateSave(legacyState()).session.state, history: [] });
+    expect(getSaveFormatVersion(envelope)).toBe(CURRENT_SAVE_FORMAT_VERSION);
+    expect(migrateSave(envelope)).toBe(envelope);
+
+    expect(() => migrateSave({ ...envelope, formatVersion: CURRENT_SAVE_FORMAT_VERSION + 1 }))
+      .toThrow('более новой версией формата');
+  });
+});
+
+// Сессия текущей версии с историей: логи инструментов (бросок, созданный ID, ход мира), токены и стоимость
+const sessionWithHistory = (): SavedSession => {
+  const history: TurnHistory[] = [{
+    turn: 1,
+    userPrompt: 'обыскать пещеру',
+    narrative: 'Вы находите факел, стражник уходит.',
+    toolLogs: [
+      { name: 'roll_check', args: { expression: '1d20', difficulty: 12 }, result: 'Бросок 1d20: 15', iteration: 1, roll: { expression: '1d20', rolls: [15], modifier: 0, total: 15, difficulty: 12, tier: 'success' } },
+      { name: 'create_object', args: { name: 'Факел', connectionId: 'p1' }, result: 'Создан объект "Факел"', iteration: 1, createdId: 'obj_1' },
+      { name: 'move_npc', args: { npcId: 'npc1', targetLocationId: 'loc1' }, result: 'Ошибка: нет прохода', npcId: 'npc1', rolledBack: true }
+    ],
+    tokenUsage: {
+      simulation: { promptTokens: 1200, candidatesTokens: 80, totalTokens: 1280 },
+      narrative: { promptTokens: 900, candidatesTokens: 150, totalTokens: 1050 },
+      total: { promptTokens: 2100, candidatesTokens: 230, totalTokens: 2330 }
+    },
+    costInfo: { inputCost: 0.0021, outputCost: 0.0009, totalCost: 0.003, model: 'gemini-test' }
+  }];
+  return migrateSave({ state: createTestState(), history }).session;
+};
+
+// Значение `export const NAME: Type = <JSON>;` из файла data/*.ts, записанного /api/save-data
+const readDataExport = (dataDir: string, file: string): any => {
+  const content = fs.readFileSync(path.join(dataDir, file), 'utf-8');
+  const value = content.slice(content.indexOf(' = ') + 3).trim().replace(/;$/, '');
+  return value === 'undefined' ? undefined : JSON.parse(value);
+};
+
+describe('saveFormat - сессия с историей ходов', () => {
+  let rootDir: string | undefined;
+
+  afterEach(() => {
+    if (rootDir) {
+      fs.rmSync(rootDir, { recursive: true, force: true });
+      rootDir = undefined;
+    }
+  });
+
+  test('резервная копия localStorage восстанавливает состояние и историю', () => {
+    const session = sessionWithHistory();
+    expect(parseSessionBackup(JSON.stringify(createSaveEnvelope(session)))).toEqual(session);
+
+    // Копия старых сборок — { state, history } без версии
+    expect(parseSessionBackup(JSON.stringify({ state: session.state, history: session.history }))?.history)
+      .toEqual(session.history);
+    expect(parseSessionBackup(JSON.stringify({ state: { world: session.state.world } }))).toBeNull();
+  });
+
+  test('/api/save-data пишет data/history.ts, который читается обратно как при старте', async () => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'save-data-test-'));
+    const session = sessionWithHistory();
+
+    const response = await createTestDevServer(rootDir).request('POST', '/api/save-data', JSON.stringify(session));
+    expect(response.status).toBe(200);
+
+    // Та же сборка сессии, что в constants.ts
+    const dataDir = path.join(rootDir, 'data');
+    const restored = migrateSave({
+      state: {
+        world: readDataExport(dataDir, 'world.ts'),
+        locations: readDataExport(dataDir, 'locations.ts'),
+        players: readDataExport(dataDir, 'players.ts'),
+        npcs: readDataExport(dataDir, 'npcs.ts'),
+        objects: readDataExport(dataDir, 'objects.ts'),
+        dice: readDataExport(dataDir, 'dice.ts'),
+        clock: readDataExport(dataDir, 'clock.ts')
+      },
+      history: readDataExport(dataDir, 'history.ts')
+    }).session;
+    expect(restored).toEqual(session);
+  });
+
+  test('/api/save-data со старым телом (только GameState) не трогает data/history.ts', async () => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'save-data-test-'));
+    const session = sessionWithHistory();
+    const server = createTestDevServer(rootDir);
+
+    await server.request('POST', '/api/save-data', JSON.stringify(session));
+    await server.request('POST', '/api/save-data', JSON.stringify(createTestState()));
+
+    expect(readDataExport(path.join(rootDir, 'data'), 'history.ts')).toEqual(session.history);
+    expect(readDataExport(path.join(rootDir, 'data'), 'dice.ts')).toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { listSaves, createSave, loadSave, updateSave, deleteSave } from '../saveSlots';
+import { CURRENT_SAVE_FORMAT_VERSION } from '../saveFormat';
+import { TurnHistory } from '../../types';
+import { createTestDevServer } from '../../__tests__/devServer';
+import { createTestState } from '../../__tests__/fixtures';
+
+// Клиент слотов работает через настоящий обработчик /api/saves, папка saves — временная
+let rootDir: string;
+let server: ReturnType<typeof createTestDevServer>;
+
+beforeEach(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'saves-test-'));
+  server = createTestDevServer(rootDir);
+  vi.stubGlobal('fetch', server.fetch);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+describe('saveSlots - слоты сохранений через /api/saves', () => {
+  test('создание, загрузка, переименование, перезапись и удаление слота', async () => {
+    const history: TurnHistory[] = [{ turn: 1, userPrompt: 'осмотреться', narrative: 'В пещере тихо.', toolLogs: [] }];
+    const created = await createSave('Пещера', { state: createTestState(), history, enabledTools: ['move_player'] });
+    expect(created).toMatchObject({ name: 'Пещера', turnCount: 1, formatVersion: CURRENT_SAVE_FORMAT_VERSION });
+    expect(created.id).toMatch(/^save_\d+_\w+$/);
+    expect(fs.existsSync(path.join(rootDir, 'saves', `${created.id}.json`))).toBe(true);
+
+    const loaded = await loadSave(created.id);
+    expect(loaded.session).toEqual({ state: createTestState(), history, enabledTools: ['move_player'] });
+
+    const renamed = await updateSave(created.id, { name: 'Глубокая пещера' });
+    expect(renamed).toMatchObject({ id: created.id, name: 'Глубокая пещера', turnCount: 1, createdAt: created.createdAt });
+    expect((await loadSave(created.id)).session.history).toEqual(history);
+
+    const overwritten = await updateSave(created.id, { session: { state: createTestState(), history: [] } });
+    expect(overwritten).toMatchObject({ name: 'Глубокая пещера', turnCount: 0 });
+    expect((await listSaves()).map(save => save.id)).toEqual([created.id]);
+
+    await deleteSave(created.id);
+    expect(await listSaves()).toEqual([]);
+  });
+
+  test('отсутствующий слот — 404 для загрузки, перезаписи и удаления', async () => {
+    await expect(loadSave('save_missing')).rejects.toThrow('Сохранение не найдено');
+    await expect(updateSave('save_missing', { name: 'X' })).rejects.toThrow('Сохранение не найдено');
+    await expect(deleteSave('save_missing')).rejects.toThrow('Сохранение не найдено');
+
+    const response = await server.request('DELETE', '/api/saves?id=save_missing');
+    expect(response.status).toBe(404);
+  });
+
+  test('ID с выходом за пределы папки saves отклоняется', async () => {
+    fs.writeFileSync(path.join(rootDir, 'x.json'), JSON.stringify({ secret: true }), 'utf-8');
+
+    const response = await server.request('GET', `/api/saves?id=${encodeURIComponent('../x')}`);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ success: false, error: 'Некорректный ID сохранения' });
+    await expect(deleteSave('../x')).rejects.toThrow('Некорректный ID сохранения');
+    expect(fs.existsSync(path.join(rootDir, 'x.json'))).toBe(true);
+  });
+
+  test('POST без имени или состояния отклоняется', async () => {
+    await expect(createSave('', { state: createTestState(), history: [] })).rejects.toThrow('Недостаточно данных');
+  });
+
+  test('слот старого формата мигрирует при чтении', async () => {
+    // Слот без версии формата: ни NPC, ни генератора бросков, ни часов
+    const { npcs, ...legacyState } = createTestState();
+    fs.mkdirSync(path.join(rootDir, 'saves'), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, 'saves', 'save_legacy.json'), JSON.stringify({
+      id: 'save_legacy',
+      name: 'Старая партия',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z',
+      session: { state: legacyState, history: [{ turn: 1, userPrompt: 'ждать', narrative: 'Ничего не происходит.', toolLogs: [] }] }
+    }), 'utf-8');
+
+    expect(await listSaves()).toEqual([expect.objectContaining({
+      id: 'save_legacy',
+      formatVersion: CURRENT_SAVE_FORMAT_VERSION,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      turnCount: 1
+    })]);
+
+    const loaded = await loadSave('save_legacy');
+    expect(loaded.formatVersion).toBe(CURRENT_SAVE_FORMAT_VERSION);
+    expect(loaded.session.state.npcs).toEqual([]);
+    expect(loaded.session.state.dice).toBeDefined();
+    expect(loaded.session.state.clock).toBeDefined();
+    expect(loaded.session.state.players[0].condition).toBe('alive');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, test, expect } from 'vitest';
+import { validateState, repairIssue, repairAllIssues } from '../stateValidation';
+import { GameState } from '../../types';
+import { createTestLocation, createTestPlayer, createTestState } from '../../__tests__/fixtures';
+
+// Две связанные локации; у игрока сумка с монетой
+const createLinkedState = (): GameState => createTestState({
+  locations: [
+    createTestLocation({ connections: [{ targetLocationId: 'loc2', type: 'bidirectional' }] }),
+    createTestLocation({ id: 'loc2', name: 'Forest', connections: [{ targetLocationId: 'loc1', type: 'bidirectional' }] })
+  ],
+  players: [createTestPlayer({ inventory: ['o1'] })],
+  objects: [
+    { id: 'o1', name: 'Bag', connectionId: 'p1', attributes: {} },
+    { id: 'o2', name: 'Coin', connectionId: 'o1', attributes: {} }
+  ]
+});
+
+describe('stateValidation - проверка целостности', () => {
+  test('корректное состояние не содержит проблем', () => {
+    expect(validateState(createLinkedState())).toEqual([]);
+  });
+
+  test('находит висячие ссылки, циклы и расхождение inventory', () => {
+    const state = createLinkedState();
+    state.locations[0].connections.push({ targetLocationId: 'loc_gone', type: 'out' });
+    state.players[0].locationId = 'loc_gone';
+    state.players[0].inventory = ['o1', 'o_gone'];
+    state.npcs.push({ id: 'npc1', name: 'Guard', description: '', locationId: 'loc_gone', goals: '', disposition: '', state: 'normal' });
+    state.objects.push(
+      { id: 'o6', name: 'Spear', connectionId: 'npc1' },
+      { id: 'o3', name: 'Ghost', connectionId: 'nowhere' },
+      { id: 'o4', name: 'Box A', connectionId: 'o5' },
+      { id: 'o5', name: 'Box B', connectionId: 'o4' }
+    );
+
+    const issues = validateState(state);
+
+    expect(issues.map(i => [i.code, i.path])).toEqual([
+      ['dangling_location_connection', 'locations[loc1].connections[1].targetLocationId'],
+      ['dangling_player_location', 'players[p1].locationId'],
+      ['dangling_npc_location', 'npcs[npc1].locationId'],
+      ['dangling_object_connection', 'objects[o3].connectionId'],
+      ['containment_cycle', 'objects[o4].connectionId'],
+      ['inventory_mismatch', 'players[p1].inventory']
+    ]);
+    expect(issues.find(i => i.code === 'inventory_mismatch')?.severity).toBe('warning');
+    expect(issues.find(i => i.code === 'containment_cycle')?.message).toContain('o4 → o5 → o4');
+  });
+
+  test('автоисправления устраняют все проблемы с repair', () => {
+    const state = createLinkedState();
+    state.players[0].locationId = 'loc_gone';
+    state.npcs.push({ id: 'npc1', name: 'Guard', description: '', locationId: 'loc_gone', goals: '', disposition: '', state: 'normal' });
+    state.objects.push({ id: 'o3', name: 'Sword', connectionId: 'p1' });
+    state.objects.push({ id: 'o4', name: 'Box A', connectionId: 'o5' }, { id: 'o5', name: 'Box B', connectionId: 'o4' });
+
+    const inventoryIssue = validateState(state).find(i => i.code === 'inventory_mismatch')!;
+    expect(repairIssue(state, inventoryIssue).players[0].inventory).toEqual(['o1', 'o3']);
+
+    const { state: repaired, remaining } = repairAllIssues(state);
+    expect(remaining).toEqual([]);
+    expect(repaired.players[0].locationId).toBe('loc1');
+    expect(repaired.npcs[0].locationId).toBe('loc1');
+    expect(repaired.objects.find(o => o.id === 'o4')?.connectionId).toBe('loc1');
+    expect(repaired.objects.find(o => o.id === 'o5')?.connectionId).toBe('o4');
+  });
+
+  test('дубликаты ID не исправляются автоматически', () => {
+    const state = createLinkedState();
+    state.objects.push({ id: 'loc1', name: 'Fake', connectionId: 'loc2' });
+
+    const { remaining } = repairAllIssues(state);
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0]).toMatchObject({ code: 'duplicate_id', path: 'objects[loc1].id' });
+  });
+});
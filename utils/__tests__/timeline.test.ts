@@ -0,0 +1,54 @@
+import { describe, test, expect } from 'vitest';
+import { createTimeline, commitToTimeline, canUndo, canRedo, moveTimeline, rewindToTurn, getCurrentSnapshot, getTimelineTurns } from '../timeline';
+import { GameState, TimelineSnapshot, TurnHistory } from '../../types';
+import { createTestState } from '../../__tests__/fixtures';
+
+const stateWith = (worldDescription: string): GameState =>
+  createTestState({ world: { worldDescription, gameGenre: 'Fantasy' } });
+
+const turn = (n: number): TurnHistory => ({ turn: n, userPrompt: `ход ${n}`, narrative: '', toolLogs: [] });
+
+// Снимок после n ходов
+const snapshot = (n: number, label = `после ${n}`): TimelineSnapshot => ({
+  state: stateWith(label),
+  history: Array.from({ length: n }, (_, i) => turn(i + 1))
+});
+
+describe('timeline - undo/redo по закоммиченным ходам', () => {
+  test('отменяет и возвращает ходы, согласованно восстанавливая состояние и историю', () => {
+    let timeline = createTimeline();
+    expect(canUndo(timeline)).toBe(false);
+
+    timeline = commitToTimeline(timeline, snapshot(0), snapshot(1));
+    timeline = commitToTimeline(timeline, snapshot(1, 'после 1 с ручной правкой'), snapshot(2));
+
+    // Снимок "до" заменяет предыдущий "после": ручные правки между коммитами сохраняются
+    expect(timeline.snapshots).toHaveLength(3);
+
+    timeline = moveTimeline(timeline, -1);
+    expect(getCurrentSnapshot(timeline)?.state.world.worldDescription).toBe('после 1 с ручной правкой');
+    expect(getCurrentSnapshot(timeline)?.history).toHaveLength(1);
+    expect(canRedo(timeline)).toBe(true);
+    expect(getTimelineTurns(timeline).map(t => t.turn)).toEqual([1, 2]);
+
+    timeline = moveTimeline(timeline, 5);
+    expect(getCurrentSnapshot(timeline)?.history).toHaveLength(2);
+    expect(canRedo(timeline)).toBe(false);
+  });
+
+  test('новый коммит после отмены отбрасывает отменённые ходы; перемотка к ходу по номеру', () => {
+    let timeline = createTimeline();
+    timeline = commitToTimeline(timeline, snapshot(0), snapshot(1));
+    timeline = commitToTimeline(timeline, snapshot(1), snapshot(2));
+    timeline = commitToTimeline(timeline, snapshot(2), snapshot(3));
+
+    timeline = rewindToTurn(timeline, 1);
+    expect(getCurrentSnapshot(timeline)?.state.world.worldDescription).toBe('после 1');
+
+    timeline = commitToTimeline(timeline, snapshot(1), snapshot(2, 'другой ход 2'));
+    expect(canRedo(timeline)).toBe(false);
+    expect(timeline.snapshots.map(s => s.state.world.worldDescription)).toEqual(['после 0', 'после 1', 'другой ход 2']);
+
+    expect(() => rewindToTurn(timeline, 3)).toThrow('Снимок для хода 3 не найден');
+  });
+});
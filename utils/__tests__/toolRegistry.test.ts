@@ -0,0 +1,35 @@
+import { describe, test, expect } from 'vitest';
+import { buildToolRegistry } from '../toolRegistry';
+import { getTools, getToolRegistryErrors } from '../../tools/index';
+import { GameTool } from '../../types';
+
+const makeTool = (name: string): GameTool => ({
+  definition: { name, description: `Инструмент ${name}` },
+  apply: (state) => ({ newState: state, result: 'ok' })
+});
+
+describe('buildToolRegistry - сборка реестра инструментов', () => {
+  test('пропускает модули без GameTool и дубликаты имён, сообщая об ошибках', () => {
+    const { tools, errors } = buildToolRegistry({
+      './b.ts': { default: makeTool('b_tool') },
+      './a.ts': { default: makeTool('a_tool') },
+      './helpers.ts': {},
+      './broken.ts': { default: { definition: { name: 'broken', description: '' } } },
+      './copy.ts': { default: makeTool('b_tool') }
+    });
+
+    expect(tools.map(t => t.definition.name)).toEqual(['a_tool', 'b_tool']);
+    expect(errors).toEqual([
+      './broken.ts: apply инструмента broken должен быть функцией',
+      './copy.ts: инструмент с именем "b_tool" уже объявлен в ./b.ts',
+      './helpers.ts: нет default-экспорта с инструментом'
+    ]);
+  });
+
+  test('tools/index находит все модули инструментов в папке tools', () => {
+    expect(getToolRegistryErrors()).toEqual([]);
+    expect(getTools().map(t => t.definition.name)).toEqual(expect.arrayContaining([
+      'create_object', 'delete_attribute', 'delete_object', 'move_object', 'move_player', 'set_attribute'
+    ]));
+  });
+});
@@ -0,0 +1,45 @@
+import { TimelineBranch, TimelineSnapshot, TurnTimeline } from '../types';
+import { forkTimeline, getCurrentSnapshot } from './timeline';
+
+// ============================================================================
+// ВЕТКИ МИРА
+// ============================================================================
+// Активная ветка живёт в состоянии App (gameState, history, timeline); в списке
+// веток её поля обновляются при переключении (syncBranch). Неактивные ветки
+// хранят последнее состояние целиком.
+
+export const MAIN_BRANCH_NAME = 'Основная';
+
+export const createBranch = (
+  name: string,
+  snapshot: TimelineSnapshot,
+  timeline: TurnTimeline,
+  parent?: TimelineBranch['parent']
+): TimelineBranch => ({
+  id: `branch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  name,
+  state: snapshot.state,
+  history: snapshot.history,
+  timeline,
+  parent
+});
+
+/**
+ * Новая ветка от закоммиченного хода turn ветки source (0 — до первого хода).
+ * @throws Error, если снимка хода нет в ленте source
+ */
+export const forkBranch = (source: TimelineBranch, turn: number, name: string): TimelineBranch => {
+  const timeline = forkTimeline(source.timeline, turn);
+  const snapshot = getCurrentSnapshot(timeline)!;
+  return createBranch(name, snapshot, timeline, { branchId: source.id, turn });
+};
+
+/**
+ * Записывает актуальные данные активной ветки в список веток
+ */
+export const syncBranch = (
+  branches: TimelineBranch[],
+  branchId: string,
+  live: TimelineSnapshot & { timeline: TurnTimeline }
+): TimelineBranch[] =>
+  branches.map(branch => (branch.id === branchId ? { ...branch, ...live } : branch));
@@ -1,4 +1,4 @@
-import { GameState, WorldData, LocationData, PlayerData, ObjectData } from '../types';
+import { GameState, WorldData, LocationData, PlayerData, NpcData, ObjectData, DiceState, WorldClock } from '../types';
 
 /**
  * Генерирует содержимое файла world.ts
@@ -30,6 +30,16 @@ export const INITIAL_PLAYERS: PlayerData[] = ${JSON.stringify(players, null, 2)}
 `;
 }
 
+/**
+ * Генерирует содержимое файла npcs.ts
+ */
+export function generateNpcsFile(npcs: NpcData[]): string {
+  return `import { NpcData } from '../types';
+
+export const INITIAL_NPCS: NpcData[] = ${JSON.stringify(npcs, null, 2)};
+`;
+}
+
 /**
  * Генерирует содержимое файла objects.ts
  */
@@ -40,6 +50,26 @@ export const INITIAL_OBJECTS: ObjectData[] = ${JSON.stringify(objects, null, 2)}
 `;
 }
 
+/**
+ * Генерирует содержимое файла dice.ts (генератор бросков)
+ */
+export function generateDiceFile(dice: DiceState | undefined): string {
+  return `import { DiceState } from '../types';
+
+export const INITIAL_DICE: DiceState | undefined = ${JSON.stringify(dice, null, 2) ?? 'undefined'};
+`;
+}
+
+/**
+ * Генерирует содержимое файла clock.ts (часы мира с отложенными эффектами)
+ */
+export function generateClockFile(clock: WorldClock | undefined): string {
+  return `import { WorldClock } from '../types';
+
+export const INITIAL_CLOCK: WorldClock | undefined = ${JSON.stringify(clock, null, 2) ?? 'undefined'};
+`;
+}
+
 /**
  * Скачивает файл в браузере
  */
@@ -73,6 +103,18 @@ export function saveDataFiles(gameState: GameState): void {
   setTimeout(() => {
     downloadFile('objects.ts', generateObjectsFile(gameState.objects), 'text/typescript');
   }, 300);
+
+  setTimeout(() => {
+    downloadFile('npcs.ts', generateNpcsFile(gameState.npcs), 'text/typescript');
+  }, 400);
+
+  setTimeout(() => {
+    downloadFile('dice.ts', generateDiceFile(gameState.dice), 'text/typescript');
+  }, 500);
+
+  setTimeout(() => {
+    downloadFile('clock.ts', generateClockFile(gameState.clock), 'text/typescript');
+  }, 600);
 }
 
 /**
@@ -0,0 +1,214 @@
+import { Schema, Type } from '@google/genai';
+import { DeclarativeToolDefinition, DeclarativeToolEffectType, DeclarativeToolFile, DeclarativeToolParameter, GameTool } from '../types';
+import setAttributeTool from '../tools/setAttribute';
+import moveObjectTool from '../tools/moveObject';
+import createObjectTool from '../tools/createObject';
+import deleteObjectTool from '../tools/deleteObject';
+import { formatToolArgIssues, validateToolArgs } from '../services/toolArgsValidation';
+
+// ============================================================================
+// ДЕКЛАРАТИВНЫЕ ИНСТРУМЕНТЫ
+// ============================================================================
+// Инструменты из custom-tools/*.json без TypeScript: параметры и список эффектов.
+// Эффект — вызов встроенного инструмента (set_attribute, move_object,
+// create_object, delete_object) с аргументами-шаблонами:
+//   {{param}}        — значение параметра вызова
+//   {{$N.createdId}} — ID объекта, созданного эффектом N (create_object) этого же вызова
+// Эффекты применяются по очереди и атомарно: ошибка любого эффекта возвращает исходное состояние.
+// Аргументы эффекта проверяются по схеме встроенного инструмента так же, как аргументы модели.
+
+const EFFECT_TOOLS: Record<DeclarativeToolEffectType, GameTool> = {
+  set_attribute: setAttributeTool,
+  move_object: moveObjectTool,
+  create_object: createObjectTool,
+  delete_object: deleteObjectTool
+};
+
+const PARAMETER_TYPES: Record<DeclarativeToolParameter['type'], Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+const TEMPLATE_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g;
+const CREATED_ID_PATTERN = /^\$(\d+)\.createdId$/;
+
+// Имена функций, которые принимают Gemini и OpenAI-совместимые API
+const TOOL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$/;
+
+// Все строки внутри значения эффекта (включая вложенные объекты, напр. attributes)
+const collectStrings = (value: unknown): string[] => {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(collectStrings);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(collectStrings);
+  return [];
+};
+
+const renderTemplate = (template: string, args: Record<string, unknown>, createdIds: Array<string | undefined>): string =>
+  template.replace(TEMPLATE_PATTERN, (_match, key: string) => {
+    const reference = key.match(CREATED_ID_PATTERN);
+    const value = reference ? createdIds[Number(reference[1])] : args[key];
+    return value === undefined || value === null ? '' : String(value);
+  });
+
+// Объект в строковом параметре эффекта (attributes у create_object) передаётся JSON-строкой —
+// так же, как его передаёт модель по схеме инструмента
+const toSchemaArgs = (tool: GameTool, fields: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(fields).map(([name, value]) => [
+    name,
+    tool.definition.parameters?.properties?.[name]?.type === Type.STRING && value && typeof value === 'object'
+      ? JSON.stringify(value)
+      : value
+  ]));
+
+const renderValue = (value: unknown, args: Record<string, unknown>, createdIds: Array<string | undefined>): unknown => {
+  if (typeof value === 'string') return renderTemplate(value, args, createdIds);
+  if (Array.isArray(value)) return value.map(item => renderValue(item, args, createdIds));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderValue(item, args, createdIds)]));
+  }
+  return value;
+};
+
+/**
+ * Проверяет описание инструмента и собирает из него GameTool.
+ * @throws Error с перечислением всех проблем описания
+ */
+export const compileDeclarativeTool = (definition: DeclarativeToolDefinition, sourceFile?: string): GameTool => {
+  const problems: string[] = [];
+  const parameters = definition?.parameters ?? {};
+  const effects = Array.isArray(definition?.effects) ? definition.effects : [];
+
+  if (typeof definition?.name !== 'string' || !TOOL_NAME_PATTERN.test(definition.name)) {
+    problems.push('name должен состоять из латиницы, цифр, "_" и "-" (до 64 символов)');
+  }
+  if (typeof definition?.description !== 'string' || !definition.description.trim()) {
+    problems.push('description обязателен');
+  }
+  if (effects.length === 0) {
+    problems.push('effects должен быть непустым массивом');
+  }
+
+  Object.entries(parameters).forEach(([name, parameter]) => {
+    if (!PARAMETER_TYPES[parameter?.type]) {
+      problems.push(`параметр ${name}: type должен быть одним из ${Object.keys(PARAMETER_TYPES).join(', ')}`);
+    }
+  });
+
+  // Шаблон может ссылаться только на объявленные параметры и на create_object из предыдущих эффектов
+  const checkTemplates = (strings: string[], where: string, effectIndex: number) => {
+    strings.forEach(text => {
+      for (const [, key] of text.matchAll(TEMPLATE_PATTERN)) {
+        const reference = key.match(CREATED_ID_PATTERN);
+        if (reference) {
+          const index = Number(reference[1]);
+          if (index >= effectIndex || effects[index]?.type !== 'create_object') {
+            problems.push(`${where}: {{${key}}} должен ссылаться на предыдущий эффект create_object`);
+          }
+        } else if (!(key in parameters)) {
+          problems.push(`${where}: {{${key}}} — неизвестный параметр`);
+        }
+      }
+    });
+  };
+
+  effects.forEach((effect, index) => {
+    const where = `эффект ${index}`;
+    const tool = EFFECT_TOOLS[effect?.type];
+    if (!tool) {
+      problems.push(`${where}: type должен быть одним из ${Object.keys(EFFECT_TOOLS).join(', ')}`);
+      return;
+    }
+
+    const { type, ...fields } = effect;
+    const schema = tool.definition.parameters!;
+    const unknownFields = Object.keys(fields).filter(field => !(field in (schema.properties ?? {})));
+    if (unknownFields.length > 0) {
+      problems.push(`${where} (${type}): неизвестные поля ${unknownFields.join(', ')}`);
+    }
+    const missingFields = (schema.required ?? []).filter(field => fields[field] === undefined || fields[field] === '');
+    if (missingFields.length > 0) {
+      problems.push(`${where} (${type}): не заданы поля ${missingFields.join(', ')}`);
+    }
+    checkTemplates(collectStrings(fields), where, index);
+
+    // Поля без шаблонов известны уже сейчас — проверяем их по схеме встроенного инструмента
+    // при загрузке, а не при первом вызове модели
+    const literalFields = Object.fromEntries(Object.entries(fields).filter(([field, value]) =>
+      field in (schema.properties ?? {}) && !collectStrings(value).some(text => text.includes('{{'))
+    ));
+    validateToolArgs({ ...schema, required: [] }, toSchemaArgs(tool, literalFields))
+      .forEach(issue => problems.push(`${where} (${type}): ${issue.path}: ${issue.message}`));
+  });
+
+  if (definition?.result !== undefined) {
+    checkTemplates(collectStrings(definition.result), 'result', effects.length);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Некорректный декларативный инструмент "${definition?.name ?? '?'}": ${problems.join('; ')}`);
+  }
+
+  const properties: Record<string, Schema> = {};
+  Object.entries(parameters).forEach(([name, parameter]) => {
+    properties[name] = {
+      type: PARAMETER_TYPES[parameter.type],
+      description: parameter.description,
+      ...(parameter.enum ? { enum: parameter.enum } : {})
+    };
+  });
+
+  return {
+    definition: {
+      name: definition.name,
+      description: definition.description,
+      parameters: {
+        type: Type.OBJECT,
+        properties,
+        required: Object.keys(parameters).filter(name => parameters[name].required)
+      }
+    },
+    sourceFile,
+    apply: (state, args) => {
+      const callArgs: Record<string, unknown> = args ?? {};
+      const createdIds: Array<string | undefined> = [];
+      const results: string[] = [];
+      let current = state;
+
+      for (let index = 0; index < effects.length; index++) {
+        const { type, ...fields } = effects[index];
+        const effectTool = EFFECT_TOOLS[type];
+        const effectArgs = toSchemaArgs(effectTool, renderValue(fields, callArgs, createdIds) as Record<string, unknown>);
+        const argIssues = validateToolArgs(effectTool.definition.parameters, effectArgs);
+        if (argIssues.length > 0) {
+          return { newState: state, result: `Ошибка: эффект ${index} (${type}) не выполнен, изменения отменены. ${formatToolArgIssues(type, argIssues)}` };
+        }
+        const execution = effectTool.apply(current, effectArgs);
+        // Ошибки встроенных инструментов начинаются с "Ошибка" (как в isToolError)
+        if (/^ошибка/i.test(execution.result.trim())) {
+          return { newState: state, result: `Ошибка: эффект ${index} (${type}) не выполнен, изменения отменены. ${execution.result}` };
+        }
+        current = execution.newState;
+        createdIds[index] = execution.createdId;
+        results.push(execution.result);
+      }
+
+      return {
+        newState: current,
+        result: definition.result ? renderTemplate(definition.result, callArgs, createdIds) : results.join('\n'),
+        createdId: [...createdIds].reverse().find(Boolean)
+      };
+    }
+  };
+};
+
+// Загрузка описаний из custom-tools/ через data-плагин; без dev-сервера API недоступен
+export const fetchDeclarativeToolFiles = async (): Promise<DeclarativeToolFile[]> => {
+  const response = await fetch('/api/custom-tools');
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.error || `Не удалось загрузить декларативные инструменты (HTTP ${response.status})`);
+  }
+  return data.tools;
+};
@@ -0,0 +1,149 @@
+import { DiceRoll, DiceState, GameState, RollTier, ToolCallLog, TurnDiceRecord } from '../types';
+
+// ============================================================================
+// БРОСКИ КУБИКОВ С ВОСПРОИЗВОДИМЫМ ГЕНЕРАТОРОМ
+// ============================================================================
+// Генератор хранится в GameState.dice как пара (seed, cursor): значение номер N
+// вычисляется только из seed и N. Поэтому пересчёт плана, откат транзакции и
+// повтор хода из кассеты от того же состояния дают те же броски.
+
+export const MAX_DICE_COUNT = 100;
+export const MAX_DICE_SIDES = 1000;
+
+// Запас итога над сложностью: от CRITICAL_MARGIN — критический успех,
+// до -CRITICAL_MARGIN — критическая неудача, недобор до PARTIAL_MARGIN — частичный успех
+export const CRITICAL_MARGIN = 10;
+export const PARTIAL_MARGIN = 3;
+
+export const ROLL_TIER_LABELS: Record<RollTier, string> = {
+  critical_success: 'КРИТИЧЕСКИЙ УСПЕХ',
+  success: 'УСПЕХ',
+  partial_success: 'ЧАСТИЧНЫЙ УСПЕХ',
+  failure: 'НЕУДАЧА',
+  critical_failure: 'КРИТИЧЕСКАЯ НЕУДАЧА'
+};
+
+// Что уровень успеха означает для мира (передаётся модели вместе с результатом)
+export const ROLL_TIER_OUTCOMES: Record<RollTier, string> = {
+  critical_success: 'цель достигнута с дополнительной выгодой',
+  success: 'цель достигнута',
+  partial_success: 'цель достигнута, но с осложнением или ценой',
+  failure: 'цель не достигнута',
+  critical_failure: 'цель не достигнута, и положение ухудшилось'
+};
+
+export const createDiceState = (seed: number = Math.floor(Math.random() * 2 ** 32)): DiceState => ({
+  seed: seed >>> 0,
+  cursor: 0
+});
+
+/**
+ * Значение номер index генератора с зерном seed, в [0, 1).
+ * mulberry32 в счётном режиме: состояние — seed + (index + 1) * шаг.
+ */
+export const diceRandom = (seed: number, index: number): number => {
+  let t = (seed + Math.imul(index + 1, 0x6D2B79F5)) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+interface DiceTerm {
+  sign: 1 | -1;
+  count: number;
+  sides: number;
+}
+
+/**
+ * Разбирает выражение вида "2d6+3", "d20-1", "1d8+1d4" (допускается русская "к": "2к6").
+ * @throws Error с описанием, если выражение некорректно или выходит за лимиты
+ */
+export const parseDiceExpression = (expression: string): { dice: DiceTerm[]; modifier: number; normalized: string } => {
+  const compact = String(expression ?? '').toLowerCase().replace(/\s+/g, '').replace(/к/g, 'd');
+  if (!/^[+-]?(\d*d\d+|\d+)([+-](\d*d\d+|\d+))*$/.test(compact)) {
+    throw new Error(`Некорректное выражение броска "${expression}" (пример: 2d6+3)`);
+  }
+
+  const dice: DiceTerm[] = [];
+  let modifier = 0;
+  for (const match of compact.matchAll(/([+-]?)(?:(\d*)d(\d+)|(\d+))/g)) {
+    const sign = match[1] === '-' ? -1 : 1;
+    if (match[4] !== undefined) {
+      modifier += sign * Number(match[4]);
+      continue;
+    }
+    const count = match[2] === '' ? 1 : Number(match[2]);
+    const sides = Number(match[3]);
+    if (count < 1 || count > MAX_DICE_COUNT) {
+      throw new Error(`Количество кубиков должно быть от 1 до ${MAX_DICE_COUNT}: "${expression}"`);
+    }
+    if (sides < 2 || sides > MAX_DICE_SIDES) {
+      throw new Error(`Число граней должно быть от 2 до ${MAX_DICE_SIDES}: "${expression}"`);
+    }
+    dice.push({ sign, count, sides });
+  }
+
+  if (dice.length === 0) {
+    throw new Error(`В выражении броска нет кубиков: "${expression}"`);
+  }
+
+  const normalized = dice
+    .map((d, i) => `${d.sign < 0 ? '-' : i > 0 ? '+' : ''}${d.count}d${d.sides}`)
+    .join('') + (modifier > 0 ? `+${modifier}` : modifier < 0 ? `${modifier}` : '');
+
+  return { dice, modifier, normalized };
+};
+
+export const getRollTier = (total: number, difficulty: number): RollTier => {
+  const margin = total - difficulty;
+  if (margin >= CRITICAL_MARGIN) return 'critical_success';
+  if (margin >= 0) return 'success';
+  if (margin <= -CRITICAL_MARGIN) return 'critical_failure';
+  if (margin >= -PARTIAL_MARGIN) return 'partial_success';
+  return 'failure';
+};
+
+/**
+ * Бросает выражение генератором dice. Возвращает бросок и генератор
+ * со сдвинутым курсором (исходный не меняется).
+ * @throws Error, если выражение некорректно (см. parseDiceExpression)
+ */
+export const rollDice = (
+  dice: DiceState,
+  expression: string,
+  difficulty?: number
+): { roll: DiceRoll; dice: DiceState } => {
+  const parsed = parseDiceExpression(expression);
+  let cursor = dice.cursor;
+  const rolls: number[] = [];
+  let total = parsed.modifier;
+
+  for (const term of parsed.dice) {
+    for (let i = 0; i < term.count; i++) {
+      const face = Math.floor(diceRandom(dice.seed, cursor++) * term.sides) + 1;
+      rolls.push(face);
+      total += term.sign * face;
+    }
+  }
+
+  const roll: DiceRoll = { expression: parsed.normalized, rolls, modifier: parsed.modifier, total };
+  if (difficulty !== undefined) {
+    roll.difficulty = difficulty;
+    roll.tier = getRollTier(total, difficulty);
+  }
+
+  return { roll, dice: { ...dice, cursor } };
+};
+
+/**
+ * Запись бросков хода для истории: генератор до хода и неоткаченные броски.
+ * undefined, если у состояния нет генератора.
+ */
+export const createTurnDiceRecord = (before: GameState, toolLogs: ToolCallLog[]): TurnDiceRecord | undefined => {
+  if (!before.dice) return undefined;
+  return {
+    seed: before.dice.seed,
+    startCursor: before.dice.cursor,
+    rolls: toolLogs.filter(log => log.roll && !log.rolledBack).map(log => log.roll!)
+  };
+};
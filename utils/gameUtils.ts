@@ -1,9 +1,34 @@
-import { GameState, PlayerData, ObjectData, LocationData } from '../types';
+import { GameState, PlayerData, PlayerCondition, NpcData, ObjectData, LocationData, StatDefinition, HealthThresholds, WorldData } from '../types';
 
 export const cloneState = (state: GameState): GameState => {
   return JSON.parse(JSON.stringify(state));
 };
 
+// Источник ID новых сущностей (create_object, create_location, create_player, эффекты часов).
+// По умолчанию — время и случайный суффикс; воспроизведение кассеты подставляет записанные ID,
+// чтобы ссылки на созданные в ходе сущности совпали с записью
+export type EntityIdSource = (prefix: string) => string;
+
+export const randomEntityId: EntityIdSource = (prefix) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 6)}`;
+
+let entityIdSource: EntityIdSource = randomEntityId;
+
+export const createEntityId = (prefix: string): string => entityIdSource(prefix);
+
+/**
+ * Выполняет run с подменённым источником ID. Прежний источник восстанавливается и при ошибке.
+ */
+export const withEntityIdSource = async <T>(source: EntityIdSource, run: () => Promise<T>): Promise<T> => {
+  const previous = entityIdSource;
+  entityIdSource = source;
+  try {
+    return await run();
+  } finally {
+    entityIdSource = previous;
+  }
+};
+
 /**
  * Нормализует состояние игры, гарантируя, что все сущности имеют инициализированный attributes.
  * Используется при загрузке данных из localStorage или при парсинге JSON.
@@ -15,6 +40,11 @@ export const normalizeState = (state: GameState): GameState => {
       ...p,
       attributes: p.attributes || {}
     })),
+    // npcs нет в состояниях, записанных до появления NPC
+    npcs: (state.npcs ?? []).map((n: NpcData) => ({
+      ...n,
+      attributes: n.attributes || {}
+    })),
     objects: state.objects.map((o: ObjectData) => ({
       ...o,
       attributes: o.attributes || {}
@@ -26,6 +56,92 @@ export const normalizeState = (state: GameState): GameState => {
   };
 };
 
+/**
+ * Есть ли проход из локации from в локацию to.
+ * Связь from → to типа out/bidirectional или связь to → from типа in/bidirectional.
+ */
+export const hasPassage = (from: LocationData, to: LocationData): boolean =>
+  from.connections.some(c => c.targetLocationId === to.id && (c.type === 'out' || c.type === 'bidirectional')) ||
+  to.connections.some(c => c.targetLocationId === from.id && (c.type === 'in' || c.type === 'bidirectional'));
+
+/**
+ * Пересобирает PlayerData.inventory по объектам, напрямую связанным с игроком.
+ * Источник истины о владении — ObjectData.connectionId; inventory — производный
+ * список (для промпта и UI), который синхронизируется после каждого изменения.
+ * Если все inventory уже актуальны, возвращает то же состояние (без копирования).
+ */
+export const syncPlayerInventories = (state: GameState): GameState => {
+  let changed = false;
+  const players = state.players.map(player => {
+    const inventory = state.objects.filter(o => o.connectionId === player.id).map(o => o.id);
+    const current = player.inventory ?? [];
+    if (inventory.length === current.length && inventory.every((id, i) => id === current[i])) {
+      return player;
+    }
+    changed = true;
+    return { ...player, inventory };
+  });
+  return changed ? { ...state, players } : state;
+};
+
+// Пороги здоровья по умолчанию: на 10 и ниже персонаж недееспособен, на 0 и ниже — мёртв.
+// Мир может задать свои (WorldData.healthThresholds)
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  incapacitatedAtOrBelow: 10,
+  deadAtOrBelow: 0
+};
+
+export const getHealthThresholds = (world?: WorldData): HealthThresholds =>
+  world?.healthThresholds ?? DEFAULT_HEALTH_THRESHOLDS;
+
+export const getPlayerCondition = (health: number, thresholds: HealthThresholds = DEFAULT_HEALTH_THRESHOLDS): PlayerCondition => {
+  if (health <= thresholds.deadAtOrBelow) return 'dead';
+  if (health <= thresholds.incapacitatedAtOrBelow) return 'incapacitated';
+  return 'alive';
+};
+
+export const DEFAULT_MAX_HEALTH = 100;
+
+export const clampStat = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/**
+ * Состояние, которое задаёт характеристика при данном значении: срабатывает самый
+ * низкий порог, до которого опустилось значение. undefined — ни один порог не достигнут.
+ */
+export const getStatThresholdState = (definition: StatDefinition, value: number): string | undefined =>
+  [...(definition.thresholds ?? [])]
+    .sort((a, b) => a.atOrBelow - b.atOrBelow)
+    .find(t => value <= t.atOrBelow)?.state;
+
+/**
+ * Пересобирает PlayerData.condition по health (как syncPlayerInventories — по connectionId).
+ * Если все condition уже актуальны, возвращает то же состояние (без копирования).
+ */
+export const syncPlayerConditions = (state: GameState): GameState => {
+  const thresholds = getHealthThresholds(state.world);
+  let changed = false;
+  const players = state.players.map(player => {
+    const condition = getPlayerCondition(player.health, thresholds);
+    if (player.condition === condition) {
+      return player;
+    }
+    changed = true;
+    return { ...player, condition };
+  });
+  return changed ? { ...state, players } : state;
+};
+
+/**
+ * Переносит ПРЯМЫХ потомков parentId (объекты с connectionId === parentId) в targetConnectionId.
+ * Вложенные глубже объекты остаются в своих контейнерах. Возвращает новый массив.
+ */
+export const reparentDirectChildren = (
+  objects: ObjectData[],
+  parentId: string,
+  targetConnectionId: string | undefined
+): ObjectData[] =>
+  objects.map(o => (o.connectionId === parentId ? { ...o, connectionId: targetConnectionId } : o));
+
 /**
  * Рекурсивно находит все потомки объекта (всё дерево вложенных объектов)
  * Проверяет как точное совпадение connectionId, так и случаи с пустой строкой/undefined
@@ -148,24 +264,8 @@ export const deleteObjectWithChildren = (
     targetConnectionId = rootLocationOrPlayer || undefined;
   }
   
-  // Находим только ПРЯМЫХ потомков (не рекурсивно!)
-  // Это объекты, у которых connectionId === objectIdToDelete
-  const directChildren = newObjects.filter(o => o.connectionId === objectIdToDelete);
-  
-  // Перемещаем только прямых потомков к найденной цели
+  // Перемещаем только ПРЯМЫХ потомков к найденной цели
   // Вложенные потомки остаются на своих местах (их connectionId указывает на прямых потомков)
-  for (const directChild of directChildren) {
-    const childIndex = newObjects.findIndex(o => o.id === directChild.id);
-    if (childIndex !== -1) {
-      newObjects[childIndex] = {
-        ...newObjects[childIndex],
-        connectionId: targetConnectionId
-      };
-    }
-  }
-  
-  // Удаляем объект из массива
-  newObjects.splice(objectIndex, 1);
-  
-  return newObjects;
+  return reparentDirectChildren(newObjects, objectIdToDelete, targetConnectionId)
+    .filter(o => o.id !== objectIdToDelete);
 };
\ No newline at end of file
@@ -7,6 +7,8 @@ export interface RetryOptions {
     maxDelay?: number;
     backoffFactor?: number;
     shouldRetry?: (error: any) => boolean;
+    // Отмена: прерывает ожидание между попытками и запрещает новые попытки
+    signal?: AbortSignal;
 }
 
 /**
@@ -27,9 +29,19 @@ const DEFAULT_RETRY_OPTIONS: RetryOptions = {
 };
 
 /**
- * Waits for a specified duration
+ * Waits for a specified duration (rejects with signal.reason if aborted)
  */
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(signal!.reason);
+    };
+    const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
 
 /**
  * Wraps a function with retry logic using exponential backoff
@@ -43,20 +55,22 @@ export async function withRetry<T>(
     let delay = config.initialDelay!;
 
     while (true) {
+        config.signal?.throwIfAborted();
+
         try {
             return await fn();
         } catch (error: any) {
             attempt++;
 
-            // Check if we should stop retrying
-            if (attempt > config.maxRetries! || (config.shouldRetry && !config.shouldRetry(error))) {
+            // Check if we should stop retrying (a cancelled call is never retried)
+            if (config.signal?.aborted || attempt > config.maxRetries! || (config.shouldRetry && !config.shouldRetry(error))) {
                 throw error;
             }
 
             console.warn(`[Retry] Attempt ${attempt} failed. Retrying in ${delay}ms...`, error.message);
 
             // Wait before next attempt
-            await wait(delay);
+            await wait(delay, config.signal);
 
             // Calculate next delay with backoff
             delay = Math.min(delay * config.backoffFactor!, config.maxDelay!);
@@ -0,0 +1,204 @@
+import { GameState, LocationData, PlayerData, SaveEnvelope, SavedSession } from '../types';
+import { normalizeState, syncPlayerConditions, syncPlayerInventories } from './gameUtils';
+import { createDiceState } from './dice';
+import { createWorldClock } from './worldClock';
+import packageJson from '../package.json';
+
+// ============================================================================
+// ВЕРСИОНИРОВАННЫЙ ФОРМАТ СОХРАНЕНИЙ
+// ============================================================================
+// Все сохранения (слоты /api/saves, резервная копия localStorage, данные data/*.ts)
+// при загрузке проходят через migrateSave: сохранение поднимается от своей версии
+// формата до текущей по цепочке миграций, по одному шагу за раз.
+//
+// Чтобы изменить формат: увеличить CURRENT_SAVE_FORMAT_VERSION и добавить в
+// SAVE_MIGRATIONS шаг с предыдущей версии (с тестом в utils/__tests__/saveFormat.test.ts).
+
+export const CURRENT_SAVE_FORMAT_VERSION = 6;
+
+export const APP_VERSION: string = packageJson.version;
+
+// Шаг миграции: принимает сохранение версии N, возвращает сохранение версии N + 1
+export type SaveMigration = (save: any) => any;
+
+/**
+ * v0 → v1: сохранения без версии.
+ * Встречаются в трёх видах: голый GameState (старая резервная копия и data/*.ts),
+ * { state, history } и слот { id, name, createdAt, updatedAt, session }.
+ * Оборачиваются в SaveEnvelope; у сущностей заполняются обязательные поля,
+ * которых не было в данных старых сборок.
+ */
+const migrateV0toV1: SaveMigration = (save) => {
+  const session = save.session ?? (save.state ? save : { state: save, history: [] });
+  const state = normalizeState(session.state as GameState);
+  const now = new Date().toISOString();
+
+  return {
+    ...(save.session ? save : {}),
+    formatVersion: 1,
+    createdAt: save.createdAt ?? now,
+    updatedAt: save.updatedAt ?? now,
+    appVersion: save.appVersion ?? 'unknown',
+    session: {
+      ...session,
+      history: session.history ?? [],
+      state: {
+        ...state,
+        locations: state.locations.map((l: LocationData) => ({
+          ...l,
+          state: l.state ?? 'normal',
+          connections: l.connections ?? []
+        })),
+        players: state.players.map((p: PlayerData) => ({
+          ...p,
+          inventory: p.inventory ?? [],
+          health: p.health ?? 100,
+          state: p.state ?? 'normal'
+        }))
+      }
+    }
+  };
+};
+
+/**
+ * v1 → v2: владение предметами определяется только ObjectData.connectionId.
+ * Старые сборки не обновляли PlayerData.inventory в инструментах, поэтому
+ * inventory пересобирается по объектам, напрямую связанным с игроком.
+ */
+const migrateV1toV2: SaveMigration = (save) => ({
+  ...save,
+  session: {
+    ...save.session,
+    state: syncPlayerInventories(save.session.state)
+  }
+});
+
+/**
+ * v2 → v3: в GameState появилась коллекция неигровых персонажей (npcs).
+ * В старых сохранениях NPC нет — коллекция заводится пустой.
+ */
+const migrateV2toV3: SaveMigration = (save) => ({
+  ...save,
+  session: {
+    ...save.session,
+    state: {
+      ...save.session.state,
+      npcs: save.session.state.npcs ?? []
+    }
+  }
+});
+
+/**
+ * v3 → v4: у игроков появилось производное поле condition (жив / недееспособен / мёртв),
+ * которое пересобирается по health.
+ */
+const migrateV3toV4: SaveMigration = (save) => ({
+  ...save,
+  session: {
+    ...save.session,
+    state: syncPlayerConditions(save.session.state)
+  }
+});
+
+/**
+ * v4 → v5: в GameState появился генератор бросков (dice) для roll_check.
+ * Старым сохранениям выдаётся новое случайное зерно.
+ */
+const migrateV4toV5: SaveMigration = (save) => ({
+  ...save,
+  session: {
+    ...save.session,
+    state: {
+      ...save.session.state,
+      dice: save.session.state.dice ?? createDiceState()
+    }
+  }
+});
+
+/**
+ * v5 → v6: в GameState появились часы мира (clock).
+ * Старые сохранения начинают со стартового времени (утро первого дня).
+ */
+const migrateV5toV6: SaveMigration = (save) => ({
+  ...save,
+  session: {
+    ...save.session,
+    state: {
+      ...save.session.state,
+      clock: save.session.state.clock ?? createWorldClock()
+    }
+  }
+});
+
+// Реестр миграций: ключ — версия, с которой выполняется шаг
+export const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  0: migrateV0toV1,
+  1: migrateV1toV2,
+  2: migrateV2toV3,
+  3: migrateV3toV4,
+  4: migrateV4toV5,
+  5: migrateV5toV6
+};
+
+export const getSaveFormatVersion = (save: any): number =>
+  typeof save?.formatVersion === 'number' ? save.formatVersion : 0;
+
+/**
+ * Поднимает сохранение любой поддерживаемой версии до текущей.
+ * @throws Error, если сохранение записано более новой версией формата или шаг миграции отсутствует
+ */
+export const migrateSave = <T extends SaveEnvelope = SaveEnvelope>(save: any): T => {
+  if (!save || typeof save !== 'object') {
+    throw new Error('Сохранение повреждено: ожидался объект');
+  }
+
+  let version = getSaveFormatVersion(save);
+  if (version > CURRENT_SAVE_FORMAT_VERSION) {
+    throw new Error(
+      `Сохранение записано более новой версией формата (${version}); эта сборка поддерживает версии до ${CURRENT_SAVE_FORMAT_VERSION}`
+    );
+  }
+
+  let migrated = save;
+  while (version < CURRENT_SAVE_FORMAT_VERSION) {
+    const migration = SAVE_MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`Нет миграции сохранения с версии ${version}`);
+    }
+    migrated = { ...migration(migrated), formatVersion: version + 1 };
+    version++;
+    console.log(`[SaveFormat] Migrated save to format v${version}`);
+  }
+
+  return migrated;
+};
+
+/**
+ * Обёртка текущей версии для новой сессии. previous — прежняя версия того же
+ * сохранения (сохраняется время создания).
+ */
+export const createSaveEnvelope = (session: SavedSession, previous?: SaveEnvelope): SaveEnvelope => {
+  const now = new Date().toISOString();
+  return {
+    formatVersion: CURRENT_SAVE_FORMAT_VERSION,
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+    appVersion: APP_VERSION,
+    session
+  };
+};
+
+/**
+ * Разбирает резервную копию сессии из localStorage (пишется как JSON от createSaveEnvelope).
+ * Копии старых сборок — { state, history } без версии — проходят цепочку миграций.
+ * @returns сессию текущей версии или null, если в копии нет полного состояния мира
+ * @throws Error, если копия не является JSON или не мигрирует
+ */
+export const parseSessionBackup = (raw: string): SavedSession | null => {
+  const parsed = JSON.parse(raw);
+  const state = parsed?.session?.state ?? parsed?.state;
+  if (!(state?.world && state.locations && state.players && state.objects)) {
+    return null;
+  }
+  return migrateSave(parsed).session;
+};
@@ -0,0 +1,55 @@
+// Утилита для работы со слотами сохранений (/api/saves)
+
+import { SavedSession, SaveSlot, SaveSlotInfo } from '../types';
+
+// Разбирает ответ API; при ошибке бросает Error с сообщением сервера
+const readResponse = async (response: Response, failure: string): Promise<any> => {
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.error || `${failure} (HTTP ${response.status})`);
+  }
+  return data;
+};
+
+// Список слотов, новые сверху
+export const listSaves = async (): Promise<SaveSlotInfo[]> => {
+  const response = await fetch('/api/saves');
+  const data = await readResponse(response, 'Не удалось получить список сохранений');
+  return data.saves;
+};
+
+// Создание нового слота
+export const createSave = async (name: string, session: SavedSession): Promise<SaveSlotInfo> => {
+  const response = await fetch('/api/saves', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, session })
+  });
+  const data = await readResponse(response, 'Не удалось сохранить');
+  console.log(`[Saves] Saved "${name}" as ${data.save.id}`);
+  return data.save;
+};
+
+// Загрузка слота целиком
+export const loadSave = async (id: string): Promise<SaveSlot> => {
+  const response = await fetch(`/api/saves?id=${encodeURIComponent(id)}`);
+  const data = await readResponse(response, 'Не удалось загрузить сохранение');
+  return data.save;
+};
+
+// Переименование и/или перезапись слота
+export const updateSave = async (id: string, update: { name?: string; session?: SavedSession }): Promise<SaveSlotInfo> => {
+  const response = await fetch(`/api/saves?id=${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update)
+  });
+  const data = await readResponse(response, 'Не удалось обновить сохранение');
+  return data.save;
+};
+
+// Удаление слота
+export const deleteSave = async (id: string): Promise<void> => {
+  const response = await fetch(`/api/saves?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+  await readResponse(response, 'Не удалось удалить сохранение');
+};
@@ -0,0 +1,214 @@
+import { GameState, StateIssue } from '../types';
+
+// ============================================================================
+// ПРОВЕРКА ЦЕЛОСТНОСТИ СОСТОЯНИЯ
+// ============================================================================
+// validateState находит нарушения ссылочной целостности (висячие ссылки,
+// циклы вложенности, расхождение inventory с объектами у игрока).
+// Для большинства проблем есть автоисправление (repairIssue / repairAllIssues).
+
+/**
+ * Проверяет состояние и возвращает все найденные проблемы (пустой массив — всё в порядке)
+ */
+export const validateState = (state: GameState): StateIssue[] => {
+  const issues: StateIssue[] = [];
+  const locationIds = new Set(state.locations.map(l => l.id));
+  const playerIds = new Set(state.players.map(p => p.id));
+  const npcIds = new Set(state.npcs.map(n => n.id));
+  const objectIds = new Set(state.objects.map(o => o.id));
+  const fallbackLocation = state.locations[0];
+
+  // Дубликаты ID (во всех типах сущностей сразу: connectionId не различает типы)
+  const seenIds = new Set<string>();
+  [
+    ...state.locations.map(l => ({ id: l.id, path: `locations[${l.id}]` })),
+    ...state.players.map(p => ({ id: p.id, path: `players[${p.id}]` })),
+    ...state.npcs.map(n => ({ id: n.id, path: `npcs[${n.id}]` })),
+    ...state.objects.map(o => ({ id: o.id, path: `objects[${o.id}]` }))
+  ].forEach(({ id, path }) => {
+    if (seenIds.has(id)) {
+      issues.push({
+        code: 'duplicate_id',
+        severity: 'error',
+        entityId: id,
+        path: `${path}.id`,
+        message: `ID "${id}" используется несколькими сущностями`
+      });
+    }
+    seenIds.add(id);
+  });
+
+  // Связи локаций с несуществующими локациями
+  state.locations.forEach(location => {
+    location.connections.forEach((connection, index) => {
+      if (!locationIds.has(connection.targetLocationId)) {
+        issues.push({
+          code: 'dangling_location_connection',
+          severity: 'error',
+          entityId: location.id,
+          path: `locations[${location.id}].connections[${index}].targetLocationId`,
+          message: `Локация "${location.name}" связана с несуществующей локацией "${connection.targetLocationId}"`,
+          repair: 'удалить связь'
+        });
+      }
+    });
+  });
+
+  // Игроки в несуществующих локациях
+  state.players.forEach(player => {
+    if (!locationIds.has(player.locationId)) {
+      issues.push({
+        code: 'dangling_player_location',
+        severity: 'error',
+        entityId: player.id,
+        path: `players[${player.id}].locationId`,
+        message: `Игрок "${player.name}" находится в несуществующей локации "${player.locationId}"`,
+        repair: fallbackLocation ? `переместить в "${fallbackLocation.name}"` : undefined
+      });
+    }
+  });
+
+  // NPC в несуществующих локациях
+  state.npcs.forEach(npc => {
+    if (!locationIds.has(npc.locationId)) {
+      issues.push({
+        code: 'dangling_npc_location',
+        severity: 'error',
+        entityId: npc.id,
+        path: `npcs[${npc.id}].locationId`,
+        message: `NPC "${npc.name}" находится в несуществующей локации "${npc.locationId}"`,
+        repair: fallbackLocation ? `переместить в "${fallbackLocation.name}"` : undefined
+      });
+    }
+  });
+
+  // Объекты без связи или со связью на несуществующую сущность
+  state.objects.forEach(object => {
+    const connectionId = object.connectionId?.trim();
+    if (!connectionId || !(locationIds.has(connectionId) || playerIds.has(connectionId) || npcIds.has(connectionId) || objectIds.has(connectionId))) {
+      issues.push({
+        code: 'dangling_object_connection',
+        severity: 'error',
+        entityId: object.id,
+        path: `objects[${object.id}].connectionId`,
+        message: connectionId
+          ? `Объект "${object.name}" связан с несуществующей сущностью "${connectionId}"`
+          : `Объект "${object.name}" ни с чем не связан`,
+        repair: fallbackLocation ? `переместить в "${fallbackLocation.name}"` : undefined
+      });
+    }
+  });
+
+  // Циклы вложенности объектов (A в B, B в A). Каждый цикл сообщается один раз
+  const objectsById = new Map(state.objects.map(o => [o.id, o]));
+  const inReportedCycle = new Set<string>();
+  state.objects.forEach(object => {
+    if (inReportedCycle.has(object.id)) return;
+    const chain: string[] = [];
+    let current = object;
+    while (current && !chain.includes(current.id)) {
+      chain.push(current.id);
+      current = objectsById.get(current.connectionId)!;
+    }
+    if (current?.id === object.id) {
+      chain.forEach(id => inReportedCycle.add(id));
+      issues.push({
+        code: 'containment_cycle',
+        severity: 'error',
+        entityId: object.id,
+        path: `objects[${object.id}].connectionId`,
+        message: `Циклическая вложенность объектов: ${[...chain, object.id].join(' → ')}`,
+        repair: fallbackLocation ? `переместить "${object.name}" в "${fallbackLocation.name}"` : undefined
+      });
+    }
+  });
+
+  // inventory игрока должен совпадать с объектами, напрямую связанными с игроком
+  state.players.forEach(player => {
+    const carried = state.objects.filter(o => o.connectionId === player.id).map(o => o.id);
+    const inventory = player.inventory ?? [];
+    const missing = carried.filter(id => !inventory.includes(id));
+    const extra = inventory.filter(id => !carried.includes(id));
+    if (missing.length > 0 || extra.length > 0) {
+      const details = [
+        missing.length > 0 ? `нет в inventory: ${missing.join(', ')}` : '',
+        extra.length > 0 ? `лишние в inventory: ${extra.join(', ')}` : ''
+      ].filter(Boolean).join('; ');
+      issues.push({
+        code: 'inventory_mismatch',
+        severity: 'warning',
+        entityId: player.id,
+        path: `players[${player.id}].inventory`,
+        message: `Inventory игрока "${player.name}" не совпадает с объектами у игрока (${details})`,
+        repair: 'пересобрать inventory по объектам у игрока'
+      });
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Применяет автоисправление одной проблемы. Проблемы без repair возвращают состояние без изменений.
+ */
+export const repairIssue = (state: GameState, issue: StateIssue): GameState => {
+  if (!issue.repair) return state;
+  const fallbackLocationId = state.locations[0]?.id;
+
+  switch (issue.code) {
+    case 'dangling_location_connection': {
+      const locationIds = new Set(state.locations.map(l => l.id));
+      return {
+        ...state,
+        locations: state.locations.map(l => l.id === issue.entityId
+          ? { ...l, connections: l.connections.filter(c => locationIds.has(c.targetLocationId)) }
+          : l)
+      };
+    }
+    case 'dangling_player_location':
+      return {
+        ...state,
+        players: state.players.map(p => (p.id === issue.entityId ? { ...p, locationId: fallbackLocationId } : p))
+      };
+    case 'dangling_npc_location':
+      return {
+        ...state,
+        npcs: state.npcs.map(n => (n.id === issue.entityId ? { ...n, locationId: fallbackLocationId } : n))
+      };
+    case 'dangling_object_connection':
+    case 'containment_cycle':
+      return {
+        ...state,
+        objects: state.objects.map(o => (o.id === issue.entityId ? { ...o, connectionId: fallbackLocationId } : o))
+      };
+    case 'inventory_mismatch':
+      return {
+        ...state,
+        players: state.players.map(p => p.id === issue.entityId
+          ? { ...p, inventory: state.objects.filter(o => o.connectionId === p.id).map(o => o.id) }
+          : p)
+      };
+    default:
+      return state;
+  }
+};
+
+/**
+ * Исправляет все проблемы, для которых есть автоисправление. Проверка повторяется
+ * после каждого исправления (перемещение объекта может изменить inventory и т.п.).
+ * @returns исправленное состояние и оставшиеся проблемы (требуют ручного исправления)
+ */
+export const repairAllIssues = (state: GameState): { state: GameState; remaining: StateIssue[] } => {
+  let repaired = state;
+  let issues = validateState(repaired);
+
+  // Ограничение на случай исправления, которое не устраняет проблему
+  for (let step = 0; step < 100; step++) {
+    const issue = issues.find(i => i.repair);
+    if (!issue) break;
+    repaired = repairIssue(repaired, issue);
+    issues = validateState(repaired);
+  }
+
+  return { state: repaired, remaining: issues };
+};
@@ -0,0 +1,76 @@
+import { TimelineSnapshot, TurnTimeline } from '../types';
+
+// ============================================================================
+// ЛЕНТА ХОДОВ: UNDO / REDO / ПЕРЕМОТКА
+// ============================================================================
+// Хранит полные снимки (GameState + TurnHistory[]) после каждого коммита.
+// Снимки неизменяемы: инструменты всегда возвращают новое состояние, поэтому
+// соседние снимки разделяют неизменённые части без копирования.
+
+// Ограничение глубины ленты: самые старые снимки отбрасываются
+export const MAX_TIMELINE_SNAPSHOTS = 50;
+
+export const createTimeline = (): TurnTimeline => ({ snapshots: [], cursor: -1 });
+
+/**
+ * Добавляет коммит в ленту. before — состояние непосредственно перед коммитом
+ * (с учётом ручных правок после предыдущего коммита), after — результат хода.
+ * Отменённые ходы (правее курсора) отбрасываются.
+ */
+export const commitToTimeline = (
+  timeline: TurnTimeline,
+  before: TimelineSnapshot,
+  after: TimelineSnapshot
+): TurnTimeline => {
+  const snapshots = [...timeline.snapshots.slice(0, Math.max(timeline.cursor, 0)), before, after]
+    .slice(-MAX_TIMELINE_SNAPSHOTS);
+  return { snapshots, cursor: snapshots.length - 1 };
+};
+
+export const canUndo = (timeline: TurnTimeline): boolean => timeline.cursor > 0;
+
+export const canRedo = (timeline: TurnTimeline): boolean =>
+  timeline.cursor >= 0 && timeline.cursor < timeline.snapshots.length - 1;
+
+export const getCurrentSnapshot = (timeline: TurnTimeline): TimelineSnapshot | null =>
+  timeline.snapshots[timeline.cursor] ?? null;
+
+/**
+ * Перемещает курсор на steps снимков (отрицательное значение — назад).
+ * Выход за границы ленты обрезается.
+ */
+export const moveTimeline = (timeline: TurnTimeline, steps: number): TurnTimeline => {
+  if (timeline.snapshots.length === 0) return timeline;
+  const cursor = Math.min(timeline.snapshots.length - 1, Math.max(0, timeline.cursor + steps));
+  return { ...timeline, cursor };
+};
+
+/**
+ * Перематывает ленту к состоянию сразу после хода turn (0 — до первого хода).
+ * @throws Error, если снимка для этого хода нет (отброшен или не записывался)
+ */
+export const rewindToTurn = (timeline: TurnTimeline, turn: number): TurnTimeline => {
+  const index = timeline.snapshots.findIndex(snapshot =>
+    (snapshot.history[snapshot.history.length - 1]?.turn ?? 0) === turn
+  );
+  if (index === -1) {
+    throw new Error(`Снимок для хода ${turn} не найден в ленте`);
+  }
+  return { ...timeline, cursor: index };
+};
+
+/**
+ * Полная история ходов ленты, включая отменённые (доступные для redo).
+ * Снимки правее курсора продолжают историю текущего, поэтому достаточно последнего.
+ */
+export const getTimelineTurns = (timeline: TurnTimeline) =>
+  timeline.snapshots[timeline.snapshots.length - 1]?.history ?? [];
+
+/**
+ * Копия ленты, обрезанная на снимке после хода turn: основа для новой ветки.
+ * Ходы после turn в копию не попадают (redo в ветке недоступен).
+ */
+export const forkTimeline = (timeline: TurnTimeline, turn: number): TurnTimeline => {
+  const { cursor } = rewindToTurn(timeline, turn);
+  return { snapshots: timeline.snapshots.slice(0, cursor + 1), cursor };
+};
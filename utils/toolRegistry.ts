@@ -0,0 +1,61 @@
+import { GameTool } from '../types';
+
+// ============================================================================
+// РЕЕСТР ИНСТРУМЕНТОВ
+// ============================================================================
+// Модули tools/*.ts находит tools/index.ts (import.meta.glob), а здесь из них
+// собирается список инструментов: проверяется форма GameTool и уникальность имён.
+// Некорректные модули и дубликаты пропускаются и попадают в errors — одна
+// сломанная правка инструмента не должна ронять приложение.
+
+export interface ToolRegistry {
+  tools: GameTool[];
+  errors: string[];
+}
+
+/**
+ * Проверяет, что default-экспорт модуля — GameTool.
+ * @returns текст проблемы или null, если форма корректна
+ */
+export const getToolShapeError = (candidate: any): string | null => {
+  if (!candidate || typeof candidate !== 'object') return 'нет default-экспорта с инструментом';
+  if (!candidate.definition || typeof candidate.definition !== 'object') return 'нет definition';
+  if (typeof candidate.definition.name !== 'string' || !candidate.definition.name.trim()) return 'definition.name должен быть непустой строкой';
+  if (typeof candidate.definition.description !== 'string') return `definition.description инструмента ${candidate.definition.name} должен быть строкой`;
+  if (candidate.definition.parameters !== undefined && typeof candidate.definition.parameters !== 'object') {
+    return `definition.parameters инструмента ${candidate.definition.name} должен быть схемой`;
+  }
+  if (typeof candidate.apply !== 'function') return `apply инструмента ${candidate.definition.name} должен быть функцией`;
+  return null;
+};
+
+/**
+ * Собирает реестр из модулей вида { [путь]: { default: GameTool } }.
+ * Порядок инструментов — по пути модуля, чтобы список в UI и в запросе к модели был стабильным.
+ */
+export const buildToolRegistry = (modules: Record<string, { default?: unknown }>): ToolRegistry => {
+  const tools: GameTool[] = [];
+  const errors: string[] = [];
+  const sourceByName = new Map<string, string>();
+
+  Object.keys(modules).sort().forEach(path => {
+    const candidate = modules[path]?.default as GameTool;
+    const shapeError = getToolShapeError(candidate);
+    if (shapeError) {
+      errors.push(`${path}: ${shapeError}`);
+      return;
+    }
+
+    const name = candidate.definition.name;
+    const existingPath = sourceByName.get(name);
+    if (existingPath) {
+      errors.push(`${path}: инструмент с именем "${name}" уже объявлен в ${existingPath}`);
+      return;
+    }
+
+    sourceByName.set(name, path);
+    tools.push(candidate);
+  });
+
+  return { tools, errors };
+};
@@ -0,0 +1,180 @@
+import { AttributeEntityType, DayPhase, GameState, TimedAttributeEffect, WorldClock } from '../types';
+import { cloneState, createEntityId } from './gameUtils';
+
+// ============================================================================
+// ИГРОВОЕ ВРЕМЯ
+// ============================================================================
+// Часы мира (GameState.clock) идут только через advanceWorldClock (инструмент
+// advance_time). Вместе с часами хранится очередь отложенных изменений атрибутов:
+// любая система может запланировать эффект (scheduleAttributeEffect), и он
+// применится, когда время дойдёт до его минуты.
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Час, с которого начинается фаза суток
+export const DAY_PHASE_START_HOURS: Record<DayPhase, number> = {
+  morning: 5,
+  day: 12,
+  evening: 18,
+  night: 22
+};
+
+export const DAY_PHASE_LABELS: Record<DayPhase, string> = {
+  morning: 'утро',
+  day: 'день',
+  evening: 'вечер',
+  night: 'ночь'
+};
+
+// Новая игра начинается утром первого дня
+export const DEFAULT_CLOCK_START_MINUTES = 8 * 60;
+
+// Максимальный шаг advance_time — неделя
+export const MAX_ADVANCE_MINUTES = 7 * MINUTES_PER_DAY;
+
+export const getDayPhase = (hour: number): DayPhase => {
+  if (hour < DAY_PHASE_START_HOURS.morning || hour >= DAY_PHASE_START_HOURS.night) return 'night';
+  if (hour < DAY_PHASE_START_HOURS.day) return 'morning';
+  if (hour < DAY_PHASE_START_HOURS.evening) return 'day';
+  return 'evening';
+};
+
+// Абсолютная минута мира: 0 — полночь первого дня
+export const toWorldMinutes = (clock: Pick<WorldClock, 'day' | 'hour' | 'minute'>): number =>
+  (clock.day - 1) * MINUTES_PER_DAY + clock.hour * 60 + clock.minute;
+
+/**
+ * Часы на абсолютной минуте мира (phase вычисляется по часу).
+ * Очередь эффектов передаётся как есть.
+ */
+export const createWorldClock = (
+  worldMinutes: number = DEFAULT_CLOCK_START_MINUTES,
+  effects?: TimedAttributeEffect[]
+): WorldClock => {
+  const total = Math.max(0, Math.floor(worldMinutes));
+  const hour = Math.floor((total % MINUTES_PER_DAY) / 60);
+  return {
+    day: Math.floor(total / MINUTES_PER_DAY) + 1,
+    hour,
+    minute: total % 60,
+    phase: getDayPhase(hour),
+    ...(effects && effects.length > 0 ? { effects } : {})
+  };
+};
+
+export const formatWorldTime = (clock: WorldClock): string =>
+  `день ${clock.day}, ${String(clock.hour).padStart(2, '0')}:${String(clock.minute).padStart(2, '0')} (${DAY_PHASE_LABELS[clock.phase]})`;
+
+export const formatDuration = (minutes: number): string => {
+  const days = Math.floor(minutes / MINUTES_PER_DAY);
+  const hours = Math.floor((minutes % MINUTES_PER_DAY) / 60);
+  const rest = minutes % 60;
+  const parts = [
+    days > 0 ? `${days} д` : '',
+    hours > 0 ? `${hours} ч` : '',
+    rest > 0 || minutes === 0 ? `${rest} мин` : ''
+  ];
+  return parts.filter(Boolean).join(' ');
+};
+
+/**
+ * Сколько минут осталось до ближайшего начала фазы (строго в будущем:
+ * если фаза только что началась, ждём следующих суток).
+ */
+export const getMinutesUntilPhase = (clock: WorldClock, phase: DayPhase): number => {
+  const minuteOfDay = clock.hour * 60 + clock.minute;
+  const phaseStart = DAY_PHASE_START_HOURS[phase] * 60;
+  return (phaseStart - minuteOfDay + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+};
+
+const findAttributeEntity = (state: GameState, entityType: AttributeEntityType, entityId: string) => {
+  switch (entityType) {
+    case 'player': return state.players.find(p => p.id === entityId);
+    case 'npc': return state.npcs.find(n => n.id === entityId);
+    case 'object': return state.objects.find(o => o.id === entityId);
+    case 'location': return state.locations.find(l => l.id === entityId);
+  }
+};
+
+/**
+ * Ожидающий эффект для атрибута (не больше одного: новый эффект заменяет прежний).
+ */
+export const findPendingAttributeEffect = (
+  state: GameState,
+  entityType: AttributeEntityType,
+  entityId: string,
+  attributeName: string
+): TimedAttributeEffect | undefined =>
+  state.clock?.effects?.find(e => e.entityType === entityType && e.entityId === entityId && e.attributeName === attributeName);
+
+/**
+ * Планирует изменение атрибута на минуте мира effect.at. Прежний ожидающий эффект
+ * того же атрибута отменяется. Если часов нет, они заводятся со стартовым временем.
+ */
+export const scheduleAttributeEffect = (state: GameState, effect: Omit<TimedAttributeEffect, 'id'>): GameState => {
+  const clock = state.clock ?? createWorldClock();
+  const scheduled: TimedAttributeEffect = {
+    id: createEntityId('effect'),
+    ...effect
+  };
+  const effects = [
+    ...(clock.effects ?? []).filter(e =>
+      !(e.entityType === effect.entityType && e.entityId === effect.entityId && e.attributeName === effect.attributeName)
+    ),
+    scheduled
+  ].sort((a, b) => a.at - b.at);
+  return { ...state, clock: { ...clock, effects } };
+};
+
+/**
+ * Отменяет ожидающий эффект атрибута (атрибут изменён или удалён явно).
+ * Если отменять нечего, возвращает то же состояние.
+ */
+export const cancelAttributeEffect = (
+  state: GameState,
+  entityType: AttributeEntityType,
+  entityId: string,
+  attributeName: string
+): GameState => {
+  const pending = findPendingAttributeEffect(state, entityType, entityId, attributeName);
+  if (!pending || !state.clock) return state;
+  return { ...state, clock: { ...state.clock, effects: state.clock.effects!.filter(e => e !== pending) } };
+};
+
+export interface FiredAttributeEffect {
+  effect: TimedAttributeEffect;
+  description: string; // "атрибут "пьян" у Tester снят"
+}
+
+/**
+ * Сдвигает часы на minutes вперёд и по порядку применяет эффекты, чья минута наступила.
+ * Эффекты исчезнувших сущностей отбрасываются.
+ */
+export const advanceWorldClock = (
+  state: GameState,
+  minutes: number
+): { newState: GameState; fired: FiredAttributeEffect[] } => {
+  const clock = state.clock ?? createWorldClock();
+  const target = toWorldMinutes(clock) + minutes;
+  const effects = clock.effects ?? [];
+  const due = effects.filter(e => e.at <= target);
+
+  const newState = cloneState(state);
+  const fired: FiredAttributeEffect[] = [];
+  for (const effect of due) {
+    const entity = findAttributeEntity(newState, effect.entityType, effect.entityId);
+    if (!entity) continue;
+
+    const attributes = entity.attributes || (entity.attributes = {});
+    if (effect.value === null) {
+      delete attributes[effect.attributeName];
+      fired.push({ effect, description: `атрибут "${effect.attributeName}" у ${entity.name} снят` });
+    } else {
+      attributes[effect.attributeName] = effect.value;
+      fired.push({ effect, description: `атрибут "${effect.attributeName}" у ${entity.name} → "${effect.value}"` });
+    }
+  }
+
+  newState.clock = createWorldClock(target, effects.filter(e => e.at > target));
+  return { newState, fired };
+};
@@ -1,10 +1,12 @@
 import type { Plugin } from 'vite';
 import fs from 'fs';
 import path from 'path';
-import { GameState } from './types';
+import { DeclarativeToolFile, GameState, SaveSlot, SaveSlotInfo, TurnHistory } from './types';
 import { normalizeState } from './utils/gameUtils';
+import { migrateSave, createSaveEnvelope } from './utils/saveFormat';
 
-export function saveDataPlugin(): Plugin {
+// rootDir — корень проекта с папками data, prompts, saves и custom-tools (тесты подставляют временную папку)
+export function saveDataPlugin(rootDir: string = __dirname): Plugin {
   return {
     name: 'save-data-plugin',
     configureServer(server) {
@@ -22,10 +24,13 @@ export function saveDataPlugin(): Plugin {
 
         req.on('end', async () => {
           try {
-            const parsedState: GameState = JSON.parse(body);
+            // Тело: { state, history } или (старый формат) только GameState
+            const parsed = JSON.parse(body);
+            const parsedState: GameState = parsed.state ?? parsed;
+            const history: TurnHistory[] | undefined = parsed.state ? parsed.history : undefined;
             // Нормализуем состояние - гарантируем наличие attributes у всех сущностей
             const gameState = normalizeState(parsedState);
-            const dataDir = path.resolve(__dirname, 'data');
+            const dataDir = path.resolve(rootDir, 'data');
 
             // Убеждаемся, что папка data существует
             if (!fs.existsSync(dataDir)) {
@@ -46,18 +51,47 @@ export const INITIAL_LOCATIONS: LocationData[] = ${JSON.stringify(gameState.loca
             const playersContent = `import { PlayerData } from '../types';
 
 export const INITIAL_PLAYERS: PlayerData[] = ${JSON.stringify(gameState.players, null, 2)};
+`;
+
+            const npcsContent = `import { NpcData } from '../types';
+
+export const INITIAL_NPCS: NpcData[] = ${JSON.stringify(gameState.npcs, null, 2)};
 `;
 
             const objectsContent = `import { ObjectData } from '../types';
 
 export const INITIAL_OBJECTS: ObjectData[] = ${JSON.stringify(gameState.objects, null, 2)};
+`;
+
+            // Генератор бросков — иначе при старте миграция заведёт новое зерно
+            const diceContent = `import { DiceState } from '../types';
+
+export const INITIAL_DICE: DiceState | undefined = ${JSON.stringify(gameState.dice, null, 2) ?? 'undefined'};
+`;
+
+            // Часы мира вместе с очередью отложенных эффектов
+            const clockContent = `import { WorldClock } from '../types';
+
+export const INITIAL_CLOCK: WorldClock | undefined = ${JSON.stringify(gameState.clock, null, 2) ?? 'undefined'};
 `;
 
             // Сохраняем файлы
             fs.writeFileSync(path.join(dataDir, 'world.ts'), worldContent, 'utf-8');
             fs.writeFileSync(path.join(dataDir, 'locations.ts'), locationsContent, 'utf-8');
             fs.writeFileSync(path.join(dataDir, 'players.ts'), playersContent, 'utf-8');
+            fs.writeFileSync(path.join(dataDir, 'npcs.ts'), npcsContent, 'utf-8');
             fs.writeFileSync(path.join(dataDir, 'objects.ts'), objectsContent, 'utf-8');
+            fs.writeFileSync(path.join(dataDir, 'dice.ts'), diceContent, 'utf-8');
+            fs.writeFileSync(path.join(dataDir, 'clock.ts'), clockContent, 'utf-8');
+
+            // История ходов (с логами инструментов, токенами и стоимостью) сохраняется вместе с состоянием
+            if (history) {
+              const historyContent = `import { TurnHistory } from '../types';
+
+export const INITIAL_HISTORY: TurnHistory[] = ${JSON.stringify(history, null, 2)};
+`;
+              fs.writeFileSync(path.join(dataDir, 'history.ts'), historyContent, 'utf-8');
+            }
 
             res.statusCode = 200;
             res.setHeader('Content-Type', 'application/json');
@@ -73,7 +107,7 @@ export const INITIAL_OBJECTS: ObjectData[] = ${JSON.stringify(gameState.objects,
 
       // API для работы с промптами
       server.middlewares.use('/api/prompts', async (req, res, next) => {
-        const promptsDir = path.resolve(__dirname, 'prompts');
+        const promptsDir = path.resolve(rootDir, 'prompts');
         
         // Убеждаемся, что папка prompts существует
         if (!fs.existsSync(promptsDir)) {
@@ -228,6 +262,196 @@ export const INITIAL_OBJECTS: ObjectData[] = ${JSON.stringify(gameState.objects,
           res.end(JSON.stringify({ success: false, error: error.message }));
         }
       });
+
+      // API слотов сохранений: полные сессии (состояние, история, настройки ИИ, включённые инструменты)
+      server.middlewares.use('/api/saves', async (req, res, next) => {
+        const savesDir = path.resolve(rootDir, 'saves');
+
+        // Убеждаемся, что папка saves существует
+        if (!fs.existsSync(savesDir)) {
+          fs.mkdirSync(savesDir, { recursive: true });
+        }
+
+        const url = new URL(req.url || '', `http://${req.headers.host}`);
+        const id = url.searchParams.get('id'); // ID слота (для GET/PUT/DELETE конкретного)
+
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+        if (req.method === 'OPTIONS') {
+          res.statusCode = 200;
+          res.end();
+          return;
+        }
+
+        // ID становится именем файла — не допускаем выхода за пределы папки saves
+        if (id !== null && !/^[\w-]+$/.test(id)) {
+          res.statusCode = 400;
+          res.end(JSON.stringify({ success: false, error: 'Некорректный ID сохранения' }));
+          return;
+        }
+
+        const slotPath = (slotId: string) => path.join(savesDir, `${slotId}.json`);
+        // Слоты старых версий формата поднимаются до текущей при чтении
+        const readSlot = (filePath: string): SaveSlot => migrateSave<SaveSlot>(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+        const toInfo = ({ session, ...info }: SaveSlot): SaveSlotInfo => ({
+          ...info,
+          turnCount: session.history.length
+        });
+
+        try {
+          // GET /api/saves - список слотов (без содержимого сессий)
+          if (req.method === 'GET' && !id) {
+            const saves: SaveSlotInfo[] = [];
+
+            for (const file of fs.readdirSync(savesDir)) {
+              if (!file.endsWith('.json')) continue;
+              try {
+                saves.push(toInfo(readSlot(path.join(savesDir, file))));
+              } catch (error: any) {
+                console.warn(`[Saves API] Пропущен повреждённый файл ${file}:`, error.message);
+              }
+            }
+
+            saves.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+            res.statusCode = 200;
+            res.end(JSON.stringify({ success: true, saves }));
+            return;
+          }
+
+          // GET /api/saves?id=xxx - загрузить слот целиком
+          if (req.method === 'GET' && id) {
+            if (!fs.existsSync(slotPath(id))) {
+              res.statusCode = 404;
+              res.end(JSON.stringify({ success: false, error: 'Сохранение не найдено' }));
+              return;
+            }
+
+            const save = readSlot(slotPath(id));
+            res.statusCode = 200;
+            res.end(JSON.stringify({ success: true, save }));
+            return;
+          }
+
+          // POST /api/saves - создать слот { name, session }
+          // PUT /api/saves?id=xxx - переименовать и/или перезаписать слот { name?, session? }
+          if (req.method === 'POST' || (req.method === 'PUT' && id)) {
+            let body = '';
+            req.on('data', chunk => {
+              body += chunk.toString();
+            });
+
+            req.on('end', () => {
+              try {
+                const { name, session } = JSON.parse(body);
+                let slot: SaveSlot;
+
+                if (req.method === 'POST') {
+                  if (!name || !session?.state) {
+                    res.statusCode = 400;
+                    res.end(JSON.stringify({ success: false, error: 'Недостаточно данных' }));
+                    return;
+                  }
+                  slot = {
+                    id: `save_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                    name,
+                    ...createSaveEnvelope(session)
+                  };
+                } else {
+                  if (!fs.existsSync(slotPath(id!))) {
+                    res.statusCode = 404;
+                    res.end(JSON.stringify({ success: false, error: 'Сохранение не найдено' }));
+                    return;
+                  }
+                  const existing = readSlot(slotPath(id!));
+                  slot = {
+                    id: existing.id,
+                    name: name || existing.name,
+                    ...createSaveEnvelope(session || existing.session, existing)
+                  };
+                }
+
+                fs.writeFileSync(slotPath(slot.id), JSON.stringify(slot, null, 2), 'utf-8');
+
+                res.statusCode = 200;
+                res.end(JSON.stringify({ success: true, save: toInfo(slot) }));
+              } catch (error: any) {
+                res.statusCode = 500;
+                res.end(JSON.stringify({ success: false, error: error.message }));
+              }
+            });
+            return;
+          }
+
+          // DELETE /api/saves?id=xxx - удалить слот
+          if (req.method === 'DELETE' && id) {
+            if (!fs.existsSync(slotPath(id))) {
+              res.statusCode = 404;
+              res.end(JSON.stringify({ success: false, error: 'Сохранение не найдено' }));
+              return;
+            }
+
+            fs.unlinkSync(slotPath(id));
+
+            res.statusCode = 200;
+            res.end(JSON.stringify({ success: true }));
+            return;
+          }
+
+          res.statusCode = 400;
+          res.end(JSON.stringify({ success: false, error: 'Неверный запрос' }));
+        } catch (error: any) {
+          console.error('[Saves API] Ошибка:', error);
+          res.statusCode = 500;
+          res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+      });
+
+      // API декларативных инструментов: описания из custom-tools/*.json (только чтение)
+      const customToolsDir = path.resolve(rootDir, 'custom-tools');
+
+      server.middlewares.use('/api/custom-tools', async (req, res, next) => {
+        res.setHeader('Content-Type', 'application/json');
+
+        if (req.method !== 'GET') {
+          res.statusCode = 405;
+          res.end(JSON.stringify({ success: false, error: 'Method Not Allowed' }));
+          return;
+        }
+
+        try {
+          const tools: DeclarativeToolFile[] = [];
+
+          if (fs.existsSync(customToolsDir)) {
+            for (const file of fs.readdirSync(customToolsDir).sort()) {
+              if (!file.endsWith('.json')) continue;
+              // Ошибка разбора одного файла не мешает загрузке остальных
+              try {
+                tools.push({ file, definition: JSON.parse(fs.readFileSync(path.join(customToolsDir, file), 'utf-8')) });
+              } catch (error: any) {
+                tools.push({ file, error: `Некорректный JSON: ${error.message}` });
+              }
+            }
+          }
+
+          res.statusCode = 200;
+          res.end(JSON.stringify({ success: true, tools }));
+        } catch (error: any) {
+          console.error('[Custom Tools API] Ошибка:', error);
+          res.statusCode = 500;
+          res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+      });
+
+      // Файлы custom-tools/ не входят в граф модулей: об изменениях клиент узнаёт отдельным событием
+      server.watcher.add(customToolsDir);
+      server.watcher.on('all', (_event, file) => {
+        if (path.dirname(file) === customToolsDir && file.endsWith('.json')) {
+          server.ws.send({ type: 'custom', event: 'custom-tools:changed' });
+        }
+      });
     }
   };
 }